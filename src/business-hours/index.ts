@@ -0,0 +1,152 @@
+/**
+ * Business Hours
+ *
+ * Per-property office hours with timezone and holidays, and what the
+ * assistant does after hours. The voice session checks the calendar when a
+ * call starts; the greeting and prompt adapt to the result. A property
+ * without hours in voice_config.business_hours is always open, so none of
+ * the after-hours behaviour applies to it.
+ *
+ * Environment (defaults for properties without voice_config.business_hours):
+ * - BUSINESS_TIMEZONE: IANA timezone (default: America/New_York)
+ * - AFTER_HOURS_POLICY: emergency_only, take_message (default) or forward_on_call
+ */
+
+import { config } from 'dotenv';
+import { isValidTimeZone, zonedParts, addDays } from '../utils/timezone.js';
+import { getMessages, intlLocale, SupportedLanguage } from '../locales/index.js';
+import {
+  AFTER_HOURS_POLICIES,
+  AfterHoursPolicy,
+  BusinessHoursConfig,
+  BusinessHoursStatus,
+  ResolvedBusinessHours,
+  TimeRange,
+  WEEKDAYS,
+} from './types.js';
+
+config();
+
+export type {
+  AfterHoursPolicy,
+  BusinessHoursConfig,
+  BusinessHoursStatus,
+  ResolvedBusinessHours,
+  TimeRange,
+  Weekday,
+} from './types.js';
+export { WEEKDAYS, AFTER_HOURS_POLICIES } from './types.js';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+// No calendar set - the office never closes
+const ALWAYS_OPEN: TimeRange[] = [{ start: 0, end: 24 * 60 }];
+
+// How far ahead to look for the next opening
+const NEXT_OPEN_SEARCH_DAYS = 14;
+
+function parseTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return null;
+  return hour * 60 + minute;
+}
+
+/**
+ * Parse "08:00-12:00, 13:00-17:00". Bad or overnight ranges are skipped.
+ */
+export function parseHours(value: string | null | undefined): TimeRange[] {
+  if (!value) return [];
+  const ranges: TimeRange[] = [];
+  for (const part of value.split(',')) {
+    const [from, to] = part.split('-');
+    const start = parseTime(from || '');
+    const end = parseTime(to || '');
+    if (start === null || end === null || end <= start) {
+      console.warn(`[BusinessHours] Ignoring bad hours "${part.trim()}"`);
+      continue;
+    }
+    ranges.push({ start, end });
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A property's calendar: voice_config.business_hours over env defaults
+ */
+export function resolveBusinessHours(propertyConfig?: BusinessHoursConfig | null): ResolvedBusinessHours {
+  let timezone = propertyConfig?.timezone || process.env.BUSINESS_TIMEZONE || DEFAULT_TIMEZONE;
+  if (!isValidTimeZone(timezone)) {
+    console.warn(`[BusinessHours] Unknown timezone "${timezone}" - using ${DEFAULT_TIMEZONE}`);
+    timezone = DEFAULT_TIMEZONE;
+  }
+
+  const policySetting = propertyConfig?.after_hours || process.env.AFTER_HOURS_POLICY;
+  const policy = (AFTER_HOURS_POLICIES as readonly string[]).includes(policySetting || '')
+    ? (policySetting as AfterHoursPolicy)
+    : 'take_message';
+
+  const hours = propertyConfig?.hours;
+  return {
+    timezone,
+    hours: WEEKDAYS.map((day) => (hours ? parseHours(hours[day]) : ALWAYS_OPEN)),
+    holidays: new Set((propertyConfig?.holidays || []).filter((date) => /^\d{4}-\d{2}-\d{2}$/.test(date))),
+    policy,
+  };
+}
+
+/**
+ * Whether the office is open right now and, if not, when it next opens
+ */
+export function getBusinessHoursStatus(calendar: ResolvedBusinessHours, now = new Date()): BusinessHoursStatus {
+  const local = zonedParts(now, calendar.timezone);
+  const today = addDays(local, 0);
+  const minutes = local.hour * 60 + local.minute;
+  const holiday = calendar.holidays.has(today);
+  const open = !holiday && calendar.hours[local.weekday].some((range) => minutes >= range.start && minutes < range.end);
+
+  let nextOpen: BusinessHoursStatus['nextOpen'] = null;
+  if (!open) {
+    for (let daysAhead = 0; daysAhead <= NEXT_OPEN_SEARCH_DAYS && !nextOpen; daysAhead++) {
+      const date = addDays(local, daysAhead);
+      if (calendar.holidays.has(date)) continue;
+      const range = calendar.hours[(local.weekday + daysAhead) % 7].find((r) => daysAhead > 0 || r.start > minutes);
+      if (range) nextOpen = { date, minutes: range.start, daysAhead };
+    }
+  }
+
+  return { open, holiday, policy: calendar.policy, timezone: calendar.timezone, nextOpen };
+}
+
+/**
+ * When the office next opens, for the caller: "tomorrow at 8:00 AM",
+ * "Monday at 8:00 AM", "el lunes a las 8:00"
+ */
+export function describeNextOpen(status: BusinessHoursStatus, language: SupportedLanguage): string | null {
+  if (!status.nextOpen) return null;
+  const { date, minutes, daysAhead } = status.nextOpen;
+  const [year, month, day] = date.split('-').map(Number);
+  // Wall-clock time expressed in UTC, so formatting doesn't shift it
+  const wallClock = new Date(Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60));
+  const locale = intlLocale(language);
+
+  // "9:00 a.m." loses its last dot - the messages end the sentence themselves
+  const time = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: 'UTC' })
+    .format(wallClock)
+    .replace(/\.$/, '');
+  // "today" / "tomorrow", then weekday names
+  const dayName =
+    daysAhead <= 1
+      ? new Intl.RelativeTimeFormat(locale, { numeric: 'auto' }).format(daysAhead, 'day')
+      : new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' }).format(wallClock);
+
+  return getMessages(language).opensAt(dayName, time, daysAhead > 1);
+}
+
+/**
+ * Local time at the property, for the prompt: "Sunday 11:48 PM"
+ */
+export function describeLocalTime(timezone: string, now = new Date()): string {
+  return new Intl.DateTimeFormat('en-US', { weekday: 'long', hour: 'numeric', minute: '2-digit', timeZone: timezone }).format(now);
+}
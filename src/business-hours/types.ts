@@ -0,0 +1,49 @@
+/**
+ * Business Hours Types
+ */
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// What the assistant does when the office is closed:
+// - emergency_only: take urgent problems, ask everyone else to call back
+// - take_message: take a message, promise a call back once the office opens
+// - forward_on_call: transfers go to the on-call contact instead of the office
+export const AFTER_HOURS_POLICIES = ['emergency_only', 'take_message', 'forward_on_call'] as const;
+export type AfterHoursPolicy = (typeof AFTER_HOURS_POLICIES)[number];
+
+// Per-property calendar (properties.voice_config.business_hours)
+export interface BusinessHoursConfig {
+  // IANA timezone, e.g. "America/Chicago"
+  timezone?: string;
+  // "08:00-17:00", or several ranges "08:00-12:00, 13:00-17:00". Missing = closed.
+  hours?: Partial<Record<Weekday, string | null>>;
+  // Whole days closed, YYYY-MM-DD in the property's timezone
+  holidays?: string[];
+  after_hours?: AfterHoursPolicy;
+}
+
+// Minutes since local midnight
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface ResolvedBusinessHours {
+  timezone: string;
+  // Indexed by weekday, 0 = Sunday
+  hours: TimeRange[][];
+  holidays: Set<string>;
+  policy: AfterHoursPolicy;
+}
+
+export interface BusinessHoursStatus {
+  open: boolean;
+  // Closed all day for a holiday
+  holiday: boolean;
+  policy: AfterHoursPolicy;
+  timezone: string;
+  // When the office next opens, in local wall-clock time (null while open,
+  // or if nothing opens within the next two weeks)
+  nextOpen: { date: string; minutes: number; daysAhead: number } | null;
+}
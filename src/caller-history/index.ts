@@ -0,0 +1,199 @@
+/**
+ * Caller History
+ *
+ * What we already know about a verified caller: their recent calls (the
+ * summary saved with each call record), other entries in their interaction
+ * history, and their open work orders. It goes into the prompt as a short
+ * "recent history" block so the agent can ask "I see you called yesterday
+ * about the kitchen sink - is this the same issue?" instead of starting from
+ * scratch. Open work orders come first; the rest is newest first, cut off at
+ * the token budget.
+ *
+ * Environment:
+ * - CALLER_HISTORY_DAYS: how far back calls and interactions are loaded (default 30)
+ * - CALLER_HISTORY_TOKEN_BUDGET: most tokens the block may use (default 300)
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { estimateTokens } from '../llm/index.js';
+import { getTenantWorkOrders, isWorkOrderOpen, TenantWorkOrder } from '../supabase.js';
+import { sanitizeForPrompt } from '../utils/prompt-sanitizer.js';
+import { zonedParts, ZonedParts } from '../utils/timezone.js';
+import { CallerHistory, PastCall, PastInteraction } from './types.js';
+
+config();
+
+export type { CallerHistory, PastCall, PastInteraction } from './types.js';
+
+const DEFAULT_HISTORY_DAYS = 30;
+const DEFAULT_TOKEN_BUDGET = 300;
+
+// Rows read from each table - the budget cuts the block down further
+const MAX_ROWS = 10;
+
+// Longest summary kept for a single entry
+const ENTRY_CHARS = 160;
+
+const HEADER = "RECENT HISTORY (this caller's past calls and requests):";
+
+// Audit trail entries that add nothing here: calls are read from call_records
+// instead, and lookups and verification are noise
+const SKIPPED_INTERACTIONS = [
+  'call_inbound',
+  'call_outbound',
+  'verification_success',
+  'verification_attempt',
+  'knowledge_base_answer',
+];
+
+const INTERACTION_LABELS: Record<string, string> = {
+  work_order_created: 'Request filed',
+  work_order_updated: 'Request updated',
+  work_order_closed: 'Request closed',
+  self_fix_resolved: 'Fixed it themselves on a call',
+  emergency_detected: 'Emergency reported',
+};
+
+let supabase: SupabaseClient;
+
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    supabase = createClient(process.env.SUPABASE_URL || '', process.env.SUPABASE_SERVICE_ROLE_KEY || '');
+  }
+  return supabase;
+}
+
+function getHistoryDays(): number {
+  const value = Number(process.env.CALLER_HISTORY_DAYS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_HISTORY_DAYS;
+}
+
+function getTokenBudget(): number {
+  const value = Number(process.env.CALLER_HISTORY_TOKEN_BUDGET);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_TOKEN_BUDGET;
+}
+
+async function getPastCalls(tenantId: string, since: string, excludeCallRecordId: string | null): Promise<PastCall[]> {
+  let query = getSupabase()
+    .from('call_records')
+    .select('id, direction, started_at, transcript_summary')
+    .eq('tenant_id', tenantId)
+    .gte('started_at', since)
+    .not('transcript_summary', 'is', null)
+    .order('started_at', { ascending: false })
+    .limit(MAX_ROWS);
+  if (excludeCallRecordId) query = query.neq('id', excludeCallRecordId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to fetch past calls: ${error.message}`);
+  return (data || []) as PastCall[];
+}
+
+async function getPastInteractions(tenantId: string, since: string): Promise<PastInteraction[]> {
+  const { data, error } = await getSupabase()
+    .from('tenant_interactions')
+    .select('id, interaction_type, channel, content, ai_summary, created_at')
+    .eq('tenant_id', tenantId)
+    .gte('created_at', since)
+    .not('interaction_type', 'in', `(${SKIPPED_INTERACTIONS.join(',')})`)
+    .order('created_at', { ascending: false })
+    .limit(MAX_ROWS);
+  if (error) throw new Error(`Failed to fetch interactions: ${error.message}`);
+  return (data || []) as PastInteraction[];
+}
+
+/**
+ * A tenant's recent history. Each part is optional - one that can't be read
+ * is left empty rather than failing the call.
+ */
+export async function loadCallerHistory(
+  tenantId: string,
+  // The current call's record, which has no summary yet anyway
+  excludeCallRecordId: string | null = null
+): Promise<CallerHistory> {
+  const since = new Date(Date.now() - getHistoryDays() * 24 * 60 * 60 * 1000).toISOString();
+  const orEmpty = <T>(label: string) => (error: unknown): T[] => {
+    console.error(`[CallerHistory] Failed to load ${label}:`, error);
+    return [];
+  };
+
+  const [calls, interactions, workOrders] = await Promise.all([
+    getPastCalls(tenantId, since, excludeCallRecordId).catch(orEmpty<PastCall>('calls')),
+    getPastInteractions(tenantId, since).catch(orEmpty<PastInteraction>('interactions')),
+    getTenantWorkOrders(tenantId, getHistoryDays()).catch(orEmpty<TenantWorkOrder>('work orders')),
+  ]);
+  return { calls, interactions, workOrders };
+}
+
+function daysBetween(from: ZonedParts, to: ZonedParts): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / (24 * 60 * 60 * 1000)
+  );
+}
+
+/**
+ * "today", "yesterday", "3 days ago" or "Oct 12", by the property's calendar
+ */
+export function describeDay(iso: string, timezone: string, now = new Date()): string {
+  const date = new Date(iso);
+  const days = daysBetween(zonedParts(date, timezone), zonedParts(now, timezone));
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  if (days < 7) return `${days} days ago`;
+  return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', timeZone: timezone }).format(date);
+}
+
+function summarize(text: string | null): string {
+  return sanitizeForPrompt((text || '').replace(/\s+/g, ' ').trim(), ENTRY_CHARS);
+}
+
+function workOrderLine(order: TenantWorkOrder, timezone: string, now: Date): string {
+  const status = order.status.replace(/_/g, ' ');
+  const title = sanitizeForPrompt(order.title, 80);
+  if (isWorkOrderOpen(order.status)) {
+    return `- Open request "${title}" (${status}), reported ${describeDay(order.created_at, timezone, now)}`;
+  }
+  return `- Request "${title}" ${status} ${describeDay(order.updated_at || order.created_at, timezone, now)}`;
+}
+
+/**
+ * The prompt block for a caller's history, or null if there is nothing to
+ * say. Lines are added until the next one would go over the budget.
+ */
+export function buildCallerHistoryPrompt(
+  history: CallerHistory,
+  timezone: string,
+  options: { budget?: number; now?: Date } = {}
+): string | null {
+  const budget = options.budget ?? getTokenBudget();
+  const now = options.now ?? new Date();
+
+  const open = history.workOrders.filter((order) => isWorkOrderOpen(order.status));
+  const closed = history.workOrders.filter((order) => !isWorkOrderOpen(order.status));
+
+  const timeline: { at: string; line: string }[] = [
+    ...history.calls.map((call) => {
+      const who = call.direction === 'outbound' ? 'We called them' : 'Called';
+      const when = describeDay(call.started_at, timezone, now);
+      return { at: call.started_at, line: `- ${who} ${when}: ${summarize(call.transcript_summary)}` };
+    }),
+    ...history.interactions.map((interaction) => {
+      const label = INTERACTION_LABELS[interaction.interaction_type] || interaction.interaction_type.replace(/_/g, ' ');
+      const text = summarize(interaction.ai_summary || interaction.content);
+      const when = describeDay(interaction.created_at, timezone, now);
+      return { at: interaction.created_at, line: `- ${label} ${when}${text ? `: ${text}` : ''}` };
+    }),
+    ...closed.map((order) => ({ at: order.updated_at || order.created_at, line: workOrderLine(order, timezone, now) })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  const lines: string[] = [];
+  let tokens = estimateTokens(HEADER);
+  for (const line of [...open.map((order) => workOrderLine(order, timezone, now)), ...timeline.map((e) => e.line)]) {
+    const cost = estimateTokens(line) + 1;
+    if (tokens + cost > budget) break;
+    lines.push(line);
+    tokens += cost;
+  }
+  return lines.length > 0 ? `${HEADER}\n${lines.join('\n')}` : null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Caller History Types
+ */
+
+import type { TenantWorkOrder } from '../supabase.js';
+
+// A finished call with the tenant (call_records)
+export interface PastCall {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  started_at: string;
+  transcript_summary: string;
+}
+
+// An entry in the tenant's audit trail (tenant_interactions)
+export interface PastInteraction {
+  id: string;
+  interaction_type: string;
+  channel: string | null;
+  content: string | null;
+  ai_summary: string | null;
+  created_at: string;
+}
+
+export interface CallerHistory {
+  calls: PastCall[];
+  interactions: PastInteraction[];
+  // Open work orders, plus recently closed ones
+  workOrders: TenantWorkOrder[];
+}
@@ -1,10 +1,12 @@
 /**
  * Fuzzy Matching Utilities
  *
- * Functions for fuzzy name matching and string manipulation.
+ * Edit distance, unit and phone normalization, and identity parsing.
+ * Names are scored in name-match.ts.
  */
 
 import { ClaimedIdentity } from './types.js';
+import { normalizeSpokenForm } from './spoken-form.js';
 
 /**
  * Calculate Levenshtein distance between two strings
@@ -37,40 +39,19 @@ export function levenshteinDistance(a: string, b: string): number {
 }
 
 /**
- * Fuzzy match names - handles first name only, slight misspellings
+ * Normalize unit number for comparison
  */
-export function fuzzyNameMatch(storedName: string, claimedName: string): boolean {
-  const stored = storedName.toLowerCase().trim();
-  const claimed = claimedName.toLowerCase().trim();
-
-  // Exact match
-  if (stored === claimed) return true;
-
-  // First name match
-  const storedFirst = stored.split(' ')[0];
-  const claimedFirst = claimed.split(' ')[0];
-  if (storedFirst === claimedFirst) return true;
-
-  // Levenshtein distance for slight misspellings (max 2 edits)
-  if (levenshteinDistance(storedFirst, claimedFirst) <= 2) return true;
-
-  // Last name match
-  const storedParts = stored.split(' ');
-  const claimedParts = claimed.split(' ');
-  if (storedParts.length > 1 && claimedParts.length > 1) {
-    const storedLast = storedParts[storedParts.length - 1];
-    const claimedLast = claimedParts[claimedParts.length - 1];
-    if (storedLast === claimedLast) return true;
-  }
-
-  return false;
+export function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
 /**
- * Normalize unit number for comparison
+ * Match a unit number against digits keyed on the phone keypad.
+ * Letters can't be typed, so "4B" matches a keyed "4".
  */
-export function normalizeUnit(unit: string): string {
-  return unit.toLowerCase().replace(/[^a-z0-9]/g, '');
+export function keypadUnitMatch(unitNumber: string, digits: string): boolean {
+  const normalized = normalizeUnit(unitNumber);
+  return normalized === digits || normalized.replace(/[^0-9]/g, '') === digits;
 }
 
 /**
@@ -100,8 +81,10 @@ export function normalizePhone(phone: string): string {
 /**
  * Parse claimed identity from conversation transcript
  * Looks for patterns like "John Smith", "Unit 4B", etc.
+ * Spoken forms ("unit four bee", "S-M-I-T-H") are normalized first.
  */
 export function parseClaimedIdentity(transcript: string): ClaimedIdentity {
+  const text = normalizeSpokenForm(transcript);
   let name: string | null = null;
   let unit: string | null = null;
 
@@ -113,7 +96,7 @@ export function parseClaimedIdentity(transcript: string): ClaimedIdentity {
   ];
 
   for (const pattern of namePatterns) {
-    const match = transcript.match(pattern);
+    const match = text.match(pattern);
     if (match) {
       name = capitalizeName(match[1].trim());
       break;
@@ -129,7 +112,7 @@ export function parseClaimedIdentity(transcript: string): ClaimedIdentity {
   ];
 
   for (const pattern of unitPatterns) {
-    const match = transcript.match(pattern);
+    const match = text.match(pattern);
     if (match) {
       unit = match[1].toUpperCase();
       break;
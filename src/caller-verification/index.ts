@@ -14,14 +14,10 @@ import {
   TenantContext,
   PropertyContext,
   PropertyContextWithAddress,
+  TenantMatch,
 } from './types.js';
-import {
-  normalizePhone,
-  normalizeUnit,
-  fuzzyNameMatch,
-  capitalizeName,
-  parseClaimedIdentity as parseIdentity,
-} from './fuzzy-match.js';
+import { normalizePhone, capitalizeName, parseClaimedIdentity as parseIdentity } from './fuzzy-match.js';
+import { scoreCallerMatch, matchOutcome } from './name-match.js';
 
 config();
 
@@ -33,10 +29,14 @@ export type {
   TenantContext,
   PropertyContext,
   PropertyContextWithAddress,
+  MatchOutcome,
+  TenantMatch,
 } from './types.js';
 
 // Re-export utilities
-export { normalizePhone, fuzzyNameMatch, parseClaimedIdentity } from './fuzzy-match.js';
+export { normalizePhone, parseClaimedIdentity } from './fuzzy-match.js';
+export { fuzzyNameMatch, nameScore, scoreCallerMatch, matchOutcome } from './name-match.js';
+export { normalizeSpokenForm } from './spoken-form.js';
 
 let supabase: SupabaseClient;
 
@@ -57,6 +57,8 @@ export class CallerVerification {
   private propertyId: string;
   private attempts: number = 0;
   private maxAttempts: number = 3;
+  // Highest-scoring tenant across attempts, saved with an unverified request
+  private bestMatch: TenantMatch | null = null;
 
   constructor(propertyId: string) {
     this.propertyId = propertyId;
@@ -121,9 +123,16 @@ export class CallerVerification {
   }
 
   /**
-   * Attempt to match claimed name and unit to a tenant in the property
+   * Attempt to match claimed name and unit to a tenant in the property.
+   * Every tenant is scored and the closest is verified if it scores at or
+   * above the accept threshold (see name-match.ts).
+   * With `keypad`, the unit is digits typed on the phone and letters are ignored.
    */
-  async attemptMatch(claimedName: string, claimedUnit: string): Promise<VerificationResult> {
+  async attemptMatch(
+    claimedName: string,
+    claimedUnit: string,
+    options: { keypad?: boolean } = {}
+  ): Promise<VerificationResult> {
     this.attempts++;
 
     // Get all tenants for this property
@@ -144,55 +153,43 @@ export class CallerVerification {
       return this.buildUnverifiedResult();
     }
 
-    // Try exact match first
+    let best: { tenant: (typeof tenants)[number]; score: number } | null = null;
     for (const tenant of tenants) {
       const unit = Array.isArray(tenant.unit) ? tenant.unit[0] : tenant.unit;
-      const unitMatch = normalizeUnit(unit.unit_number) === normalizeUnit(claimedUnit);
-      const nameMatch = fuzzyNameMatch(tenant.name, claimedName);
-
-      if (unitMatch && nameMatch) {
-        return {
-          verified: true,
-          tenant: {
-            id: tenant.id,
-            name: tenant.name,
-            phone: tenant.phone,
-            email: tenant.email,
-            unit_id: tenant.unit_id,
-            unit: unit,
-          },
-          property: await this.getProperty(),
-          attempts: this.attempts,
-          verificationMethod: 'name_unit_match',
-        };
-      }
+      const score = scoreCallerMatch(
+        { name: tenant.name, unitNumber: unit.unit_number },
+        { name: claimedName, unit: claimedUnit },
+        options
+      );
+      if (!best || score > best.score) best = { tenant, score };
+    }
+    if (!best) {
+      return this.buildUnverifiedResult();
     }
 
-    // Partial match - unit only with fuzzy name
-    for (const tenant of tenants) {
-      const unit = Array.isArray(tenant.unit) ? tenant.unit[0] : tenant.unit;
-      if (normalizeUnit(unit.unit_number) === normalizeUnit(claimedUnit)) {
-        const nameMatch = fuzzyNameMatch(tenant.name, claimedName);
-        if (nameMatch) {
-          return {
-            verified: true,
-            tenant: {
-              id: tenant.id,
-              name: tenant.name,
-              phone: tenant.phone,
-              email: tenant.email,
-              unit_id: tenant.unit_id,
-              unit: unit,
-            },
-            property: await this.getProperty(),
-            attempts: this.attempts,
-            verificationMethod: 'name_unit_match',
-          };
-        }
-      }
+    const match: TenantMatch = { tenantId: best.tenant.id, score: best.score, outcome: matchOutcome(best.score) };
+    if (!this.bestMatch || match.score > this.bestMatch.score) this.bestMatch = match;
+
+    if (match.outcome !== 'accept') {
+      return { ...(await this.buildUnverifiedResult()), match };
     }
 
-    return this.buildUnverifiedResult();
+    const { tenant } = best;
+    return {
+      verified: true,
+      tenant: {
+        id: tenant.id,
+        name: tenant.name,
+        phone: tenant.phone,
+        email: tenant.email,
+        unit_id: tenant.unit_id,
+        unit: Array.isArray(tenant.unit) ? tenant.unit[0] : tenant.unit,
+      },
+      property: await this.getProperty(),
+      attempts: this.attempts,
+      verificationMethod: 'name_unit_match',
+      match,
+    };
   }
 
   /**
@@ -247,6 +244,9 @@ export class CallerVerification {
         call_record_id: data.callRecordId,
         status: 'pending_review',
         verification_attempts: this.attempts,
+        // How close the caller came to a tenant - the tenant only when close enough to check
+        match_score: this.bestMatch?.score ?? null,
+        possible_tenant_id: this.bestMatch?.outcome === 'review' ? this.bestMatch.tenantId : null,
       })
       .select('id')
       .single();
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { matchOutcome, nameScore, phoneticCodes, scoreCallerMatch, unitScore } from './name-match.js';
+
+const thresholds = { accept: 0.85, review: 0.7 };
+
+describe('phoneticCodes', () => {
+  it.each([
+    ['Catherine', 'Kathryn'],
+    ['Smith', 'Smyth'],
+    ['Stephen', 'Steven'],
+    ['Jhon', 'John'],
+    ['Mohammed', 'Muhammad'],
+    ['Geoffrey', 'Jeffrey'],
+    ['Philip', 'Filip'],
+    ['Knight', 'Night'],
+  ])('%s sounds like %s', (a, b) => {
+    expect(phoneticCodes(a)[0]).toBe(phoneticCodes(b)[0]);
+  });
+
+  it('gives an alternate code for spellings said two ways', () => {
+    expect(phoneticCodes('Christine')).toEqual(['XRSTN', 'KRSTN']);
+    expect(phoneticCodes('Jose')).toEqual(['JS', 'HS']);
+  });
+});
+
+describe('nameScore', () => {
+  it.each([
+    // stored, claimed, outcome
+    ['Catherine Smith', 'Kathryn Smith', 'accept'],
+    ['Catherine', 'Kathryn', 'accept'],
+    ['Catherine Smith', 'Kathrine Smith', 'accept'],
+    ['Robert Jones', 'Bob Jones', 'accept'],
+    ['Elizabeth Taylor', 'Liz Taylor', 'accept'],
+    ['Michael Brown', 'Mike Browne', 'accept'],
+    ['Steven Lee', 'Stephen Lee', 'accept'],
+    ['John Smith', 'Jhon Smith', 'accept'],
+    ['José García', 'Jose Garcia', 'accept'],
+    ['Mohammed Ali', 'Muhammad Ali', 'review'],
+    ['John Smith', 'John', 'accept'],
+    // A surname alone could be anyone in the household
+    ['John Smith', 'Smith', 'review'],
+    ['John Smith', 'Smyth', 'review'],
+    ['Joan Smith', 'Jon Smith', 'review'],
+    ['Kristen Bell', 'Kirsten Bell', 'review'],
+    // A first name alone has to be spelled the same, or be a nickname
+    ['Catherine', 'Kathrine', 'review'],
+    ['Joan', 'Jon', 'review'],
+    ['Sean Park', 'Shawn Park', 'reject'],
+    ['John Smith', 'John Doe', 'reject'],
+    ['Alice Wong', 'Bob Wong', 'reject'],
+    ['Maria Lopez', 'Kevin', 'reject'],
+  ])('%s / %s -> %s', (stored, claimed, outcome) => {
+    expect(matchOutcome(nameScore(stored, claimed), thresholds)).toBe(outcome);
+  });
+
+  it('ranks a nickname above a sound-alike', () => {
+    expect(nameScore('Robert', 'Bob')).toBeGreaterThan(nameScore('Joan', 'Jon'));
+  });
+});
+
+describe('unitScore', () => {
+  it.each([
+    ['4B', '4b', 1],
+    ['4B', '4 B', 1],
+    ['4B', '4D', 0.8],
+    ['4B', '4', 0.8],
+    ['4B', '14B', 0.5],
+    ['4B', '12C', 0],
+    ['4B', '', 0],
+  ])('%s / %s -> %s', (stored, claimed, score) => {
+    expect(unitScore(stored, claimed)).toBe(score);
+  });
+
+  it('matches keyed digits only exactly', () => {
+    expect(unitScore('4B', '4', { keypad: true })).toBe(1);
+    expect(unitScore('4B', '5', { keypad: true })).toBe(0);
+  });
+});
+
+describe('scoreCallerMatch', () => {
+  const tenant = { name: 'John Smith', unitNumber: '4B' };
+
+  it.each([
+    ['John Smith', '4B', 'accept'],
+    ['Johnny Smith', '4B', 'accept'],
+    ['John Smith', '4D', 'review'],
+    ['John Smith', '14B', 'reject'],
+    ['John Smith', '7A', 'reject'],
+    ['Joan Smith', '4B', 'review'],
+    ['Joan Smith', '14B', 'reject'],
+  ])('%s in %s -> %s', (name, unit, outcome) => {
+    expect(matchOutcome(scoreCallerMatch(tenant, { name, unit }), thresholds)).toBe(outcome);
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Caller Verification - Name Matching
+ *
+ * Scores how likely a caller is a tenant on file, from the name and unit
+ * they gave. Each part of the name scores on:
+ * - spelling: the same name, or a nickname for it (Bob/Robert)
+ * - sound: the same phonetic code (Catherine/Kathrine), scaled by how close
+ *   the names are once vowels count too - so Jon is not taken for Joan
+ * - edit distance, for anything else the transcriber got slightly wrong
+ * The unit scales the score: a unit a letter off ("4D" for "4B") is likely
+ * misheard, so it can be reviewed but is never accepted.
+ *
+ * Environment:
+ * - VERIFICATION_ACCEPT_THRESHOLD: score at or above which the caller is verified (default 0.85)
+ * - VERIFICATION_REVIEW_THRESHOLD: score at or above which the closest tenant is saved
+ *   with the unverified request for the property manager to check (default 0.7)
+ */
+
+import { levenshteinDistance, normalizeUnit, keypadUnitMatch } from './fuzzy-match.js';
+import { NICKNAME_GROUPS } from './nicknames.js';
+import { MatchOutcome } from './types.js';
+
+export const DEFAULT_ACCEPT_THRESHOLD = 0.85;
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+const NICKNAME_SCORE = 0.95;
+// A phonetic match scores at least this, the rest by how close the names sound
+const PHONETIC_BASE = 0.3;
+// Names that sound different only score on spelling, and never high
+const SPELLING_WEIGHT = 0.7;
+// Only a first name to go on
+const ONE_NAME_WEIGHT = 0.9;
+// Only a surname - the whole household shares it, so it's never enough to
+// verify on its own (under the default thresholds it's kept for review)
+const SURNAME_ONLY_WEIGHT = 0.8;
+// Same unit number with one letter off or missing ("4D" or "4" for "4B")
+const NEAR_UNIT_SCORE = 0.8;
+// One digit off ("14B" for "4B")
+const DIGIT_OFF_UNIT_SCORE = 0.5;
+
+const isVowel = (letter: string) => letter !== '' && 'aeiouy'.includes(letter);
+// Letters that soften a C or G before them: Cindy, Gene
+const isSoftening = (letter: string) => letter !== '' && 'eiy'.includes(letter);
+
+let nicknameIndex: Map<string, Set<number>> | null = null;
+
+function getThreshold(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : fallback;
+}
+
+export function getMatchThresholds(): { accept: number; review: number } {
+  const accept = getThreshold('VERIFICATION_ACCEPT_THRESHOLD', DEFAULT_ACCEPT_THRESHOLD);
+  const review = getThreshold('VERIFICATION_REVIEW_THRESHOLD', DEFAULT_REVIEW_THRESHOLD);
+  return { accept, review: Math.min(review, accept) };
+}
+
+/**
+ * Lowercase a-z only - accents and punctuation dropped
+ */
+function plainLetters(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+function nameParts(name: string): string[] {
+  return name.split(/[\s-]+/).map(plainLetters).filter(Boolean);
+}
+
+/**
+ * Phonetic codes for a name, Double Metaphone style: consonant sounds only,
+ * with an alternate code where a spelling can be said two ways ("Ch" in
+ * Charles and Christine, the Spanish "J" in Jose).
+ */
+export function phoneticCodes(name: string): [string, string] {
+  const word = plainLetters(name);
+  let primary = '';
+  let alternate = '';
+  const add = (sound: string, alternateSound = sound) => {
+    primary += sound;
+    alternate += alternateSound;
+  };
+
+  let i = 0;
+  // Silent first letters: Knight, Gnome, Wright, Psmith
+  if (/^(kn|gn|pn|wr|ps)/.test(word)) i = 1;
+  else if (word.startsWith('x')) {
+    add('S');
+    i = 1;
+  } else if (word.startsWith('wh')) {
+    add('W');
+    i = 2;
+  }
+
+  for (; i < word.length; i++) {
+    const c = word[i];
+    const prev = word[i - 1] || '';
+    const next = word[i + 1] || '';
+    const after = word[i + 2] || '';
+    if (c === prev) continue;
+
+    switch (c) {
+      case 'a':
+      case 'e':
+      case 'i':
+      case 'o':
+      case 'u':
+        if (i === 0) add('A');
+        break;
+      case 'y':
+        if (isVowel(next)) add('Y');
+        else if (i === 0) add('A');
+        break;
+      case 'b':
+        // Silent in a final "mb": Lamb
+        if (!(prev === 'm' && i === word.length - 1)) add('P');
+        break;
+      case 'c':
+        if (next === 'h') {
+          add('X', 'K');
+          i++;
+        } else if (isSoftening(next)) add('S');
+        else if (next === 'k' || next === 'q') {
+          add('K');
+          i++;
+        } else add('K');
+        break;
+      case 'd':
+        if (next === 'g' && isSoftening(after)) {
+          add('J');
+          i++;
+        } else add('T');
+        break;
+      case 'g':
+        if (next === 'h') {
+          // Said before a vowel (Ghana), silent otherwise (Hugh, Leigh)
+          if (i === 0 || isVowel(after)) add('K');
+          i++;
+        } else if (next === 'n' && i + 2 === word.length) {
+          // Silent in a final "gn"
+        } else if (isSoftening(next)) add('J', 'K');
+        else add('K');
+        break;
+      case 'h':
+        // Only said at the start or between vowels (Mohammed); "Jhon" is John
+        if ((i === 0 || isVowel(prev)) && isVowel(next)) add('H');
+        break;
+      case 'j':
+        add('J', i === 0 && /^j(ose|uan|orge|esus|avier|oaquin)/.test(word) ? 'H' : 'J');
+        break;
+      case 'k':
+        if (prev !== 'c') add('K');
+        break;
+      case 'p':
+        if (next === 'h') {
+          add('F');
+          i++;
+        } else add('P');
+        break;
+      case 'q':
+        add('K');
+        break;
+      case 's':
+        if (next === 'h') {
+          add('X');
+          i++;
+        } else if (next === 'c' && after === 'h') {
+          add('SK');
+          i += 2;
+        } else if (next === 'i' && (after === 'o' || after === 'a')) add('X');
+        else add('S');
+        break;
+      case 't':
+        if (next === 'h') {
+          add('0', 'T');
+          i++;
+        } else if (next === 'i' && (after === 'o' || after === 'a')) add('X');
+        else if (!(next === 'c' && after === 'h')) add('T');
+        break;
+      case 'v':
+        add('F');
+        break;
+      case 'w':
+        if (isVowel(next)) add('W');
+        break;
+      case 'x':
+        add('KS');
+        break;
+      case 'z':
+        add('S');
+        break;
+      default:
+        add(c.toUpperCase());
+    }
+  }
+
+  const collapse = (code: string) => code.replace(/(.)\1+/g, '$1');
+  return [collapse(primary), collapse(alternate)];
+}
+
+/**
+ * The name as it sounds, vowels included: Catherine is "katherin", Kathryn
+ * "kathrin", Jon "jon" and Joan "joan"
+ */
+function soundSpelling(name: string): string {
+  return plainLetters(name)
+    .replace(/ph/g, 'f')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/ck|c|q/g, 'k')
+    .replace(/(?<=.)y/g, 'i')
+    .replace(/(?<=[^cstg])h/g, '')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(?<=..)e$/, '');
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length > 0 ? 1 - levenshteinDistance(a, b) / length : 0;
+}
+
+function phoneticMatch(a: string, b: string): boolean {
+  const [primaryA, alternateA] = phoneticCodes(a);
+  const [primaryB, alternateB] = phoneticCodes(b);
+  if (!primaryA || !primaryB) return false;
+  return primaryA === primaryB || primaryA === alternateB || alternateA === primaryB || alternateA === alternateB;
+}
+
+/**
+ * Whether two names are nicknames or spellings of the same name
+ */
+export function sameNickname(a: string, b: string): boolean {
+  if (!nicknameIndex) {
+    nicknameIndex = new Map();
+    NICKNAME_GROUPS.forEach((group, i) => {
+      for (const name of group) {
+        if (!nicknameIndex!.has(name)) nicknameIndex!.set(name, new Set());
+        nicknameIndex!.get(name)!.add(i);
+      }
+    });
+  }
+  const groups = nicknameIndex.get(plainLetters(a));
+  const other = nicknameIndex.get(plainLetters(b));
+  return !!groups && !!other && [...groups].some((group) => other.has(group));
+}
+
+/**
+ * 0-1: how likely two single names (a first name or a surname) are the same
+ */
+export function namePartScore(stored: string, claimed: string): number {
+  const a = plainLetters(stored);
+  const b = plainLetters(claimed);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (sameNickname(a, b)) return NICKNAME_SCORE;
+
+  const sound = similarity(soundSpelling(a), soundSpelling(b));
+  if (phoneticMatch(a, b)) return PHONETIC_BASE + (1 - PHONETIC_BASE) * sound;
+  return SPELLING_WEIGHT * Math.max(sound, similarity(a, b));
+}
+
+/**
+ * 0-1: how likely the name a caller gave is the tenant's. With first name
+ * and surname on both sides both have to match - Joan Smith is not John
+ * Smith, who may well live in the same unit. A single name is matched
+ * against either and weighs less, a lone surname most of all.
+ */
+export function nameScore(storedName: string, claimedName: string): number {
+  const stored = nameParts(storedName);
+  const claimed = nameParts(claimedName);
+  if (stored.length === 0 || claimed.length === 0) return 0;
+
+  const first = namePartScore(stored[0], claimed[0]);
+  if (stored.length > 1 && claimed.length > 1) {
+    return first * namePartScore(stored[stored.length - 1], claimed[claimed.length - 1]);
+  }
+
+  // "It's Smith" - a lone name may be the surname
+  const surname = stored.length > 1 ? namePartScore(stored[stored.length - 1], claimed[0]) : 0;
+  return Math.max(ONE_NAME_WEIGHT * first, SURNAME_ONLY_WEIGHT * surname);
+}
+
+/**
+ * 0-1: how close the unit a caller gave is to the tenant's. Keyed units
+ * are digits only and must match exactly.
+ */
+export function unitScore(storedUnit: string, claimedUnit: string, options: { keypad?: boolean } = {}): number {
+  if (options.keypad) return keypadUnitMatch(storedUnit, claimedUnit) ? 1 : 0;
+
+  const stored = normalizeUnit(storedUnit);
+  const claimed = normalizeUnit(claimedUnit);
+  if (!stored || !claimed) return 0;
+  if (stored === claimed) return 1;
+  if (levenshteinDistance(stored, claimed) !== 1) return 0;
+
+  const digits = (unit: string) => unit.replace(/[^0-9]/g, '');
+  return digits(stored) === digits(claimed) ? NEAR_UNIT_SCORE : DIGIT_OFF_UNIT_SCORE;
+}
+
+/**
+ * 0-1: how likely the caller is this tenant
+ */
+export function scoreCallerMatch(
+  tenant: { name: string; unitNumber: string },
+  claimed: { name: string; unit: string },
+  options: { keypad?: boolean } = {}
+): number {
+  return nameScore(tenant.name, claimed.name) * unitScore(tenant.unitNumber, claimed.unit, options);
+}
+
+/**
+ * What a score means: verify the caller, save the tenant for the PM to
+ * check, or no match
+ */
+export function matchOutcome(score: number, thresholds = getMatchThresholds()): MatchOutcome {
+  if (score >= thresholds.accept) return 'accept';
+  if (score >= thresholds.review) return 'review';
+  return 'reject';
+}
+
+/**
+ * Whether a name matches well enough to accept on its own
+ */
+export function fuzzyNameMatch(storedName: string, claimedName: string): boolean {
+  return nameScore(storedName, claimedName) >= getMatchThresholds().accept;
+}
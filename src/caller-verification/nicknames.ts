@@ -0,0 +1,76 @@
+/**
+ * Caller Verification - Nicknames
+ *
+ * Names that are the same person: each group is a name with its common
+ * nicknames and spellings. A name can be in more than one group ("Jon" is
+ * short for John and for Jonathan).
+ */
+
+export const NICKNAME_GROUPS: string[][] = [
+  ['abigail', 'abby', 'abbie', 'gail'],
+  ['alexander', 'alex', 'al', 'xander', 'sasha'],
+  ['alexandra', 'alex', 'alexa', 'lexi', 'sandra', 'sasha'],
+  ['alejandro', 'alex', 'ale'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony', 'antonio'],
+  ['barbara', 'barb', 'babs', 'barbie'],
+  ['benjamin', 'ben', 'benny', 'benji'],
+  ['catherine', 'katherine', 'kathryn', 'katharine', 'kate', 'katie', 'kathy', 'cathy', 'kat', 'kay', 'kitty'],
+  ['charles', 'charlie', 'chuck', 'chas', 'chaz', 'carlos'],
+  ['christopher', 'chris', 'topher', 'kit'],
+  ['christina', 'christine', 'kristina', 'kristine', 'chris', 'tina', 'chrissy', 'kristy'],
+  ['cynthia', 'cindy'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['deborah', 'debra', 'deb', 'debbie'],
+  ['donald', 'don', 'donnie'],
+  ['dorothy', 'dot', 'dottie', 'dora'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['eleanor', 'ellie', 'nora', 'elle'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'betsy', 'eliza', 'libby', 'lisa', 'elisa'],
+  ['francis', 'frances', 'frank', 'fran', 'frannie', 'francisco', 'paco', 'pancho'],
+  ['franklin', 'frank'],
+  ['gabriel', 'gabe'],
+  ['gabriela', 'gabrielle', 'gabby'],
+  ['gerald', 'gerry', 'jerry'],
+  ['gregory', 'greg'],
+  ['guadalupe', 'lupe'],
+  ['isabel', 'isabella', 'isabelle', 'izzy', 'bella'],
+  ['jacqueline', 'jackie'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jeffrey', 'geoffrey', 'jeff', 'geoff'],
+  ['jessica', 'jess', 'jessie'],
+  ['john', 'jon', 'johnny', 'jack', 'juan'],
+  ['jonathan', 'jon', 'jonny', 'nathan'],
+  ['joseph', 'joe', 'joey', 'jose', 'pepe'],
+  ['josephine', 'jo', 'josie'],
+  ['judith', 'judy'],
+  ['kenneth', 'ken', 'kenny'],
+  ['kimberly', 'kim'],
+  ['lawrence', 'laurence', 'larry', 'laurie'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'margie', 'greta'],
+  ['matthew', 'matt', 'matty'],
+  ['michael', 'mike', 'mikey', 'mick', 'mickey', 'miguel'],
+  ['nicholas', 'nick', 'nicky', 'nico'],
+  ['pamela', 'pam'],
+  ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete', 'pedro'],
+  ['raymond', 'ray'],
+  ['rebecca', 'becky', 'becca'],
+  ['richard', 'rick', 'ricky', 'rich', 'richie', 'dick', 'ricardo'],
+  ['robert', 'bob', 'bobby', 'rob', 'robbie', 'bert', 'roberto', 'beto'],
+  ['ronald', 'ron', 'ronnie'],
+  ['samantha', 'sam', 'sammy'],
+  ['samuel', 'sam', 'sammy'],
+  ['sandra', 'sandy'],
+  ['stephen', 'steven', 'steve', 'stevie', 'esteban'],
+  ['susan', 'sue', 'susie', 'suzanne'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['thomas', 'tom', 'tommy', 'tomas'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'vicki', 'tori'],
+  ['william', 'will', 'bill', 'billy', 'willie', 'liam', 'guillermo'],
+  ['zachary', 'zach', 'zack'],
+];
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSpokenForm } from './spoken-form.js';
+import { parseClaimedIdentity } from './fuzzy-match.js';
+
+describe('normalizeSpokenForm', () => {
+  describe('number words', () => {
+    it.each([
+      ['zero', '0'],
+      ['seven', '7'],
+      ['twelve', '12'],
+      ['forty', '40'],
+      ['forty two', '42'],
+      ['forty-two', '42'],
+      ['one two three', '123'],
+      ['twelve oh three', '1203'],
+      ['twelve o three', '1203'],
+      ['four oh two', '402'],
+      ['four oh', '40'],
+      ['four twenty one', '421'],
+      ['nineteen twelve', '1912'],
+      ['one twenty', '120'],
+      ['three hundred', '300'],
+      ['three hundred four', '304'],
+      ['four hundred and two', '402'],
+      ['nineteen hundred', '1900'],
+      ['two thousand', '2000'],
+      ['two thousand five', '2005'],
+      ['two thousand three hundred', '2300'],
+      ['unit 12 oh 3', 'unit 1203'],
+      ['Twelve', '12'],
+      ['I have one question', 'I have 1 question'],
+    ])('%s -> %s', (spoken, written) => {
+      expect(normalizeSpokenForm(spoken)).toBe(written);
+    });
+  });
+
+  describe('unit letters', () => {
+    it.each([
+      ['unit four bee', 'unit 4B'],
+      ['unit four B', 'unit 4B'],
+      ['unit 4 B', 'unit 4B'],
+      ["I'm in unit 4 B.", "I'm in unit 4B."],
+      ['unit 4 a', 'unit 4A'],
+      ['apt. 3 a', 'apt. 3A'],
+      ['# 5 c', '# 5C'],
+      ['unit twelve dee', 'unit 12D'],
+      ['unit four see.', 'unit 4C.'],
+      ['unit four you', 'unit 4U'],
+      ['unit 4 Bravo', 'unit 4B'],
+      ['unit 4 charlie', 'unit 4C'],
+      ['unit twenty-two x-ray', 'unit 22X'],
+      ['apartment 3 C as in cat', 'apartment 3C'],
+      ['apartment number 3 C as in cat', 'apartment 3C'],
+      ['apartment number twelve', 'apartment 12'],
+      ['unit no. 7', 'unit 7'],
+      ['unit 3 bee as in boy', 'unit 3B'],
+      ['unit 3 D for David', 'unit 3D'],
+      // The example word wins over a misheard letter
+      ['unit 3 bee as in David', 'unit 3D'],
+      // ...but a letter that is also a word needs the example to agree
+      ['unit 3 be as in boy', 'unit 3B'],
+    ])('%s -> %s', (spoken, written) => {
+      expect(normalizeSpokenForm(spoken)).toBe(written);
+    });
+  });
+
+  describe('spelled-out names', () => {
+    it.each([
+      ['S-M-I-T-H', 'Smith'],
+      ['s-m-i-t-h', 'Smith'],
+      ['S M I T H', 'Smith'],
+      ['S, M, I, T, H', 'Smith'],
+      ['J. O. N. E. S.', 'Jones.'],
+      ['J-O', 'Jo'],
+      ['my name is J O H N', 'my name is John'],
+      ['Smith, S-M-I-T-H', 'Smith, Smith'],
+      ['S as in Sam, M as in Mary, I, T, H', 'Smith'],
+      ['D as in David, E, E', 'Dee'],
+      ['K as in kilo, I as in India, M as in Mike', 'Kim'],
+      ['S C O double T', 'Scott'],
+      ['H O double-u E', 'Howe'],
+      ['L O double you E', 'Lowe'],
+      ['Papa Alpha November', 'Pan'],
+      ['M U double L E R', 'Muller'],
+    ])('%s -> %s', (spoken, written) => {
+      expect(normalizeSpokenForm(spoken)).toBe(written);
+    });
+  });
+
+  describe('ordinal floors', () => {
+    it.each([
+      ['first floor', '1st floor'],
+      ['second floor', '2nd floor'],
+      ['third floor', '3rd floor'],
+      ['the fourth floor', 'the 4th floor'],
+      ['eleventh floor', '11th floor'],
+      ['twelfth floor', '12th floor'],
+      ['twentieth floor', '20th floor'],
+      ['twenty first floor', '21st floor'],
+      ['twenty-first floor', '21st floor'],
+      ['thirty third floor', '33rd floor'],
+    ])('%s -> %s', (spoken, written) => {
+      expect(normalizeSpokenForm(spoken)).toBe(written);
+    });
+  });
+
+  describe('left alone', () => {
+    it.each([
+      'my name is Charlie',
+      'This is Mike',
+      'I see you',
+      'I like apples',
+      'They are as in the lease',
+      'my first name is Ann',
+      'it is 4 5',
+      'I live in 4 a house',
+      'Oh, the sink is leaking',
+      'X-ray',
+      'Sí, soy Juan',
+      'the water heater is broken',
+      '',
+    ])('%s', (text) => {
+      expect(normalizeSpokenForm(text)).toBe(text);
+    });
+  });
+});
+
+describe('parseClaimedIdentity with spoken forms', () => {
+  it.each([
+    ['My name is Sarah, unit four bee', 'Sarah', '4B'],
+    ['my name is J O N E S', 'Jones', null],
+    ['my name is S-M-I-T-H', 'Smith', null],
+    ['unit twelve oh three', null, '1203'],
+    ['apartment number 3 C as in cat', null, '3C'],
+    ['I live in apartment four oh.', null, '40'],
+    ['unit 4 Bravo please', null, '4B'],
+    ['My name is John Smith, unit 4B', 'John Smith', '4B'],
+  ])('%s', (transcript, name, unit) => {
+    expect(parseClaimedIdentity(transcript)).toEqual({ name, unit });
+  });
+});
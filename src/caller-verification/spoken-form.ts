@@ -0,0 +1,517 @@
+/**
+ * Spoken-Form Normalization
+ *
+ * Transcripts spell things the way people say them: "unit four bee",
+ * "twelve oh three", "apartment number 3 C as in cat", "S-M-I-T-H". This
+ * rewrites them into the written form the identity parser expects
+ * ("unit 4B", "1203", "apartment 3C", "Smith") before anything is matched.
+ *
+ * Only rewrites that are safe out of context are made: letter names and
+ * NATO words become letters after a number or inside a spelled-out run,
+ * never on their own ("Charlie" stays a name, "I see" stays a verb).
+ */
+
+interface Token {
+  text: string;
+  // Punctuation around the word, kept when the text is rewritten
+  lead: string;
+  trail: string;
+  // A letter the caller spelled out ("C as in cat") - always a letter
+  letter?: boolean;
+  // Part of a hyphenated spelling ("S-M-I-T-H")
+  spelled?: boolean;
+  number?: boolean;
+}
+
+const ONES: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+  twentieth: 20,
+  thirtieth: 30,
+  fortieth: 40,
+  fiftieth: 50,
+};
+
+// Said for 0 after another digit ("twelve oh three", "four oh")
+const ZERO_WORDS = ['zero', 'oh', 'o'];
+
+// Letter names that are never anything else
+const LETTER_NAMES: Record<string, string> = {
+  bee: 'b',
+  cee: 'c',
+  dee: 'd',
+  ee: 'e',
+  ef: 'f',
+  eff: 'f',
+  gee: 'g',
+  aitch: 'h',
+  haitch: 'h',
+  jay: 'j',
+  kay: 'k',
+  el: 'l',
+  ell: 'l',
+  em: 'm',
+  en: 'n',
+  pee: 'p',
+  cue: 'q',
+  ar: 'r',
+  ess: 's',
+  tee: 't',
+  vee: 'v',
+  'double-u': 'w',
+  'double-you': 'w',
+  wye: 'y',
+  zee: 'z',
+  zed: 'z',
+};
+
+// Letter names that are also everyday words - only read as letters at the
+// end of a phrase ("unit four see." but not "four see if")
+const AMBIGUOUS_LETTER_NAMES: Record<string, string> = {
+  ay: 'a',
+  eh: 'a',
+  be: 'b',
+  see: 'c',
+  sea: 'c',
+  eye: 'i',
+  queue: 'q',
+  are: 'r',
+  tea: 't',
+  you: 'u',
+  ex: 'x',
+  why: 'y',
+};
+
+const NATO: Record<string, string> = {
+  alpha: 'a',
+  alfa: 'a',
+  bravo: 'b',
+  charlie: 'c',
+  delta: 'd',
+  echo: 'e',
+  foxtrot: 'f',
+  golf: 'g',
+  hotel: 'h',
+  india: 'i',
+  juliet: 'j',
+  juliett: 'j',
+  kilo: 'k',
+  lima: 'l',
+  mike: 'm',
+  november: 'n',
+  oscar: 'o',
+  papa: 'p',
+  quebec: 'q',
+  romeo: 'r',
+  sierra: 's',
+  tango: 't',
+  uniform: 'u',
+  victor: 'v',
+  whiskey: 'w',
+  whisky: 'w',
+  'x-ray': 'x',
+  xray: 'x',
+  yankee: 'y',
+  zulu: 'z',
+};
+
+// Words a unit number follows, besides "#". A letter after the number there is part of it ("unit 4 a").
+const UNIT_WORDS = ['unit', 'apartment', 'apt', 'suite'];
+// Dropped after a unit word: "apartment number 3" is "apartment 3"
+const NUMBER_FILLERS = ['number', 'no', 'num'];
+
+// "C as in cat", "B for boy", "M like Mary"
+const SPELLING_LINKS: string[][] = [['as', 'in'], ['like'], ['for']];
+
+function lower(token: Token | undefined): string {
+  return token ? token.text.toLowerCase() : '';
+}
+
+function isNumberWord(word: string): boolean {
+  return word in ONES || word in TEENS || word in TENS || word === 'zero' || word === 'hundred' || word === 'thousand';
+}
+
+function isDigits(word: string): boolean {
+  return /^\d+$/.test(word);
+}
+
+function isSingleLetter(word: string): boolean {
+  return /^[a-z]$/i.test(word);
+}
+
+// A letter name or NATO word, read as a letter
+function spokenLetter(word: string): string | null {
+  return LETTER_NAMES[word] || NATO[word] || null;
+}
+
+/**
+ * Split a transcript into words, keeping the punctuation around each.
+ * Hyphenated spellings ("S-M-I-T-H") and numbers ("twenty-one") are split up.
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const raw of text.split(/\s+/)) {
+    const match = raw.match(/^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u);
+    if (!match || !match[2]) {
+      if (raw) tokens.push({ text: '', lead: raw, trail: '' });
+      continue;
+    }
+    const [, lead, word, trail] = match;
+    const parts = word.split('-');
+    const spelled = parts.length > 1 && parts.every(isSingleLetter);
+    const numberParts = parts.length > 1 && parts.every((part) => isNumberWord(part.toLowerCase()) || part.toLowerCase() in ORDINALS);
+
+    if (spelled || numberParts) {
+      parts.forEach((part, i) =>
+        tokens.push({
+          text: part,
+          lead: i === 0 ? lead : '',
+          trail: i === parts.length - 1 ? trail : '',
+          ...(spelled && { spelled: true }),
+        })
+      );
+    } else {
+      tokens.push({ text: word, lead, trail });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * "C as in cat" -> C. The example word wins when the two disagree - it's
+ * the part the transcriber is least likely to get wrong.
+ */
+function resolveSpellingLinks(tokens: Token[]): Token[] {
+  const out: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const word = lower(token);
+    const letter = isSingleLetter(word) ? word : spokenLetter(word) || AMBIGUOUS_LETTER_NAMES[word];
+    const link = letter && !token.trail ? SPELLING_LINKS.find((l) => l.every((w, j) => lower(tokens[i + 1 + j]) === w)) : undefined;
+    const example = link && tokens[i + 1 + link.length];
+    const initial = example && /^[a-z]/i.test(example.text) ? example.text[0].toLowerCase() : null;
+
+    // Letters that are also ordinary words ("I", "are") need the example to agree,
+    // and only "as in" follows them - "I like" and "a for" are ordinary speech
+    const ordinary = word === 'a' || word === 'i' || word in AMBIGUOUS_LETTER_NAMES;
+    const linked =
+      link &&
+      !tokens.slice(i + 1, i + 1 + link.length).some((t) => t.trail) &&
+      (link[0] === 'as' ? !ordinary || initial === letter : isSingleLetter(word) && !ordinary);
+
+    if (example && initial && linked) {
+      out.push({ text: initial, lead: token.lead, trail: example.trail, letter: true });
+      i += link.length + 1;
+      continue;
+    }
+    out.push(token);
+  }
+  return out;
+}
+
+/**
+ * Read a number below a hundred: "seven", "twelve", "forty", "forty two"
+ */
+function readBelowHundred(words: string[], i: number): [number, number] | null {
+  const word = words[i];
+  if (word in TEENS) return [TEENS[word], i + 1];
+  if (word in ONES) return [ONES[word], i + 1];
+  if (/^\d{1,2}$/.test(word)) return [Number(word), i + 1];
+  if (word in TENS) {
+    const next = words[i + 1];
+    if (next in ONES) return [TENS[word] + ONES[next], i + 2];
+    if (/^[1-9]$/.test(next)) return [TENS[word] + Number(next), i + 2];
+    return [TENS[word], i + 1];
+  }
+  return null;
+}
+
+/**
+ * Read one number phrase: "three hundred and four", "two thousand five"
+ */
+function readPhrase(words: string[], i: number): [number, number] {
+  let [value, next] = readBelowHundred(words, i) ?? [1, i];
+  if (words[next] === 'hundred') {
+    value *= 100;
+    next++;
+    if (words[next] === 'and') next++;
+    const rest = readBelowHundred(words, next);
+    if (rest) [value, next] = [value + rest[0], rest[1]];
+  }
+  if (words[next] === 'thousand') {
+    value *= 1000;
+    next++;
+    if (words[next] === 'and') next++;
+    if (readBelowHundred(words, next)) {
+      const [rest, after] = readPhrase(words, next);
+      [value, next] = [value + rest, after];
+    }
+  }
+  // A bare "hundred" or "thousand" that didn't follow a number
+  if (next === i) next++;
+  return [value, next];
+}
+
+/**
+ * Digits for a run of number words. Phrases said one after another are
+ * written one after another, which is how unit numbers are read out:
+ * "twelve oh three" is 1203, "four twenty one" is 421.
+ */
+function readNumberRun(words: string[]): string {
+  let digits = '';
+  let i = 0;
+  while (i < words.length) {
+    const word = words[i];
+    if (ZERO_WORDS.includes(word)) {
+      digits += '0';
+      i++;
+    } else if (isDigits(word) && word.length > 2) {
+      digits += word;
+      i++;
+    } else {
+      const [value, next] = readPhrase(words, i);
+      digits += String(value);
+      i = next;
+    }
+  }
+  return digits;
+}
+
+const ORDINAL_SUFFIXES: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+
+function ordinalSuffix(n: number): string {
+  if (n % 100 >= 11 && n % 100 <= 13) return 'th';
+  return ORDINAL_SUFFIXES[n % 10] || 'th';
+}
+
+/**
+ * Number words to digits, and ordinal floors ("third floor") to "3rd floor"
+ */
+function convertNumbers(tokens: Token[]): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const word = lower(tokens[i]);
+
+    // "twenty first floor"
+    const floorAt = word in TENS && lower(tokens[i + 1]) in ORDINALS ? i + 2 : i + 1;
+    if ((word in ORDINALS || floorAt === i + 2) && /^floors?$/.test(lower(tokens[floorAt]))) {
+      const tens = floorAt === i + 2 ? TENS[word] : 0;
+      const last = tokens[floorAt - 1];
+      const n = tens + ORDINALS[lower(last)];
+      out.push({ text: `${n}${ordinalSuffix(n)}`, lead: tokens[i].lead, trail: last.trail });
+      i = floorAt;
+      continue;
+    }
+
+    // Collect a run of number words, with digits and "oh" in between
+    const run: Token[] = [];
+    let j = i;
+    while (j < tokens.length) {
+      const w = lower(tokens[j]);
+      const next = lower(tokens[j + 1]);
+      const prev = run[run.length - 1];
+      const continues = !prev || !prev.trail;
+      const nextIsNumber = isNumberWord(next) || isDigits(next);
+      const ok =
+        continues &&
+        (isNumberWord(w) ||
+          isDigits(w) ||
+          (run.length > 0 && (w === 'oh' || w === 'o') && (nextIsNumber || !!tokens[j].trail || j === tokens.length - 1)) ||
+          (w === 'and' && /^(hundred|thousand)$/.test(lower(prev)) && isNumberWord(next)));
+      if (!ok) break;
+      run.push(tokens[j]);
+      j++;
+    }
+
+    // Only runs with a spoken number in them are rewritten - "4 5" stays as it is
+    if (run.some((t) => !isDigits(t.text))) {
+      out.push({
+        text: readNumberRun(run.map((t) => t.text.toLowerCase())),
+        lead: run[0].lead,
+        trail: run[run.length - 1].trail,
+        number: true,
+      });
+      i = j;
+    } else if (run.length > 0) {
+      out.push(...run.map((t) => ({ ...t, number: true })));
+      i = j;
+    } else {
+      out.push(tokens[i]);
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * The letters in a spelled-out run starting at i, or null if the word
+ * there isn't a spelled letter. "double T" is two letters.
+ */
+function readSpelledLetters(tokens: Token[], i: number): [string, number] | null {
+  const token = tokens[i];
+  if (!token) return null;
+  const word = lower(token);
+  if (token.letter || isSingleLetter(word)) return [word, 1];
+  if (word in NATO) return [NATO[word], 1];
+  if (word === 'double-u' || word === 'double-you') return ['w', 1];
+  if (word === 'double' && !token.trail && tokens[i + 1]) {
+    const next = lower(tokens[i + 1]);
+    if (next === 'u' || next === 'you') return ['w', 2];
+    const letter = isSingleLetter(next) ? next : NATO[next];
+    if (letter) return [letter + letter, 2];
+  }
+  return null;
+}
+
+/**
+ * Join spelled-out letters into a word: "S-M-I-T-H", "J O N E S",
+ * "S as in Sam, M as in Mary, ..." -> "Smith". Three letters or more, so
+ * "I a" isn't read as a spelling, unless the caller made it clear.
+ */
+function joinSpelledRuns(tokens: Token[]): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    let letters = '';
+    let clear = false;
+    let j = i;
+    for (let read = readSpelledLetters(tokens, j); read; read = readSpelledLetters(tokens, j)) {
+      letters += read[0];
+      clear ||= !!tokens[j].letter || !!tokens[j].spelled;
+      j += read[1];
+      // A full stop ends the spelling, unless it's after a single letter ("J. O. N. E. S.")
+      if (/[!?]/.test(tokens[j - 1].trail) || (tokens[j - 1].trail.includes('.') && read[1] > 1)) break;
+    }
+
+    if (letters.length >= 3 || (letters.length >= 2 && clear)) {
+      out.push({
+        text: letters[0].toUpperCase() + letters.slice(1),
+        lead: tokens[i].lead,
+        trail: tokens[j - 1].trail,
+      });
+      i = j;
+    } else {
+      out.push(tokens[i]);
+      i++;
+    }
+  }
+  return out;
+}
+
+/**
+ * The letter said right after a unit number, if there is one:
+ * "four bee", "4 bravo", "3 C as in cat", "unit 4 a"
+ */
+function unitLetter(tokens: Token[], i: number, afterUnitWord: boolean): string | null {
+  const token = tokens[i];
+  if (!token || token.number) return null;
+  const word = lower(token);
+  const endsPhrase = !!token.trail || i === tokens.length - 1;
+
+  if (token.letter) return word;
+  if (spokenLetter(word)) return spokenLetter(word);
+  if (word in AMBIGUOUS_LETTER_NAMES && endsPhrase) return AMBIGUOUS_LETTER_NAMES[word];
+  if (isSingleLetter(word)) {
+    // Transcribers capitalize a letter that was said as a letter; "I" and "A" are capitalized anyway
+    if (afterUnitWord || /[B-HJ-Z]/.test(token.text)) return word;
+  }
+  return null;
+}
+
+/**
+ * Attach a spoken letter to the unit number before it ("4 B" -> "4B"),
+ * and drop "number" after a unit word
+ */
+function joinUnitLetters(tokens: Token[]): Token[] {
+  const out: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const prev = out[out.length - 1];
+
+    if (NUMBER_FILLERS.includes(lower(token)) && prev && UNIT_WORDS.includes(lower(prev)) && !prev.trail) {
+      continue;
+    }
+
+    if (token.number && /^\d+$/.test(token.text) && !token.trail) {
+      const afterUnitWord = !!prev && (UNIT_WORDS.includes(lower(prev)) || prev.lead.endsWith('#'));
+      const letter = unitLetter(tokens, i + 1, afterUnitWord || token.lead.endsWith('#'));
+      if (letter) {
+        out.push({ ...token, text: token.text + letter.toUpperCase(), trail: tokens[i + 1].trail });
+        i++;
+        continue;
+      }
+    }
+    out.push(token);
+  }
+  return out;
+}
+
+/**
+ * Rewrite spoken names and unit numbers in a transcript into written form.
+ * Words that aren't a number, a spelling or a unit letter are left as they are.
+ */
+export function normalizeSpokenForm(text: string): string {
+  let tokens = tokenize(text.trim());
+  tokens = resolveSpellingLinks(tokens);
+  tokens = convertNumbers(tokens);
+  tokens = joinSpelledRuns(tokens);
+  tokens = joinUnitLetters(tokens);
+  return tokens
+    .map((token) => token.lead + token.text + token.trail)
+    .filter(Boolean)
+    .join(' ');
+}
@@ -14,12 +14,24 @@ export interface PropertyContextWithAddress extends PropertyContext {
   address?: string;
 }
 
+// accept: verified; review: the closest tenant is saved for the PM to check
+export type MatchOutcome = 'accept' | 'review' | 'reject';
+
+// The tenant a claimed name and unit scored closest to
+export interface TenantMatch {
+  tenantId: string;
+  score: number;
+  outcome: MatchOutcome;
+}
+
 export interface VerificationResult {
   verified: boolean;
   tenant: TenantContext | null;
   property: PropertyContextWithAddress | null;
   attempts: number;
   verificationMethod: 'phone_lookup' | 'name_unit_match' | 'unverified';
+  // Set by name/unit matching
+  match?: TenantMatch | null;
 }
 
 export interface ClaimedIdentity {
@@ -10,6 +10,8 @@
 import { config } from 'dotenv';
 import { createClient, LiveTranscriptionEvents } from '@deepgram/sdk';
 import { getCircuitBreaker, withRetry, costTracker } from './utils/index.js';
+import { SpeechToTextProvider, SpeechToTextOptions, VocabularyTerm } from './speech-to-text/types.js';
+import { vocabularyKeywords } from './speech-to-text/vocabulary.js';
 
 config();
 
@@ -17,16 +19,15 @@ function getDeepgramApiKey(): string {
   return process.env.DEEPGRAM_API_KEY || '';
 }
 
-export interface DeepgramSTT {
-  send: (audio: Buffer) => void;
-  close: () => void;
-}
+export type DeepgramSTT = SpeechToTextProvider;
 
-interface DeepgramConfig {
-  sessionId?: string;
-  onTranscript: (transcript: string, isFinal: boolean) => void;
-  onError: (error: Error) => void;
-}
+type DeepgramConfig = SpeechToTextOptions;
+
+const DEFAULT_MODEL = 'nova-2';
+const DEFAULT_LANGUAGE = 'en-US';
+
+// Deepgram recommends keeping boosted vocabularies short
+const MAX_VOCABULARY_TERMS = 100;
 
 // Circuit breaker for Deepgram
 const deepgramCircuit = getCircuitBreaker('deepgram', {
@@ -65,26 +66,30 @@ async function createDeepgramConnection(config: DeepgramConfig, sessionId: strin
   let connectionStartTime = Date.now();
   let connectionEstablished = false;
 
-  // Settings tuned for complete utterance capture - waits for user to fully finish
+  // Endpointing is kept short - the session's turn detector decides when the
+  // caller is actually done, using these VAD events plus dialog context
+  const model = config.model || DEFAULT_MODEL;
   const connection = deepgram.listen.live({
-    model: 'nova-2',
-    language: 'en-US',
+    model,
+    language: config.language || DEFAULT_LANGUAGE,
     smart_format: true,
     encoding: 'mulaw',
     sample_rate: 8000,
     channels: 1,
     interim_results: true,
-    utterance_end_ms: 3000,  // Wait 3 seconds of silence before ending utterance
+    utterance_end_ms: 1000,  // Minimum Deepgram allows - UtteranceEnd after 1s without words
     vad_events: true,
-    endpointing: 1500,       // 1.5 second patience - captures complete thoughts
+    endpointing: 300,        // Finalize segments quickly
     punctuate: true,         // Better sentence structure
     diarize: false,          // Single speaker
+    ...vocabularyOptions(model, config.vocabulary),
   });
 
   // Handle transcription results
   connection.on(LiveTranscriptionEvents.Transcript, (data) => {
     const transcript = data.channel?.alternatives?.[0]?.transcript || '';
     const isFinal = data.is_final || false;
+    const speechFinal = data.speech_final || false;
 
     // Track duration from metadata if available
     if (data.duration) {
@@ -92,10 +97,19 @@ async function createDeepgramConnection(config: DeepgramConfig, sessionId: strin
     }
 
     if (transcript) {
-      config.onTranscript(transcript, isFinal);
+      config.onTranscript(transcript, isFinal, speechFinal);
     }
   });
 
+  // VAD events for end-of-turn detection
+  connection.on(LiveTranscriptionEvents.SpeechStarted, () => {
+    config.onSpeechStarted?.();
+  });
+
+  connection.on(LiveTranscriptionEvents.UtteranceEnd, () => {
+    config.onUtteranceEnd?.();
+  });
+
   // Handle errors
   connection.on(LiveTranscriptionEvents.Error, (error) => {
     console.error(`[Deepgram:${sessionId.slice(0, 8)}] Error:`, error);
@@ -131,6 +145,7 @@ async function createDeepgramConnection(config: DeepgramConfig, sessionId: strin
   });
 
   return {
+    provider: 'deepgram',
     send: (audio: Buffer) => {
       if (connection.getReadyState() === 1) {
         // Convert Buffer to ArrayBuffer for Deepgram SDK
@@ -147,6 +162,22 @@ async function createDeepgramConnection(config: DeepgramConfig, sessionId: strin
   };
 }
 
+/**
+ * Vocabulary boosting: Nova-3 takes keyterm phrases, older models take
+ * single keywords with an intensifier ("Okafor:3")
+ */
+function vocabularyOptions(model: string, vocabulary?: VocabularyTerm[]) {
+  if (!vocabulary?.length) return {};
+  if (model.startsWith('nova-3')) {
+    return { keyterm: vocabulary.slice(0, MAX_VOCABULARY_TERMS).map((v) => v.term) };
+  }
+  return {
+    keywords: vocabularyKeywords(vocabulary)
+      .slice(0, MAX_VOCABULARY_TERMS)
+      .map((v) => `${v.term}:${v.boost}`),
+  };
+}
+
 // Export circuit stats for health endpoint
 export function getDeepgramCircuitStats() {
   return deepgramCircuit.stats;
@@ -0,0 +1,143 @@
+/**
+ * Dialog Flows - Built-in Flows
+ *
+ * Facts supplied by the voice session:
+ * - caller_identified: we know who is calling (verified or not)
+ * - caller_verified: the caller matched a tenant on file (needed to look up
+ *   or change their work orders)
+ * - can_schedule: a verified caller's work order was filed on this call and
+ *   the property books appointments
+ * - can_self_fix: a self-fix guide fits the problem and hasn't been tried yet
+ * - self_fix_resolved: the last self-fix guide fixed the problem
+ * - urgent_only: the office is closed and only takes urgent problems
+ *   (after-hours policy emergency_only); all_requests is the opposite
+ */
+
+import { DialogFlow } from './types.js';
+
+export const MAINTENANCE_INTAKE_FLOW: DialogFlow = {
+  id: 'maintenance-intake',
+  description: 'Tenant calls in a maintenance problem',
+  // The session greets the caller itself; callers known by their phone number go straight to collect_issue
+  initial: 'identify',
+  states: {
+    identify: {
+      instructions:
+        "Find out who is calling: their name and unit number. Ask for each only once. If they've already " +
+        'described a problem, acknowledge it briefly first.',
+      actions: ['identify_caller', 'transfer', 'end_call'],
+      transitions: [
+        { to: 'collect_issue', auto: true, when: { facts: ['caller_identified'] } },
+        { to: 'collect_issue', description: "The caller can't or won't say who they are - take the problem anyway" },
+      ],
+    },
+    collect_issue: {
+      instructions:
+        'Understand the problem: what is wrong and where in the unit. Ask whether it is getting worse. ' +
+        'For emergencies (fire, gas, active flooding) tell them to call 911 first if anyone is in danger.',
+      slots: [
+        { name: 'issue', description: 'What is wrong, in a sentence', required: true },
+        { name: 'location', description: 'Where in the unit, e.g. "kitchen sink"', required: true },
+        { name: 'urgency', description: 'Whether it is getting worse or is a safety risk' },
+      ],
+      actions: ['transfer', 'end_call'],
+      transitions: [
+        { to: 'confirm', auto: true, when: { slots: ['issue', 'location'], facts: ['all_requests'] } },
+        {
+          to: 'confirm',
+          description: 'The office is closed, and this problem is urgent - file it',
+          when: { slots: ['issue', 'location'], facts: ['urgent_only'] },
+        },
+        {
+          to: 'close',
+          description: 'The office is closed, and this problem can wait - no ticket, ask them to call back when it opens',
+          when: { facts: ['urgent_only'] },
+        },
+        {
+          to: 'check_status',
+          description: 'The caller is asking about a request they already made',
+          when: { facts: ['caller_verified'] },
+        },
+      ],
+    },
+    confirm: {
+      instructions:
+        'Create the ticket, read the draft back in one sentence and ask if that is right. ' +
+        'If yes, confirm the ticket. If they correct you, create the ticket again with the corrections and read it back again. ' +
+        'If the problem may already be reported, ask whether it is the same one. ' +
+        'If you can move to troubleshoot, first offer to walk them through a quick fix; file the ticket if they would rather not.',
+      actions: ['create_ticket', 'confirm_ticket', 'transfer', 'end_call'],
+      transitions: [
+        { to: 'collect_issue', description: 'The caller wants to describe the problem again or report a different one' },
+        {
+          to: 'troubleshoot',
+          description: 'The caller wants to try a quick fix before a request is filed',
+          when: { facts: ['can_self_fix'] },
+        },
+        { to: 'schedule', auto: true, when: { actions: ['confirm_ticket'], facts: ['can_schedule'] } },
+        { to: 'close', auto: true, when: { actions: ['confirm_ticket'] } },
+        // Added to an open request, filed for an unverified caller, or filed without a read-back in an emergency
+        { to: 'schedule', auto: true, when: { actions: ['create_ticket'], facts: ['can_schedule'] } },
+        { to: 'close', auto: true, when: { actions: ['create_ticket'] } },
+      ],
+    },
+    troubleshoot: {
+      instructions:
+        'Start the guide that fits and give one step at a time: say the step, ask the question that comes with it ' +
+        'and wait for their answer before reporting it. Give any safety note first. Stop if anything sounds unsafe.',
+      actions: ['start_self_fix', 'report_self_fix_step', 'transfer'],
+      transitions: [
+        { to: 'close', auto: true, when: { actions: ['report_self_fix_step'], facts: ['self_fix_resolved'] } },
+        { to: 'confirm', auto: true, when: { actions: ['report_self_fix_step'] } },
+        { to: 'confirm', description: 'The caller would rather not carry on - file the request instead' },
+      ],
+    },
+    schedule: {
+      instructions:
+        'Offer to book a visit. Ask when suits them, offer the times you find (no more than three) and book the ' +
+        'one they pick. Before booking, ask whether maintenance may come in if nobody is home, and about pets or ' +
+        "anything else about getting in. If they'd rather not book now, tell them the office will be in touch.",
+      actions: ['find_appointment_slots', 'book_appointment', 'transfer', 'end_call'],
+      transitions: [
+        { to: 'close', auto: true, when: { actions: ['book_appointment'] } },
+        { to: 'close', description: "The caller doesn't want to book a time now" },
+      ],
+      final: true,
+    },
+    close: {
+      instructions: 'Tell them what happens next, ask if there is anything else, then say goodbye.',
+      actions: ['end_call', 'transfer'],
+      transitions: [
+        {
+          to: 'collect_issue',
+          description: 'The caller has another problem to report',
+          reset: ['issue', 'location', 'urgency'],
+        },
+        {
+          to: 'check_status',
+          description: 'The caller is asking about a request they already made',
+          when: { facts: ['caller_verified'] },
+        },
+      ],
+      final: true,
+    },
+    check_status: {
+      instructions:
+        'Look up their requests and tell them where the one they mean stands: status, when it is scheduled and ' +
+        'who is doing the work. Add a note if they have something to pass on. Only cancel after reading the ' +
+        'request back and hearing them confirm.',
+      actions: ['lookup_work_orders', 'add_work_order_note', 'cancel_work_order', 'transfer', 'end_call'],
+      transitions: [
+        {
+          to: 'collect_issue',
+          description: 'The caller has a new problem to report',
+          reset: ['issue', 'location', 'urgency'],
+        },
+        { to: 'close', description: 'The caller has what they needed' },
+      ],
+      final: true,
+    },
+  },
+};
+
+export const BUILTIN_FLOWS: DialogFlow[] = [MAINTENANCE_INTAKE_FLOW];
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DialogFlowEngine } from './engine.js';
+import { MAINTENANCE_INTAKE_FLOW } from './builtin.js';
+import { FlowFacts } from './types.js';
+
+const facts = (...names: string[]): FlowFacts => Object.fromEntries(names.map((name) => [name, true]));
+
+const engineIn = (state: string) => new DialogFlowEngine({ ...MAINTENANCE_INTAKE_FLOW, initial: state });
+
+describe('DialogFlowEngine', () => {
+  describe('advance', () => {
+    it.each([
+      // start state, slots, facts, actions, states entered
+      ['identify', {}, [], [], []],
+      ['identify', {}, ['caller_identified'], [], ['collect_issue']],
+      ['identify', { issue: 'leak', location: 'kitchen' }, ['caller_identified', 'all_requests'], [], ['collect_issue', 'confirm']],
+      ['identify', { issue: 'leak' }, ['caller_identified', 'all_requests'], [], ['collect_issue']],
+      // After hours, urgent problems only: the model decides whether to file
+      ['identify', { issue: 'leak', location: 'kitchen' }, ['caller_identified', 'urgent_only'], [], ['collect_issue']],
+      ['confirm', {}, [], [], []],
+      ['confirm', {}, [], ['confirm_ticket'], ['close']],
+      ['confirm', {}, ['can_schedule'], ['confirm_ticket'], ['schedule']],
+      ['confirm', {}, [], ['create_ticket'], ['close']],
+      ['confirm', {}, ['can_schedule'], ['create_ticket'], ['schedule']],
+    ])('%s with %o, facts %o, actions %o -> %o', (start, slots, factNames, actions, entered) => {
+      const engine = engineIn(start);
+      engine.fillSlots(slots);
+      actions.forEach((action) => engine.recordAction(action));
+      expect(engine.advance(facts(...factNames))).toEqual(entered);
+    });
+
+    it('forgets actions from the state it left', () => {
+      const engine = engineIn('troubleshoot');
+      engine.recordAction('report_self_fix_step');
+      expect(engine.advance({})).toEqual(['confirm']);
+      expect(engine.advance({})).toEqual([]);
+    });
+  });
+
+  describe('allowsAction', () => {
+    it.each([
+      ['identify', 'identify_caller', true],
+      ['identify', 'end_call', true],
+      ['identify', 'create_ticket', false],
+      ['collect_issue', 'create_ticket', false],
+      ['collect_issue', 'transfer', true],
+      ['confirm', 'create_ticket', true],
+      ['confirm', 'confirm_ticket', true],
+      ['confirm', 'end_call', true],
+      ['confirm', 'book_appointment', false],
+      ['troubleshoot', 'report_self_fix_step', true],
+      ['close', 'end_call', true],
+      ['close', 'create_ticket', false],
+    ])('%s allows %s: %s', (state, action, allowed) => {
+      expect(engineIn(state).allowsAction(action)).toBe(allowed);
+    });
+
+    it('allows every action in a state without an action list', () => {
+      const engine = new DialogFlowEngine({
+        id: 'open',
+        initial: 'talk',
+        states: { talk: { instructions: 'Talk.' } },
+      });
+      expect(engine.allowsAction('create_ticket')).toBe(true);
+    });
+  });
+
+  describe('requestTransition', () => {
+    it.each([
+      // from, to, facts, ok
+      ['identify', 'collect_issue', [], true],
+      ['identify', 'confirm', [], false],
+      ['collect_issue', 'check_status', [], false],
+      ['collect_issue', 'check_status', ['caller_verified'], true],
+      ['collect_issue', 'close', [], false],
+      ['collect_issue', 'close', ['urgent_only'], true],
+      ['confirm', 'collect_issue', [], true],
+      ['confirm', 'troubleshoot', [], false],
+      ['confirm', 'troubleshoot', ['can_self_fix'], true],
+      ['close', 'collect_issue', [], true],
+    ])('%s -> %s with facts %o: %s', (from, to, factNames, ok) => {
+      const engine = engineIn(from);
+      const result = engine.requestTransition(to, facts(...factNames));
+      expect(result.ok).toBe(ok);
+      expect(engine.state).toBe(ok ? to : from);
+    });
+
+    it('clears the slots a transition resets', () => {
+      const engine = engineIn('close');
+      engine.fillSlots({ issue: 'sink is leaking', location: 'kitchen' });
+      engine.requestTransition('collect_issue', {});
+      expect(engine.getSlots()).toEqual({});
+      expect(engine.missingSlots()).toEqual(['issue', 'location']);
+    });
+
+    it('says why a transition is not ready', () => {
+      const engine = engineIn('collect_issue');
+      expect(engine.requestTransition('check_status', {})).toEqual({
+        ok: false,
+        error: 'Not ready for check_status yet: caller_verified is not true',
+      });
+    });
+  });
+
+  it('lets a caller who never identifies file a ticket', () => {
+    const engine = new DialogFlowEngine(MAINTENANCE_INTAKE_FLOW);
+    expect(engine.requestTransition('collect_issue', {}).ok).toBe(true);
+    engine.fillSlots({ issue: 'no heat', location: 'bedroom' });
+    engine.advance(facts('all_requests'));
+    expect(engine.state).toBe('confirm');
+    expect(engine.allowsAction('create_ticket')).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Dialog Flows - Engine
+ *
+ * Tracks where one conversation is in a flow: the current state, the slots
+ * filled so far and the actions taken in this state. Transitions are only
+ * taken when their conditions hold, and the prompt section for the current
+ * state tells the model what to do next.
+ */
+
+import { DialogFlow, FlowCondition, FlowFacts, FlowState, FlowTransition, TransitionResult } from './types.js';
+
+export class DialogFlowEngine {
+  readonly flow: DialogFlow;
+  private currentState: string;
+  private slots: Record<string, string> = {};
+  private stateActions = new Set<string>();
+
+  constructor(flow: DialogFlow) {
+    this.flow = flow;
+    this.currentState = flow.initial;
+  }
+
+  get state(): string {
+    return this.currentState;
+  }
+
+  private get definition(): FlowState {
+    return this.flow.states[this.currentState];
+  }
+
+  get isFinal(): boolean {
+    return !!this.definition.final;
+  }
+
+  getSlots(): Record<string, string> {
+    return { ...this.slots };
+  }
+
+  /**
+   * Fill slots the flow defines. Returns the names it doesn't know.
+   */
+  fillSlots(values: Record<string, string>): string[] {
+    const known = new Set(Object.values(this.flow.states).flatMap((state) => (state.slots || []).map((s) => s.name)));
+    const unknown: string[] = [];
+    for (const [name, value] of Object.entries(values)) {
+      if (!known.has(name)) {
+        unknown.push(name);
+      } else if (value.trim()) {
+        this.slots[name] = value.trim();
+      }
+    }
+    return unknown;
+  }
+
+  /**
+   * Required slots of the current state that are still empty
+   */
+  missingSlots(): string[] {
+    return (this.definition.slots || []).filter((slot) => slot.required && !this.slots[slot.name]).map((s) => s.name);
+  }
+
+  /**
+   * Tools the agent may call right now. States without an action list allow all.
+   */
+  allowsAction(name: string): boolean {
+    const actions = this.definition.actions;
+    return !actions || actions.includes(name);
+  }
+
+  /**
+   * Note a successful action - transitions can wait for one
+   */
+  recordAction(name: string): void {
+    this.stateActions.add(name);
+  }
+
+  /**
+   * Move to another state at the model's request, if a transition allows it
+   */
+  requestTransition(to: string, facts: FlowFacts): TransitionResult {
+    const candidates = (this.definition.transitions || []).filter((t) => t.to === to);
+    if (candidates.length === 0) {
+      const options = (this.definition.transitions || []).map((t) => t.to);
+      return { ok: false, error: `Can't go from ${this.currentState} to ${to}. Options: ${options.join(', ') || 'none'}` };
+    }
+
+    const transition = candidates.find((t) => this.conditionMet(t.when, facts));
+    if (!transition) {
+      return { ok: false, error: `Not ready for ${to} yet: ${this.unmetConditions(candidates[0].when, facts).join(', ')}` };
+    }
+
+    this.enter(transition);
+    return { ok: true, state: this.currentState };
+  }
+
+  /**
+   * Follow automatic transitions whose conditions hold. Returns the states entered.
+   */
+  advance(facts: FlowFacts): string[] {
+    const entered: string[] = [];
+    // Each state at most once per call, so a cycle of auto transitions can't spin
+    const limit = Object.keys(this.flow.states).length;
+    for (let step = 0; step < limit; step++) {
+      const transition = (this.definition.transitions || []).find((t) => t.auto && this.conditionMet(t.when, facts));
+      if (!transition || entered.includes(transition.to)) break;
+      this.enter(transition);
+      entered.push(this.currentState);
+    }
+    return entered;
+  }
+
+  /**
+   * Prompt section describing the current state
+   */
+  buildPromptSection(): string {
+    const state = this.definition;
+    const lines = [`CURRENT STEP: ${this.currentState}`, state.instructions];
+
+    if (state.slots?.length) {
+      lines.push('', 'DETAILS TO COLLECT:');
+      for (const slot of state.slots) {
+        const value = this.slots[slot.name];
+        const status = value ? `have: "${value}"` : slot.required ? 'still needed' : 'optional';
+        lines.push(`- ${slot.name}: ${slot.description} (${status})`);
+      }
+    } else if (Object.keys(this.slots).length > 0) {
+      lines.push('', 'DETAILS SO FAR:');
+      for (const [name, value] of Object.entries(this.slots)) {
+        lines.push(`- ${name}: "${value}"`);
+      }
+    }
+
+    const manual = (state.transitions || []).filter((t) => !t.auto);
+    if (manual.length > 0) {
+      lines.push('', 'YOU CAN MOVE TO:');
+      for (const transition of manual) {
+        lines.push(`- ${transition.to}${transition.description ? `: ${transition.description}` : ''}`);
+      }
+    }
+
+    lines.push('', 'Record details and move between steps with update_dialog.');
+    return lines.join('\n');
+  }
+
+  private enter(transition: FlowTransition) {
+    for (const name of transition.reset || []) {
+      delete this.slots[name];
+    }
+    this.currentState = transition.to;
+    this.stateActions.clear();
+  }
+
+  private conditionMet(condition: FlowCondition | undefined, facts: FlowFacts): boolean {
+    return this.unmetConditions(condition, facts).length === 0;
+  }
+
+  private unmetConditions(condition: FlowCondition | undefined, facts: FlowFacts): string[] {
+    if (!condition) return [];
+    return [
+      ...(condition.slots || []).filter((name) => !this.slots[name]).map((name) => `${name} is missing`),
+      ...(condition.facts || []).filter((name) => !facts[name]).map((name) => `${name} is not true`),
+      ...(condition.actions || []).filter((name) => !this.stateActions.has(name)).map((name) => `${name} not done`),
+    ];
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Dialog Flows
+ *
+ * Declarative call flows: states, the slots to collect in each, allowed
+ * actions and transitions. The voice session runs one flow per call and
+ * builds the prompt for the current state from it.
+ *
+ * Flows are opt-in: a property runs one only if voice_config.dialog_flow
+ * names it, and every other property keeps the free-form prompt.
+ *
+ * Flows are JSON files (see README). Files in DIALOG_FLOWS_DIR are loaded
+ * once, on first use (restart to pick up changes); a file with the same id
+ * as a built-in flow replaces it.
+ *
+ * Environment:
+ * - DIALOG_FLOWS_DIR: directory of *.json flow definitions
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { config } from 'dotenv';
+import { BUILTIN_FLOWS } from './builtin.js';
+import { DialogFlow } from './types.js';
+
+config();
+
+export type {
+  DialogFlow,
+  FlowState,
+  FlowTransition,
+  FlowCondition,
+  FlowFacts,
+  SlotDefinition,
+  TransitionResult,
+} from './types.js';
+export { DialogFlowEngine } from './engine.js';
+export { MAINTENANCE_INTAKE_FLOW } from './builtin.js';
+
+let flowsLoading: Promise<Map<string, DialogFlow>> | null = null;
+
+/**
+ * Check a parsed flow definition. Throws with the first problem found.
+ */
+export function validateDialogFlow(raw: unknown, source: string): DialogFlow {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid dialog flow ${source}: ${message}`);
+  };
+
+  if (!raw || typeof raw !== 'object') fail('not an object');
+  const flow = raw as DialogFlow;
+  if (typeof flow.id !== 'string' || !flow.id) fail('missing "id"');
+  if (!flow.states || typeof flow.states !== 'object') fail('missing "states"');
+  if (!flow.states[flow.initial]) fail(`initial state "${flow.initial}" is not defined`);
+
+  const slotNames = new Set<string>();
+  for (const [name, state] of Object.entries(flow.states)) {
+    if (typeof state?.instructions !== 'string') fail(`state "${name}" needs "instructions"`);
+    for (const slot of state.slots || []) {
+      if (typeof slot.name !== 'string' || typeof slot.description !== 'string') {
+        fail(`state "${name}" has a slot without "name" and "description"`);
+      }
+      slotNames.add(slot.name);
+    }
+    if (state.actions && !Array.isArray(state.actions)) fail(`state "${name}" has a non-array "actions"`);
+  }
+
+  const checkSlots = (names: string[] | undefined, where: string) => {
+    for (const slot of names || []) {
+      if (!slotNames.has(slot)) fail(`${where} refers to unknown slot "${slot}"`);
+    }
+  };
+
+  for (const [name, state] of Object.entries(flow.states)) {
+    for (const transition of state.transitions || []) {
+      if (!flow.states[transition.to]) fail(`state "${name}" has a transition to unknown state "${transition.to}"`);
+      checkSlots(transition.when?.slots, `transition ${name} -> ${transition.to}`);
+      checkSlots(transition.reset, `transition ${name} -> ${transition.to}`);
+    }
+  }
+
+  return flow;
+}
+
+async function loadFlowsFromDir(dir: string): Promise<DialogFlow[]> {
+  const flows: DialogFlow[] = [];
+  let files: string[];
+  try {
+    files = (await readdir(dir)).filter((file) => file.endsWith('.json'));
+  } catch (error) {
+    console.error(`[DialogFlows] Can't read ${dir}:`, error);
+    return flows;
+  }
+
+  for (const file of files) {
+    const path = join(dir, file);
+    try {
+      flows.push(validateDialogFlow(JSON.parse(await readFile(path, 'utf-8')), path));
+    } catch (error) {
+      // A broken file shouldn't take down calls - skip it and say why
+      console.error(`[DialogFlows] Skipping ${path}:`, (error as Error).message);
+    }
+  }
+  return flows;
+}
+
+function loadFlows(): Promise<Map<string, DialogFlow>> {
+  if (!flowsLoading) {
+    flowsLoading = (async () => {
+      const flows = new Map(BUILTIN_FLOWS.map((flow) => [flow.id, flow]));
+      const dir = process.env.DIALOG_FLOWS_DIR;
+      if (dir) {
+        for (const flow of await loadFlowsFromDir(dir)) {
+          flows.set(flow.id, flow);
+        }
+        console.log(`[DialogFlows] Loaded flows: ${[...flows.keys()].join(', ')}`);
+      }
+      return flows;
+    })();
+  }
+  return flowsLoading;
+}
+
+/**
+ * The flow the property picked. Null means no flow (free-form prompt).
+ */
+export async function getDialogFlow(flowId?: string | null): Promise<DialogFlow | null> {
+  if (!flowId) return null;
+
+  const flow = (await loadFlows()).get(flowId);
+  if (!flow) {
+    console.error(`[DialogFlows] Unknown flow "${flowId}" - using the free-form prompt`);
+    return null;
+  }
+  return flow;
+}
@@ -0,0 +1,57 @@
+/**
+ * Dialog Flow Types
+ *
+ * A flow is a set of states. Each state tells the agent what to do, which
+ * slots (pieces of information) to collect, which actions (tools) it may
+ * use, and where the conversation can go next.
+ */
+
+export interface SlotDefinition {
+  name: string;
+  // What to ask for - shown to the model
+  description: string;
+  // Must be filled before a transition that lists it can be taken
+  required?: boolean;
+}
+
+// Everything listed must hold for the condition to be met
+export interface FlowCondition {
+  slots?: string[];
+  // Named facts supplied by the host, e.g. "caller_identified"
+  facts?: string[];
+  // Actions that have succeeded since entering the current state
+  actions?: string[];
+}
+
+export interface FlowTransition {
+  to: string;
+  when?: FlowCondition;
+  // Taken as soon as the condition holds, without the model asking
+  auto?: boolean;
+  // When the model should take this transition - shown to the model
+  description?: string;
+  // Slots to clear when this transition is taken (e.g. starting a second issue)
+  reset?: string[];
+}
+
+export interface FlowState {
+  instructions: string;
+  slots?: SlotDefinition[];
+  // Tools the agent may call in this state (all of them if omitted)
+  actions?: string[];
+  transitions?: FlowTransition[];
+  // The conversation can end here
+  final?: boolean;
+}
+
+export interface DialogFlow {
+  id: string;
+  description?: string;
+  initial: string;
+  states: Record<string, FlowState>;
+}
+
+// Facts about the call the host knows and the flow can't see
+export type FlowFacts = Record<string, boolean>;
+
+export type TransitionResult = { ok: true; state: string } | { ok: false; error: string };
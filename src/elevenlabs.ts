@@ -10,6 +10,7 @@
 import { config } from 'dotenv';
 import { WebSocket } from 'ws';
 import { getCircuitBreaker, withRetry, costTracker } from './utils/index.js';
+import { TextToSpeechProvider, TextToSpeechOptions } from './text-to-speech/types.js';
 
 config();
 
@@ -17,21 +18,15 @@ function getElevenLabsApiKey(): string {
   return process.env.ELEVENLABS_API_KEY || '';
 }
 
-function getVoiceId(): string {
-  return process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM'; // Rachel - warmer, more natural
+function getVoiceId(language?: string): string {
+  // e.g. ELEVENLABS_VOICE_ID_ES - the model is multilingual, so any voice works as a fallback
+  const languageVoice = language ? process.env[`ELEVENLABS_VOICE_ID_${language.toUpperCase()}`] : undefined;
+  return languageVoice || process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM'; // Rachel - warmer, more natural
 }
 
-export interface ElevenLabsTTS {
-  addText: (text: string) => void;
-  flush: () => void;
-  close: () => void;
-}
+export type ElevenLabsTTS = TextToSpeechProvider;
 
-interface ElevenLabsConfig {
-  sessionId?: string;
-  onAudio: (audioChunk: Buffer) => void;
-  onDone: () => void;
-}
+type ElevenLabsConfig = TextToSpeechOptions;
 
 // Circuit breaker for ElevenLabs
 const elevenLabsCircuit = getCircuitBreaker('elevenlabs', {
@@ -63,8 +58,8 @@ export async function createElevenLabsTTS(config: ElevenLabsConfig): Promise<Ele
 
 async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: string): Promise<ElevenLabsTTS> {
   const apiKey = getElevenLabsApiKey();
-  const voiceId = getVoiceId();
-  const wsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=eleven_turbo_v2_5&output_format=ulaw_8000`;
+  const voiceId = getVoiceId(config.language);
+  const wsUrl = `wss://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream-input?model_id=eleven_turbo_v2_5&output_format=ulaw_8000&sync_alignment=true`;
 
   let ws: WebSocket;
   let isReady = false;
@@ -79,18 +74,22 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
   // Function to create and setup WebSocket connection
   const setupWebSocket = (): Promise<void> => {
     return new Promise((resolve, reject) => {
-      ws = new WebSocket(wsUrl, {
+      const socket = new WebSocket(wsUrl, {
         headers: {
           'xi-api-key': apiKey,
         },
       });
+      ws = socket;
+
+      // Events from a socket replaced by interrupt() must not reach the session
+      const isCurrent = () => socket === ws;
 
-      ws.on('open', () => {
+      socket.on('open', () => {
         console.log(`[ElevenLabs:${sessionId.slice(0, 8)}] WebSocket connected`);
 
         // Send initial configuration (BOS message)
         // Voice tuned for helpful, professional assistant - natural pace
-        ws.send(
+        socket.send(
           JSON.stringify({
             text: ' ',
             voice_settings: {
@@ -120,17 +119,20 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
         resolve();
       });
 
-      ws.on('error', (error) => {
+      socket.on('error', (error) => {
+        if (!isCurrent()) return;
         console.error(`[ElevenLabs:${sessionId.slice(0, 8)}] WebSocket error:`, error);
         reject(error);
       });
 
-      ws.on('message', (data) => {
+      socket.on('message', (data) => {
+        if (!isCurrent()) return;
         try {
           const message = JSON.parse(data.toString());
           if (message.audio) {
             const audioBuffer = Buffer.from(message.audio, 'base64');
-            config.onAudio(audioBuffer);
+            const chars: string[] | undefined = message.alignment?.chars;
+            config.onAudio(audioBuffer, chars ? chars.join('') : undefined);
           }
           if (message.isFinal) {
             config.onDone();
@@ -142,8 +144,9 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
         }
       });
 
-      ws.on('close', (code, reason) => {
+      socket.on('close', (code, reason) => {
         console.log(`[ElevenLabs:${sessionId.slice(0, 8)}] WebSocket closed:`, code, reason?.toString());
+        if (!isCurrent()) return;
         isReady = false;
 
         // Clear keep-alive on close
@@ -168,11 +171,16 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
             if (!isClosed) {
               setupWebSocket().catch((err) => {
                 console.error(`[ElevenLabs:${sessionId.slice(0, 8)}] Reconnection failed:`, err);
+                config.onFailure?.(err as Error);
               });
             }
           }, delay);
-        } else if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-          console.error(`[ElevenLabs:${sessionId.slice(0, 8)}] Max reconnect attempts reached, giving up`);
+        } else if (!isClosed) {
+          if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+            console.error(`[ElevenLabs:${sessionId.slice(0, 8)}] Max reconnect attempts reached, giving up`);
+          }
+          // Socket is gone for good - let the session fail over
+          config.onFailure?.(new Error(`ElevenLabs socket closed (${code})`));
         }
       });
 
@@ -184,6 +192,8 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
   await setupWebSocket();
 
   return {
+    provider: 'elevenlabs',
+
     addText: (text: string) => {
       if (!isReady || ws.readyState !== WebSocket.OPEN) {
         textBuffer += text;
@@ -194,20 +204,11 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
       const textToSend = textBuffer + text;
       textBuffer = '';
 
-      // Filter out ALL special tags before sending to TTS
-      const cleanText = textToSend
-        .replace(/\[CREATE_TICKET\]/g, '')
-        .replace(/\[CREATE_UNVERIFIED\]/g, '')
-        .replace(/\[END_CALL\]/g, '')
-        .replace(/\[TENANT:[^\]]+\]/g, '')
-        .replace(/\[VERIFIED\]/g, '')
-        .replace(/\[[A-Z_]+\]/g, ''); // Catch any other bracketed tags
-
-      if (cleanText.trim()) {
-        totalCharacters += cleanText.length;
+      if (textToSend.trim()) {
+        totalCharacters += textToSend.length;
         ws.send(
           JSON.stringify({
-            text: cleanText,
+            text: textToSend,
             try_trigger_generation: true,
           })
         );
@@ -226,12 +227,42 @@ async function createElevenLabsConnection(config: ElevenLabsConfig, sessionId: s
       }
     },
 
+    interrupt: () => {
+      // ElevenLabs can't cancel a generation in progress, so drop the socket
+      // (and any audio still coming from it) and start a fresh one
+      textBuffer = '';
+      if (isClosed) return;
+      const interrupted = ws;
+      isReady = false;
+      if (keepAliveInterval) {
+        clearInterval(keepAliveInterval);
+        keepAliveInterval = null;
+      }
+      setupWebSocket().catch((err) => {
+        console.error(`[ElevenLabs:${sessionId.slice(0, 8)}] Reconnect after interrupt failed:`, err);
+        config.onFailure?.(err as Error);
+      });
+      if (interrupted.readyState === WebSocket.OPEN) {
+        interrupted.close();
+      }
+      if (totalCharacters > 0) {
+        costTracker.trackElevenLabs(sessionId, totalCharacters);
+        totalCharacters = 0;
+      }
+    },
+
     close: () => {
       isClosed = true; // Prevent auto-reconnect
       if (keepAliveInterval) {
         clearInterval(keepAliveInterval);
         keepAliveInterval = null;
       }
+      // Track cost now rather than when the socket finishes closing, so it
+      // lands before the session's cost summary
+      if (totalCharacters > 0) {
+        costTracker.trackElevenLabs(sessionId, totalCharacters);
+        totalCharacters = 0;
+      }
       if (ws.readyState === WebSocket.OPEN) {
         // Send EOS signal
         ws.send(JSON.stringify({ text: '' }));
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from './bm25.js';
+
+describe('tokenize', () => {
+  it.each([
+    ['When is trash picked up?', ['trash', 'pick', 'up']],
+    ['Trash pickup is on Tuesdays', ['trash', 'pickup', 'tuesday']],
+    ['Where do I park my car?', ['park', 'car']],
+    ['Parking passes', ['park', 'pass']],
+    ['The pipes are leaking', ['pipe', 'leak']],
+    ['Guest policies', ['guest', 'policy']],
+    ['Is the gas on?', ['gas']],
+    ['¿Cuándo recogen la basura?', ['recogen', 'basura']],
+    ['Rent portal: www.example.com/pay', ['rent', 'portal', 'www', 'example', 'com', 'pay']],
+    ['What is it?', []],
+  ])('%s -> %o', (text, terms) => {
+    expect(tokenize(text)).toEqual(terms);
+  });
+});
+
+describe('Bm25Index', () => {
+  const index = new Bm25Index([
+    { id: 'trash', text: 'Trash pickup. Trash is picked up on Tuesdays and Fridays - bins go out by 7 AM.' },
+    { id: 'parking', text: 'Parking. Each unit has one assigned space. Guests park on the street.' },
+    { id: 'gym', text: 'Gym hours. The gym is open 6 AM to 10 PM every day.' },
+    { id: 'rent', text: 'Paying rent. Pay rent online through the resident portal.' },
+    { id: 'guests', text: 'Guest policy. Guests may stay up to 14 nights.' },
+  ]);
+
+  it.each([
+    // query, best match
+    ['When does the trash get picked up?', 'trash'],
+    ['what day is trash pickup', 'trash'],
+    ['where can I park', 'parking'],
+    ['what time does the gym open', 'gym'],
+    ['how do I pay my rent', 'rent'],
+    ['how long can guests stay', 'guests'],
+    ['¿a qué hora abre el gym?', 'gym'],
+  ])('%s -> %s', (query, id) => {
+    expect(index.search(query, 3)[0]?.id).toBe(id);
+  });
+
+  it('ranks rarer terms higher', () => {
+    // "guests" is in two entries, "park" in one
+    const [best, next] = index.search('where do guests park', 5);
+    expect(best.id).toBe('parking');
+    expect(next.id).toBe('guests');
+    expect(best.score).toBeGreaterThan(next.score);
+  });
+
+  it.each(['is it?', 'the elevator is broken', ''])('finds nothing for %s', (query) => {
+    expect(index.search(query, 3)).toEqual([]);
+  });
+
+  it('limits the results', () => {
+    expect(index.search('trash parking gym rent guests', 2)).toHaveLength(2);
+  });
+
+  it('searches an empty index', () => {
+    expect(new Bm25Index([]).search('trash', 3)).toEqual([]);
+    expect(new Bm25Index([]).size).toBe(0);
+  });
+});
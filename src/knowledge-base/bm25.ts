@@ -0,0 +1,84 @@
+/**
+ * Knowledge Base - BM25
+ *
+ * Local lexical ranking: no embedding service, just term frequencies. Words
+ * are lowercased, stripped of accents and stemmed, and question words
+ * dropped, so "When is trash picked up?" finds "Trash pickup is on Tuesdays".
+ */
+
+import { stem } from '../utils/stemming.js';
+
+// Standard BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+
+// Words that carry no meaning for retrieval (English and Spanish)
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by', 'about',
+  'is', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'can', 'could', 'will', 'would', 'should', 'may',
+  'i', 'me', 'my', 'we', 'our', 'you', 'your', 'it', 'its', 'they', 'their', 'this', 'that', 'there', 'here',
+  'what', 'when', 'where', 'which', 'who', 'how', 'why', 'have', 'has', 'any', 'some', 'just', 'so', 'not', 'no',
+  'el', 'la', 'los', 'las', 'un', 'una', 'de', 'del', 'y', 'o', 'en', 'con', 'por', 'para', 'que', 'es', 'son',
+  'cuando', 'donde', 'como', 'cual', 'mi', 'mis', 'su', 'sus', 'se', 'lo', 'le', 'hay', 'puedo',
+]);
+
+/**
+ * Index terms for a piece of text
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export class Bm25Index {
+  private documents: { id: string; terms: Map<string, number>; length: number }[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(documents: { id: string; text: string }[]) {
+    this.documents = documents.map(({ id, text }) => {
+      const terms = new Map<string, number>();
+      const tokens = tokenize(text);
+      for (const term of tokens) terms.set(term, (terms.get(term) || 0) + 1);
+      for (const term of terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+      return { id, terms, length: tokens.length };
+    });
+    const totalLength = this.documents.reduce((sum, doc) => sum + doc.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Best matches for a query, highest score first
+   */
+  search(query: string, limit: number): { id: string; score: number }[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || this.documents.length === 0) return [];
+
+    const count = this.documents.length;
+    const results: { id: string; score: number }[] = [];
+    for (const doc of this.documents) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = doc.terms.get(term);
+        if (!frequency) continue;
+        const df = this.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+        score += (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * doc.length) / this.averageLength));
+      }
+      if (score > 0) results.push({ id: doc.id, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Knowledge Base
+ *
+ * Per-property answers to the questions callers ask that aren't repairs:
+ * trash day, parking, amenity hours, the rent portal, guest policy. Entries
+ * (knowledge_base_entries) are Q&A pairs or longer documents; documents are
+ * split into passages and everything is ranked locally with BM25. The best
+ * passages for what the caller just said go into the prompt, and the agent
+ * answers policy questions from them only.
+ *
+ * Indexes are cached per property and rebuilt after KNOWLEDGE_BASE_REFRESH_MS.
+ *
+ * Environment:
+ * - KNOWLEDGE_BASE_MAX_PASSAGES: passages added to the prompt per turn (default 3)
+ * - KNOWLEDGE_BASE_MIN_SCORE: BM25 score a passage needs to be used (default 1.5)
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { sanitizeForPrompt } from '../utils/prompt-sanitizer.js';
+import { Bm25Index } from './bm25.js';
+import { KnowledgeEntry, KnowledgePassage, RetrievedPassage } from './types.js';
+
+config();
+
+export type { KnowledgeEntry, KnowledgePassage, RetrievedPassage } from './types.js';
+export { Bm25Index, tokenize } from './bm25.js';
+
+const DEFAULT_MAX_PASSAGES = 3;
+const DEFAULT_MIN_SCORE = 1.5;
+
+// How long a property's index is used before the entries are read again
+const KNOWLEDGE_BASE_REFRESH_MS = 5 * 60 * 1000;
+
+// Documents are split into passages of about this many words
+const PASSAGE_WORDS = 120;
+
+// Longest passage text put in the prompt
+const PASSAGE_PROMPT_CHARS = 800;
+
+export class KnowledgeBase {
+  private passages = new Map<string, KnowledgePassage>();
+  private index: Bm25Index;
+
+  constructor(entries: KnowledgeEntry[]) {
+    for (const entry of entries) {
+      for (const passage of splitEntry(entry)) this.passages.set(passage.id, passage);
+    }
+    // The title counts twice - it's what the entry is about
+    this.index = new Bm25Index(
+      [...this.passages.values()].map((p) => ({ id: p.id, text: `${p.title} ${p.title} ${p.text}` }))
+    );
+  }
+
+  get size(): number {
+    return this.passages.size;
+  }
+
+  /**
+   * Passages relevant to what the caller said, best first
+   */
+  search(query: string, limit = getMaxPassages(), minScore = getMinScore()): RetrievedPassage[] {
+    return this.index
+      .search(query, limit)
+      .filter((hit) => hit.score >= minScore)
+      .map((hit) => ({ ...this.passages.get(hit.id)!, score: hit.score }));
+  }
+}
+
+const EMPTY = new KnowledgeBase([]);
+
+const cache = new Map<string, { knowledgeBase: KnowledgeBase; loadedAt: number }>();
+
+let supabase: SupabaseClient;
+
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    supabase = createClient(process.env.SUPABASE_URL || '', process.env.SUPABASE_SERVICE_ROLE_KEY || '');
+  }
+  return supabase;
+}
+
+function getMaxPassages(): number {
+  const value = Number(process.env.KNOWLEDGE_BASE_MAX_PASSAGES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_PASSAGES;
+}
+
+function getMinScore(): number {
+  const value = Number(process.env.KNOWLEDGE_BASE_MIN_SCORE);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MIN_SCORE;
+}
+
+/**
+ * Split an entry into passages at paragraph breaks, keeping each near
+ * PASSAGE_WORDS. Short entries (most Q&A pairs) stay whole.
+ */
+export function splitEntry(entry: KnowledgeEntry): KnowledgePassage[] {
+  const paragraphs = entry.content
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+  for (const paragraph of paragraphs) {
+    const length = paragraph.split(' ').length;
+    if (words > 0 && words + length > PASSAGE_WORDS) {
+      chunks.push(current.join('\n'));
+      current = [];
+      words = 0;
+    }
+    current.push(paragraph);
+    words += length;
+  }
+  if (current.length > 0) chunks.push(current.join('\n'));
+
+  return chunks.map((text, i) => ({
+    id: `${entry.id}#${i}`,
+    entryId: entry.id,
+    title: entry.title,
+    text,
+    sourceUrl: entry.source_url,
+  }));
+}
+
+/**
+ * A property's knowledge base, from cache when it's fresh. Falls back to the
+ * last one loaded (or an empty one) if the entries can't be read.
+ */
+export async function getKnowledgeBase(propertyId: string, userId: string): Promise<KnowledgeBase> {
+  const cached = cache.get(propertyId);
+  if (cached && Date.now() - cached.loadedAt < KNOWLEDGE_BASE_REFRESH_MS) return cached.knowledgeBase;
+
+  try {
+    const { data, error } = await getSupabase()
+      .from('knowledge_base_entries')
+      .select('id, user_id, property_id, title, content, source_url, updated_at')
+      .eq('user_id', userId)
+      .or(`property_id.is.null,property_id.eq.${propertyId}`);
+    if (error) throw new Error(error.message);
+
+    const knowledgeBase = new KnowledgeBase((data || []) as KnowledgeEntry[]);
+    cache.set(propertyId, { knowledgeBase, loadedAt: Date.now() });
+    console.log(`[KnowledgeBase] Loaded ${data?.length || 0} entries for property ${propertyId.slice(0, 8)} (${knowledgeBase.size} passages)`);
+    return knowledgeBase;
+  } catch (error) {
+    // Answering without it is better than holding up the call
+    console.error('[KnowledgeBase] Failed to load entries:', error);
+    return cached?.knowledgeBase || EMPTY;
+  }
+}
+
+/**
+ * The prompt section listing retrieved passages. Entry text is written by
+ * the property manager, but is sanitized like any other stored data.
+ */
+export function buildKnowledgePrompt(passages: RetrievedPassage[]): string | null {
+  if (passages.length === 0) return null;
+  const lines = passages.map((passage, i) => {
+    const title = sanitizeForPrompt(passage.title, 120);
+    const text = sanitizeForPrompt(passage.text, PASSAGE_PROMPT_CHARS);
+    const link = passage.sourceUrl ? `\n   Link: ${sanitizeForPrompt(passage.sourceUrl, 200)}` : '';
+    return `[${i + 1}] ${title}\n   ${text}${link}`;
+  });
+  return `PROPERTY INFORMATION (from the property manager - the only source for policies and property details):\n${lines.join('\n')}`;
+}
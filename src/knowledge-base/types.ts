@@ -0,0 +1,31 @@
+/**
+ * Knowledge Base Types
+ */
+
+// One row of knowledge_base_entries: a Q&A pair (title = the question) or a
+// document (house rules, parking policy...). No property_id = every property
+// the manager has.
+export interface KnowledgeEntry {
+  id: string;
+  user_id: string;
+  property_id: string | null;
+  title: string;
+  content: string;
+  // Link the agent can give out, e.g. the rent portal
+  source_url: string | null;
+  updated_at: string | null;
+}
+
+// A searchable piece of an entry - long documents are split up
+export interface KnowledgePassage {
+  // "<entry id>#<n>"
+  id: string;
+  entryId: string;
+  title: string;
+  text: string;
+  sourceUrl: string | null;
+}
+
+export interface RetrievedPassage extends KnowledgePassage {
+  score: number;
+}
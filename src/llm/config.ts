@@ -0,0 +1,68 @@
+/**
+ * LLM Gateway - Settings
+ *
+ * Resolves model, temperature and token limit for a completion:
+ * property overrides > per-purpose env > global env > built-in defaults.
+ *
+ * Environment:
+ * - LLM_MODEL: model for every purpose
+ * - LLM_CONVERSATION_MODEL, LLM_EXTRACTION_MODEL, LLM_SUMMARY_MODEL, LLM_COMPACTION_MODEL
+ * - LLM_CONVERSATION_MAX_TOKENS, LLM_CONVERSATION_TEMPERATURE (same for other purposes)
+ * - LLM_CONVERSATION_CONTEXT_BUDGET: input token budget (default depends on the model)
+ */
+
+import { LLMConfig, LLMPurpose, LLMSettings } from './types.js';
+
+export const DEFAULT_LLM_SETTINGS: Record<LLMPurpose, Omit<LLMSettings, 'context_budget'>> = {
+  conversation: { model: 'gpt-4o-mini', temperature: 0.7, max_tokens: 150 }, // Keep responses short for voice
+  // Every field plus a confidence for each, as JSON
+  extraction: { model: 'gpt-4o-mini', temperature: 0.3, max_tokens: 400 },
+  summary: { model: 'gpt-4o-mini', temperature: 0.3, max_tokens: 150 },
+  // Up to 120 words of summary plus the pinned facts, as JSON
+  compaction: { model: 'gpt-4o-mini', temperature: 0.3, max_tokens: 500 },
+};
+
+// Input token budget per model, matched by longest prefix. Kept well below
+// the context window - a voice turn rarely needs more, and it caps cost.
+export const MODEL_CONTEXT_BUDGETS: Record<string, number> = {
+  'gpt-4o-mini': 6000,
+  'gpt-4o': 4000,
+  'gpt-4.1-mini': 6000,
+  'gpt-4.1-nano': 6000,
+  'gpt-4.1': 4000,
+  'gpt-3.5-turbo': 3000,
+};
+
+const DEFAULT_CONTEXT_BUDGET = 4000;
+
+export function modelContextBudget(model: string): number {
+  const prefix = Object.keys(MODEL_CONTEXT_BUDGETS)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_BUDGETS[prefix] : DEFAULT_CONTEXT_BUDGET;
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Settings for one completion
+ */
+export function resolveLLMSettings(purpose: LLMPurpose, propertyConfig?: LLMConfig | null): LLMSettings {
+  const defaults = DEFAULT_LLM_SETTINGS[purpose];
+  const prefix = `LLM_${purpose.toUpperCase()}`;
+  const override = propertyConfig?.[purpose];
+
+  const model = override?.model || process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model;
+
+  return {
+    model,
+    temperature: override?.temperature ?? envNumber(`${prefix}_TEMPERATURE`) ?? defaults.temperature,
+    max_tokens: override?.max_tokens ?? envNumber(`${prefix}_MAX_TOKENS`) ?? defaults.max_tokens,
+    context_budget: override?.context_budget ?? envNumber(`${prefix}_CONTEXT_BUDGET`) ?? modelContextBudget(model),
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for chat completions - the live conversation, ticket
+ * extraction and call summaries all go through here. Works with OpenAI or
+ * any OpenAI-compatible server (set LLM_BASE_URL for local or self-hosted
+ * models). Model settings come from ./config.ts.
+ *
+ * Set LLM_STRUCTURED_OUTPUT=false for servers without json_schema support.
+ *
+ * Includes: circuit breaker, retry logic, cost tracking
+ */
+
+import { config } from 'dotenv';
+import OpenAI from 'openai';
+import { getCircuitBreaker, withRetry, costTracker } from '../utils/index.js';
+import { resolveLLMSettings } from './config.js';
+import {
+  ChatCompletion,
+  ChatMessage,
+  CompleteChatOptions,
+  LLMTool,
+  LLMToolCall,
+  LLMUsage,
+  StreamChatOptions,
+} from './types.js';
+
+export type {
+  LLMPurpose,
+  LLMConfig,
+  LLMSettings,
+  LLMUsage,
+  ChatMessage,
+  ChatCompletion,
+  LLMTool,
+  LLMToolCall,
+  StreamChatOptions,
+  CompleteChatOptions,
+} from './types.js';
+export { resolveLLMSettings, DEFAULT_LLM_SETTINGS, modelContextBudget } from './config.js';
+export { estimateTokens, estimateMessageTokens, estimateMessagesTokens } from './tokens.js';
+
+config();
+
+let client: OpenAI;
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '',
+      baseURL: process.env.LLM_BASE_URL || undefined,
+    });
+  }
+  return client;
+}
+
+// Timeout for streaming responses to prevent indefinite hangs
+const STREAM_TIMEOUT_MS = 30000; // 30 seconds
+
+// Timeout for one-shot completions (extraction, summaries)
+const COMPLETION_TIMEOUT_MS = 20000;
+
+// Servers that reject json_schema response formats - remembered per process
+let structuredOutputUnsupported = process.env.LLM_STRUCTURED_OUTPUT === 'false';
+
+const RETRYABLE_ERRORS = ['429', '500', '502', '503', '504', 'timeout', 'ECONNRESET'];
+
+// Circuit breaker for the LLM backend
+const llmCircuit = getCircuitBreaker('openai', {
+  failureThreshold: 3,
+  successThreshold: 2,
+  timeout: 30000, // 30 seconds before retry
+  onStateChange: (name, from, to) => {
+    console.log(`[LLM Circuit] ${from} → ${to}`);
+  },
+});
+
+/**
+ * Convert conversation history to the API's message format.
+ * Tool results whose call was trimmed from history are dropped - the API
+ * rejects a tool message without the assistant turn that requested it.
+ */
+function toApiMessages(systemPrompt: string, messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  const result: OpenAI.Chat.ChatCompletionMessageParam[] = [{ role: 'system', content: systemPrompt }];
+  const knownCallIds = new Set<string>();
+
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      if (!m.tool_call_id || !knownCallIds.has(m.tool_call_id)) continue;
+      result.push({ role: 'tool', tool_call_id: m.tool_call_id, content: m.content });
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      m.tool_calls.forEach((call) => knownCallIds.add(call.id));
+      result.push({
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.tool_calls.map((call) => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+    } else {
+      result.push({ role: m.role as 'user' | 'assistant', content: m.content });
+    }
+  }
+  return result;
+}
+
+function toApiTools(tools?: LLMTool[]): OpenAI.Chat.ChatCompletionTool[] | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Stream a chat completion token by token. Only a stream that fails before
+ * its first token is retried - the tokens already sent are being spoken.
+ */
+export async function streamChat(options: StreamChatOptions): Promise<void> {
+  const sessionId = options.sessionId || 'unknown';
+  let started = false;
+  const tracked: StreamChatOptions = {
+    ...options,
+    onToken: (token) => {
+      started = true;
+      options.onToken(token);
+    },
+  };
+
+  // Use circuit breaker to protect against repeated failures
+  return llmCircuit.execute(async () => {
+    const failedMidStream = await withRetry(
+      async () => {
+        try {
+          await streamChatWithTracking(tracked, sessionId);
+          return null;
+        } catch (error) {
+          // Handed back rather than thrown so withRetry doesn't run it again
+          if (started) return error as Error;
+          throw error;
+        }
+      },
+      {
+        maxRetries: 2,
+        baseDelayMs: 500,
+        retryableErrors: RETRYABLE_ERRORS,
+        onRetry: (attempt, error, delayMs) => {
+          console.log(`[LLM:${sessionId.slice(0, 8)}] Retry ${attempt} after ${delayMs}ms: ${error.message}`);
+        },
+      }
+    );
+    if (failedMidStream) throw failedMidStream;
+  });
+}
+
+/**
+ * Run a chat completion and return the whole response
+ */
+export async function completeChat(options: CompleteChatOptions): Promise<ChatCompletion> {
+  const sessionId = options.sessionId || 'unknown';
+
+  return llmCircuit.execute(async () => {
+    return withRetry(
+      async () => completeChatWithTracking(options, sessionId),
+      {
+        maxRetries: 2,
+        baseDelayMs: 500,
+        retryableErrors: RETRYABLE_ERRORS,
+        onRetry: (attempt, error, delayMs) => {
+          console.log(`[LLM:${sessionId.slice(0, 8)}] Retry ${attempt} after ${delayMs}ms: ${error.message}`);
+        },
+      }
+    );
+  });
+}
+
+async function streamChatWithTracking(options: StreamChatOptions, sessionId: string): Promise<void> {
+  const { systemPrompt, messages, tools, onToken, onDone, signal } = options;
+  if (signal?.aborted) return;
+
+  const settings = resolveLLMSettings(options.purpose, options.config);
+
+  // Estimate input tokens (rough: ~4 chars per token)
+  const inputText = systemPrompt + messages.map((m) => m.content).join(' ');
+  const estimatedInputTokens = Math.ceil(inputText.length / 4);
+  let outputTokens = 0;
+
+  // Create AbortController with timeout to prevent indefinite hangs
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort();
+  }, STREAM_TIMEOUT_MS);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort);
+
+  try {
+    const stream = await getClient().chat.completions.create({
+      model: settings.model,
+      messages: toApiMessages(systemPrompt, messages),
+      tools: toApiTools(tools),
+      max_tokens: settings.max_tokens,
+      temperature: settings.temperature,
+      stream: true,
+      stream_options: { include_usage: true },
+    }, {
+      signal: controller.signal,
+    });
+
+    let usage: LLMUsage | undefined;
+    // Tool call deltas arrive in pieces, keyed by index
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      const delta = chunk.choices[0]?.delta;
+      const token = delta?.content || '';
+      if (token) {
+        onToken(token);
+        outputTokens++;
+      }
+
+      for (const part of delta?.tool_calls || []) {
+        const call = (toolCalls[part.index] ||= { id: '', name: '', arguments: '' });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      }
+
+      // Capture usage from final chunk
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens,
+        };
+      }
+    }
+
+    // Track cost
+    const finalInputTokens = usage?.prompt_tokens || estimatedInputTokens;
+    const finalOutputTokens = usage?.completion_tokens || outputTokens;
+    costTracker.trackOpenAI(sessionId, finalInputTokens, finalOutputTokens, settings.model);
+
+    if (signal?.aborted) {
+      console.log(`[LLM:${sessionId.slice(0, 8)}] Stream aborted by caller`);
+      return;
+    }
+    const completedCalls = toolCalls.filter((call) => call && call.name);
+    onDone(usage, completedCalls.length ? completedCalls : undefined);
+  } catch (error) {
+    // Aborted on purpose - not a failure
+    if (signal?.aborted) {
+      console.log(`[LLM:${sessionId.slice(0, 8)}] Stream aborted by caller`);
+      costTracker.trackOpenAI(sessionId, estimatedInputTokens, outputTokens, settings.model);
+      return;
+    }
+    // Handle abort specifically
+    if (error instanceof Error && error.name === 'AbortError') {
+      console.error(`[LLM:${sessionId.slice(0, 8)}] Stream timed out after ${STREAM_TIMEOUT_MS}ms`);
+      throw new Error('LLM response timeout');
+    }
+    console.error(`[LLM:${sessionId.slice(0, 8)}] Streaming error:`, error);
+    throw error;
+  } finally {
+    // Always clear the timeout to prevent memory leaks
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+async function completeChatWithTracking(options: CompleteChatOptions, sessionId: string): Promise<ChatCompletion> {
+  const { systemPrompt, messages, jsonSchema } = options;
+  const settings = resolveLLMSettings(options.purpose, options.config);
+  const structured = !!jsonSchema && !structuredOutputUnsupported;
+
+  const request = (withSchema: boolean) =>
+    getClient().chat.completions.create({
+      model: settings.model,
+      messages: toApiMessages(
+        // Without enforcement, spell the schema out for the model
+        jsonSchema && !withSchema
+          ? `${systemPrompt}\n\nRespond with JSON only, matching this schema:\n${JSON.stringify(jsonSchema.schema)}`
+          : systemPrompt,
+        messages
+      ),
+      max_tokens: settings.max_tokens,
+      temperature: settings.temperature,
+      response_format: withSchema && jsonSchema
+        ? { type: 'json_schema', json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true } }
+        : undefined,
+    }, {
+      timeout: COMPLETION_TIMEOUT_MS,
+    });
+
+  let response: OpenAI.Chat.ChatCompletion;
+  let enforced = structured;
+  try {
+    response = await request(structured);
+  } catch (error) {
+    // Server doesn't do structured output - fall back to prompting for JSON
+    if (!structured || !(error instanceof OpenAI.BadRequestError) || !/response_format|json_schema/i.test(error.message)) {
+      throw error;
+    }
+    console.warn(`[LLM:${sessionId.slice(0, 8)}] Structured output not supported by ${settings.model}, falling back`);
+    structuredOutputUnsupported = true;
+    enforced = false;
+    response = await request(false);
+  }
+
+  const usage: LLMUsage | undefined = response.usage
+    ? {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: response.usage.completion_tokens,
+        total_tokens: response.usage.total_tokens,
+      }
+    : undefined;
+
+  if (usage) {
+    costTracker.trackOpenAI(sessionId, usage.prompt_tokens, usage.completion_tokens, settings.model);
+  }
+
+  return {
+    content: response.choices[0]?.message?.content || '',
+    model: settings.model,
+    structured: jsonSchema ? enforced : undefined,
+    truncated: response.choices[0]?.finish_reason === 'length',
+    usage,
+  };
+}
+
+// Export circuit stats for health endpoint
+export function getLLMCircuitStats() {
+  return llmCircuit.stats;
+}
@@ -0,0 +1,28 @@
+/**
+ * LLM Gateway - Token Estimates
+ *
+ * Rough token counts for budgeting context (~4 characters per token for
+ * English, plus a few tokens of framing per message). Good enough to keep
+ * prompts under a budget without shipping a tokenizer.
+ */
+
+import { ChatMessage } from './types.js';
+
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_MESSAGE = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  const toolCalls = (message.tool_calls || []).reduce(
+    (total, call) => total + estimateTokens(call.name + call.arguments),
+    0
+  );
+  return TOKENS_PER_MESSAGE + estimateTokens(message.content) + toolCalls;
+}
+
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
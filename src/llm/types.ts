@@ -0,0 +1,84 @@
+/**
+ * LLM Gateway Types
+ *
+ * Shared types for chat completions across every call site.
+ */
+
+// What the completion is for - each purpose has its own model settings.
+// compaction = the running summary of a long call, with its pinned facts
+export type LLMPurpose = 'conversation' | 'extraction' | 'summary' | 'compaction';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  // Assistant turns that called tools
+  tool_calls?: LLMToolCall[];
+  // Tool results - the call this answers
+  tool_call_id?: string;
+}
+
+// A function the model may call (JSON Schema parameters)
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  // Raw JSON string as produced by the model
+  arguments: string;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Resolved settings for one completion
+export interface LLMSettings {
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  // Most input tokens (prompt + history) to send - older turns get summarized
+  context_budget: number;
+}
+
+// Per-property LLM overrides (properties.voice_config.llm), keyed by purpose
+export type LLMConfig = Partial<Record<LLMPurpose, Partial<LLMSettings>>>;
+
+interface ChatRequest {
+  sessionId?: string;
+  purpose: LLMPurpose;
+  // Property overrides, merged over environment defaults
+  config?: LLMConfig | null;
+  systemPrompt: string;
+  messages: ChatMessage[];
+}
+
+export interface StreamChatOptions extends ChatRequest {
+  tools?: LLMTool[];
+  onToken: (token: string) => void;
+  // toolCalls is set when the model called tools instead of (or after) speaking
+  onDone: (usage?: LLMUsage, toolCalls?: LLMToolCall[]) => void;
+  // Aborting stops the stream without calling onDone (e.g. caller barged in)
+  signal?: AbortSignal;
+}
+
+export interface CompleteChatOptions extends ChatRequest {
+  // Ask for JSON matching this schema. Uses strict structured output when the
+  // provider supports it; otherwise the schema is only a hint in the prompt.
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+}
+
+export interface ChatCompletion {
+  content: string;
+  model: string;
+  // Whether the provider enforced jsonSchema
+  structured?: boolean;
+  // Cut off at max_tokens
+  truncated?: boolean;
+  usage?: LLMUsage;
+}
@@ -0,0 +1,58 @@
+/**
+ * Locales - Language Detection
+ *
+ * Lightweight detection from a transcript: counts common function words
+ * and language-specific characters. Phone utterances are short, so this
+ * only reports a language when one clearly wins.
+ */
+
+import { SupportedLanguage } from './types.js';
+
+export interface DetectedLanguage {
+  language: SupportedLanguage;
+  // 0 to 1 - share of words that point at this language over the others
+  confidence: number;
+}
+
+const MARKER_WORDS: Record<SupportedLanguage, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'my', 'to', 'of', 'in', 'it', 'i', 'have', 'there', 'with', 'for', 'this',
+    'that', 'you', 'yes', 'hi', 'hello', 'thanks', 'thank', 'please', 'what', 'can', 'was', 'are',
+    'not', 'hey', 'name', 'need', 'broken', 'leaking', 'water', 'call', 'just', "it's", "i'm", 'okay',
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'para', 'con', 'sí',
+    'si', 'mi', 'tengo', 'está', 'esta', 'hay', 'hola', 'gracias', 'buenos', 'buenas', 'días', 'se',
+    'nombre', 'llamo', 'soy', 'baño', 'cocina', 'agua', 'necesito', 'porque', 'pero', 'muy',
+    'bueno', 'del', 'al', 'como', 'quiero', 'favor', 'también', 'departamento', 'apartamento',
+  ]),
+};
+
+// Characters that only show up in one of the languages
+const MARKER_CHARS: Partial<Record<SupportedLanguage, RegExp>> = {
+  es: /[ñ¿¡áéíóú]/i,
+};
+
+/**
+ * Detect which of `candidates` the text is in, or null if it's unclear
+ */
+export function detectLanguage(text: string, candidates: SupportedLanguage[]): DetectedLanguage | null {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}']+/u)
+    .filter(Boolean);
+  if (words.length === 0 || candidates.length === 0) return null;
+
+  const scores = candidates.map((language) => {
+    let score = words.filter((word) => MARKER_WORDS[language].has(word)).length;
+    if (MARKER_CHARS[language]?.test(text)) score += 1;
+    return { language, score };
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0 || best.score === runnerUp?.score) return null;
+
+  const margin = best.score - (runnerUp?.score || 0);
+  return { language: best.language, confidence: Math.min(margin / words.length, 1) };
+}
@@ -0,0 +1,97 @@
+/**
+ * Locales
+ *
+ * Supported caller languages, the fixed messages in each, and the language
+ * settings for a property.
+ *
+ * Environment:
+ * - SUPPORTED_LANGUAGES: comma-separated caller languages (default: en,es)
+ * - DEFAULT_LANGUAGE: language calls start in (default: en)
+ * - MANAGER_LANGUAGE: language for work orders and summaries (default: en)
+ */
+
+import { config } from 'dotenv';
+import { MESSAGES, Messages } from './messages.js';
+import { SUPPORTED_LANGUAGES, SupportedLanguage, LanguageConfig } from './types.js';
+
+config();
+
+export type { SupportedLanguage, LanguageConfig } from './types.js';
+export type { Messages } from './messages.js';
+export type { DetectedLanguage } from './detect.js';
+export { SUPPORTED_LANGUAGES } from './types.js';
+export { detectLanguage } from './detect.js';
+
+interface LanguageInfo {
+  // English name, for LLM instructions
+  name: string;
+  // Deepgram language code
+  sttCode: string;
+  // Locale for Intl date and time formatting
+  intlLocale: string;
+}
+
+const LANGUAGES: Record<SupportedLanguage, LanguageInfo> = {
+  en: { name: 'English', sttCode: 'en-US', intlLocale: 'en-US' },
+  es: { name: 'Spanish', sttCode: 'es', intlLocale: 'es-US' },
+};
+
+export interface ResolvedLanguageConfig {
+  supported: SupportedLanguage[];
+  default: SupportedLanguage;
+  manager: SupportedLanguage;
+}
+
+/**
+ * Normalize a language code ("es-MX", "ES") to a supported language
+ */
+export function toSupportedLanguage(code: string | null | undefined): SupportedLanguage | null {
+  const base = (code || '').trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(base) ? (base as SupportedLanguage) : null;
+}
+
+function parseLanguageList(value: string | undefined): SupportedLanguage[] {
+  const languages = (value || '')
+    .split(',')
+    .map((code) => toSupportedLanguage(code))
+    .filter((language): language is SupportedLanguage => !!language);
+  return [...new Set(languages)];
+}
+
+/**
+ * Language settings for a property: voice_config.languages over env defaults
+ */
+export function resolveLanguageConfig(propertyConfig?: LanguageConfig | null): ResolvedLanguageConfig {
+  const fromEnv = parseLanguageList(process.env.SUPPORTED_LANGUAGES);
+  const fromProperty = (propertyConfig?.supported || [])
+    .map((code) => toSupportedLanguage(code))
+    .filter((language): language is SupportedLanguage => !!language);
+
+  const supported: SupportedLanguage[] = fromProperty.length > 0 ? fromProperty : fromEnv.length > 0 ? fromEnv : ['en', 'es'];
+  const defaultLanguage =
+    toSupportedLanguage(propertyConfig?.default) || toSupportedLanguage(process.env.DEFAULT_LANGUAGE) || 'en';
+  const manager =
+    toSupportedLanguage(propertyConfig?.manager) || toSupportedLanguage(process.env.MANAGER_LANGUAGE) || 'en';
+
+  return {
+    supported: supported.includes(defaultLanguage) ? supported : [defaultLanguage, ...supported],
+    default: defaultLanguage,
+    manager,
+  };
+}
+
+export function getMessages(language: SupportedLanguage): Messages {
+  return MESSAGES[language] || MESSAGES.en;
+}
+
+export function languageName(language: SupportedLanguage): string {
+  return LANGUAGES[language]?.name || LANGUAGES.en.name;
+}
+
+export function sttLanguageCode(language: SupportedLanguage): string {
+  return LANGUAGES[language]?.sttCode || LANGUAGES.en.sttCode;
+}
+
+export function intlLocale(language: SupportedLanguage): string {
+  return LANGUAGES[language]?.intlLocale || LANGUAGES.en.intlLocale;
+}
@@ -0,0 +1,111 @@
+/**
+ * Locales - Fixed Messages
+ *
+ * Everything the assistant says or texts that doesn't come from the LLM.
+ * Add a language by adding it to SUPPORTED_LANGUAGES and filling in a
+ * Messages entry here.
+ */
+
+import { SupportedLanguage } from './types.js';
+import { AfterHoursPolicy } from '../business-hours/types.js';
+
+export interface Messages {
+  // notice: said before the question, e.g. that the office is closed
+  greetingKnown: (firstName: string, aiName: string, company: string, notice?: string) => string;
+  greetingUnknown: (aiName: string, company: string, notice?: string) => string;
+  // Office closed - what happens instead. `when` is the next opening (see opensAt).
+  afterHours: Record<AfterHoursPolicy, (when: string | null) => string>;
+  // "tomorrow at 8:00 AM" - day is "today", "tomorrow" or a weekday name
+  opensAt: (day: string, time: string, isWeekday: boolean) => string;
+  // Said in this language after a greeting in another one
+  languageHint: string;
+  errorRepeat: string;
+  softLimit: string;
+  hardLimit: string;
+  // Said before handing the call to a person
+  transferConnecting: string;
+  // Nobody picked up - the assistant takes a message instead
+  transferUnavailable: string;
+  mediaGreeting: (firstName: string | null) => string;
+  mediaRequest: Record<string, string>;
+  // Sample replies - steer the model's tone and language
+  responseExamples: string[];
+  // A reply containing one of these sounds like the end of the call
+  closingPhrases: string[];
+}
+
+export const MESSAGES: Record<SupportedLanguage, Messages> = {
+  en: {
+    greetingKnown: (firstName, aiName, company, notice) =>
+      `Hey ${firstName}, this is ${aiName} from ${company}.${notice ? ` ${notice}` : ''} How can I help you today?`,
+    greetingUnknown: (aiName, company, notice) =>
+      `Hi, this is ${aiName} from ${company}.${notice ? ` ${notice}` : ''} Who am I speaking with?`,
+    afterHours: {
+      emergency_only: (when) =>
+        `Our office is closed right now, so I can only take urgent maintenance problems${when ? ` - for anything else, please call back ${when}` : ''}.`,
+      take_message: (when) =>
+        `Our office is closed right now, but I can take a message and someone will call you back${when ? ` ${when}` : ' when we open'}.`,
+      forward_on_call: () => "Our office is closed right now, but I can take a message or get you to our on-call team if it's urgent.",
+    },
+    opensAt: (day, time) => `${day} at ${time}`,
+    languageHint: 'For English, just speak in English.',
+    errorRepeat: "I'm sorry, I'm having trouble. Could you repeat that?",
+    softLimit: `Hey, I just want to make sure I'm helping you as best I can. We've been chatting for a bit - if you'd prefer, you can also text this number anytime and I can help you that way too. It's totally up to you - I'm happy to keep talking or you can reach out via text whenever it's convenient. Is there anything else you need help with right now?`,
+    hardLimit: `I've really enjoyed helping you today. I want to make sure the property manager can review everything we discussed. I'm going to wrap up our call now, but remember you can always text this number if you think of anything else. Take care!`,
+    transferConnecting: "Sure, let me get someone for you. One moment.",
+    transferUnavailable: "Sorry, I couldn't reach anyone right now. I can take a message and make sure it gets passed on - what would you like them to know?",
+    mediaGreeting: (firstName) => `${firstName ? `Hi ${firstName}!` : 'Hi!'} Thanks for calling! `,
+    mediaRequest: {
+      plumbing_leak: "If you can safely take a photo or quick video of the leak, it'll help us send the right person with the right tools. Just reply to this text with the photo when you can!",
+      structural: 'A photo of the issue would really help us assess it better. Just reply to this text with a picture when you have a moment!',
+      appliance: "If you can snap a photo of the appliance (and any error codes if there are any), it'll help us figure out exactly what's going on. Just reply with the pic!",
+      pest: "If you're able to safely get a photo (no need to get too close!), it'll help us identify exactly what we're dealing with. Just reply with the pic!",
+      electrical: "If it's safe to do so, a photo of the outlet/switch would help us assess the issue. Just reply with the pic when you can!",
+      default: "If you can send us a photo of the issue, it'll really help us get this sorted faster. Just reply to this text with the pic!",
+    },
+    responseExamples: [
+      'Got it. Can I get your name?',
+      'Okay, what can I help you with?',
+      "Alright, I'll make sure someone takes care of that. Anything else?",
+      "No problem, we'll get that handled for you.",
+    ],
+    closingPhrases: ['anything else', 'have a good', 'take care', 'bye', 'goodbye', "we'll get", "we'll take care", 'someone will', 'is there anything'],
+  },
+
+  es: {
+    greetingKnown: (firstName, aiName, company, notice) =>
+      `Hola ${firstName}, habla ${aiName} de ${company}.${notice ? ` ${notice}` : ''} ¿En qué le puedo ayudar hoy?`,
+    greetingUnknown: (aiName, company, notice) =>
+      `Hola, habla ${aiName} de ${company}.${notice ? ` ${notice}` : ''} ¿Con quién hablo?`,
+    afterHours: {
+      emergency_only: (when) =>
+        `La oficina está cerrada ahora, así que solo puedo tomar problemas de mantenimiento urgentes${when ? ` - para todo lo demás, llame de nuevo ${when}` : ''}.`,
+      take_message: (when) =>
+        `La oficina está cerrada ahora, pero puedo tomar un mensaje y alguien le devolverá la llamada${when ? ` ${when}` : ' cuando abramos'}.`,
+      forward_on_call: () => 'La oficina está cerrada ahora, pero puedo tomar un mensaje o comunicarle con el equipo de guardia si es urgente.',
+    },
+    opensAt: (day, time, isWeekday) => `${isWeekday ? 'el ' : ''}${day} a las ${time}`,
+    languageHint: 'Para español, hable en español.',
+    errorRepeat: 'Disculpe, tengo un problema. ¿Me lo puede repetir?',
+    softLimit: `Solo quiero asegurarme de que le estoy ayudando lo mejor posible. Llevamos un rato hablando - si prefiere, también puede mandar un mensaje de texto a este número cuando quiera y le ayudo por ahí. Usted decide - con gusto sigo hablando, o me escribe cuando le convenga. ¿Hay algo más en que le pueda ayudar ahora?`,
+    hardLimit: `Fue un gusto ayudarle hoy. Quiero asegurarme de que el administrador pueda revisar todo lo que hablamos, así que voy a terminar la llamada. Recuerde que siempre puede mandar un mensaje de texto a este número si se le ocurre algo más. ¡Que le vaya bien!`,
+    transferConnecting: 'Claro, le comunico con alguien. Un momento, por favor.',
+    transferUnavailable: 'Disculpe, no pude comunicarme con nadie en este momento. Puedo tomar un mensaje y asegurarme de que lo reciban - ¿qué quiere que les diga?',
+    mediaGreeting: (firstName) => `${firstName ? `¡Hola ${firstName}!` : '¡Hola!'} ¡Gracias por llamar! `,
+    mediaRequest: {
+      plumbing_leak: 'Si puede tomar una foto o un video corto de la fuga sin riesgo, nos ayuda a mandar a la persona correcta con las herramientas correctas. ¡Solo responda a este mensaje con la foto!',
+      structural: 'Una foto del problema nos ayudaría mucho a evaluarlo. ¡Solo responda a este mensaje con una foto cuando pueda!',
+      appliance: 'Si puede tomar una foto del aparato (y de cualquier código de error), nos ayuda a saber exactamente qué pasa. ¡Solo responda con la foto!',
+      pest: 'Si puede tomar una foto sin riesgo (¡no hace falta acercarse mucho!), nos ayuda a identificar qué es. ¡Solo responda con la foto!',
+      electrical: 'Si es seguro, una foto del enchufe o interruptor nos ayudaría a evaluar el problema. ¡Solo responda con la foto cuando pueda!',
+      default: 'Si nos puede mandar una foto del problema, nos ayuda a resolverlo más rápido. ¡Solo responda a este mensaje con la foto!',
+    },
+    responseExamples: [
+      'Entendido. ¿Me puede dar su nombre?',
+      'Muy bien, ¿en qué le puedo ayudar?',
+      'Perfecto, me aseguro de que alguien se encargue. ¿Algo más?',
+      'No se preocupe, nos encargamos de eso.',
+    ],
+    closingPhrases: ['algo más', 'que le vaya bien', 'cuídese', 'adiós', 'hasta luego', 'nos encargamos', 'alguien se', 'buen día', 'buenas noches'],
+  },
+};
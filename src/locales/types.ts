@@ -0,0 +1,16 @@
+/**
+ * Locale Types
+ */
+
+export const SUPPORTED_LANGUAGES = ['en', 'es'] as const;
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+
+// Per-property language settings (properties.voice_config.languages)
+export interface LanguageConfig {
+  // Languages callers may use - more than one enables detection and switching
+  supported?: SupportedLanguage[];
+  // Language the call starts in
+  default?: SupportedLanguage;
+  // Language the property manager reads (work orders, summaries)
+  manager?: SupportedLanguage;
+}
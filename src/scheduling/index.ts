@@ -0,0 +1,341 @@
+/**
+ * Scheduling
+ *
+ * Books maintenance visits during the call. Vendors and the in-house team
+ * have weekly availability windows (availability_windows); these are cut into
+ * arrival slots in the property's timezone, skipping holidays, slots too soon
+ * to staff and slots already booked. The agent offers a few that match what
+ * the caller asked for and books the one they pick onto the work order, with
+ * permission to enter and any pet or access notes.
+ *
+ * Environment (overridden per property by voice_config.scheduling):
+ * - SCHEDULING_SLOT_MINUTES: length of an arrival window (default 120)
+ * - SCHEDULING_DAYS_AHEAD: how far ahead to offer appointments (default 14)
+ * - SCHEDULING_LEAD_HOURS: earliest an appointment can start, from now (default 12)
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { zonedParts, addDays, zonedTimeToUtc } from '../utils/timezone.js';
+import { resolveBusinessHours, ResolvedBusinessHours } from '../business-hours/index.js';
+import { intlLocale, SupportedLanguage } from '../locales/index.js';
+import { PropertyContext, TenantContext } from '../voice-session/types.js';
+import { AppointmentSlot, AvailabilityWindow, ResolvedSchedulingConfig, SchedulingConfig, TimePreference } from './types.js';
+
+config();
+
+export type {
+  SchedulingConfig,
+  ResolvedSchedulingConfig,
+  AvailabilityWindow,
+  AppointmentSlot,
+  TimePreference,
+} from './types.js';
+export { parseTimePreference } from './spoken-time.js';
+
+const DEFAULT_SLOT_MINUTES = 120;
+const DEFAULT_DAYS_AHEAD = 14;
+const DEFAULT_LEAD_HOURS = 12;
+
+// Slots offered at once - more is hard to follow on the phone
+const MAX_OFFERED_SLOTS = 3;
+
+// Work orders whose appointment no longer holds a slot
+const INACTIVE_STATUSES = ['completed', 'cancelled', 'closed'];
+
+// Postgres exclusion violation - another booking for the provider overlaps
+// (see supabase/migrations/20261019000019_appointments.sql)
+const OVERLAPPING_BOOKING = '23P01';
+
+let supabase: SupabaseClient;
+
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    supabase = createClient(process.env.SUPABASE_URL || '', process.env.SUPABASE_SERVICE_ROLE_KEY || '');
+  }
+  return supabase;
+}
+
+function positiveNumber(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const number = Number(value);
+    if (value !== undefined && value !== '' && Number.isFinite(number) && number > 0) return number;
+  }
+  return undefined;
+}
+
+/**
+ * A property's scheduling settings: voice_config.scheduling over env defaults
+ */
+export function resolveSchedulingConfig(propertyConfig?: SchedulingConfig | null): ResolvedSchedulingConfig {
+  return {
+    enabled: propertyConfig?.enabled !== false,
+    slotMinutes: positiveNumber(propertyConfig?.slot_minutes, process.env.SCHEDULING_SLOT_MINUTES) || DEFAULT_SLOT_MINUTES,
+    daysAhead: positiveNumber(propertyConfig?.days_ahead, process.env.SCHEDULING_DAYS_AHEAD) || DEFAULT_DAYS_AHEAD,
+    leadHours: positiveNumber(propertyConfig?.lead_hours, process.env.SCHEDULING_LEAD_HOURS) || DEFAULT_LEAD_HOURS,
+  };
+}
+
+function parseClock(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Every slot the windows offer, booked or not, from now to daysAhead days out
+ */
+export function generateSlots(
+  windows: AvailabilityWindow[],
+  calendar: ResolvedBusinessHours,
+  settings: ResolvedSchedulingConfig,
+  now = new Date()
+): AppointmentSlot[] {
+  const local = zonedParts(now, calendar.timezone);
+  const earliest = now.getTime() + settings.leadHours * 60 * 60 * 1000;
+  const slots: AppointmentSlot[] = [];
+
+  for (let daysAhead = 0; daysAhead <= settings.daysAhead; daysAhead++) {
+    const date = addDays(local, daysAhead);
+    if (calendar.holidays.has(date)) continue;
+    const weekday = (local.weekday + daysAhead) % 7;
+
+    for (const window of windows) {
+      if (window.weekday !== weekday) continue;
+      const open = parseClock(window.start_time);
+      const close = parseClock(window.end_time);
+      if (open === null || close === null) continue;
+
+      for (let start = open; start + settings.slotMinutes <= close; start += settings.slotMinutes) {
+        const slotStart = zonedTimeToUtc(date, start, calendar.timezone);
+        if (slotStart.getTime() < earliest) continue;
+        slots.push({
+          date,
+          startMinutes: start,
+          endMinutes: start + settings.slotMinutes,
+          start: slotStart,
+          end: zonedTimeToUtc(date, start + settings.slotMinutes, calendar.timezone),
+          windowId: window.id,
+          vendorId: window.vendor_id,
+          provider: window.vendor?.name || window.team,
+        });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Whether a slot fits what the caller asked for
+ */
+export function matchesPreference(slot: AppointmentSlot, preference: TimePreference, timezone: string): boolean {
+  if (preference.dates && (slot.date < preference.dates.from || slot.date > preference.dates.to)) return false;
+  if (preference.weekdays && !preference.weekdays.includes(zonedParts(slot.start, timezone).weekday)) return false;
+  if (preference.from !== null && slot.endMinutes <= preference.from) return false;
+  if (preference.to !== null && slot.startMinutes >= preference.to) return false;
+  return true;
+}
+
+interface Booking {
+  id: string;
+  scheduled_date: string;
+  scheduled_end: string | null;
+  vendor_id: string | null;
+  availability_window_id: string | null;
+}
+
+async function fetchWindows(propertyContext: PropertyContext, category: string | null): Promise<AvailabilityWindow[]> {
+  const { data, error } = await getSupabase()
+    .from('availability_windows')
+    .select('*, vendor:vendors(name)')
+    .eq('user_id', propertyContext.user_id)
+    .or(`property_id.is.null,property_id.eq.${propertyContext.id}`);
+
+  if (error) throw new Error(`Failed to fetch availability: ${error.message}`);
+  return ((data || []) as AvailabilityWindow[]).filter(
+    (window) => !window.categories?.length || (!!category && window.categories.includes(category))
+  );
+}
+
+/**
+ * Bookings that overlap from-to. One without an end is taken to last a slot.
+ */
+async function fetchBookings(userId: string, from: Date, to: Date, slotMinutes: number): Promise<Booking[]> {
+  const openEndedFrom = new Date(from.getTime() - slotMinutes * 60 * 1000);
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .select('id, scheduled_date, scheduled_end, vendor_id, availability_window_id')
+    .eq('user_id', userId)
+    .lt('scheduled_date', to.toISOString())
+    .or(
+      `scheduled_end.gt.${from.toISOString()},` +
+        `and(scheduled_end.is.null,scheduled_date.gt.${openEndedFrom.toISOString()})`
+    )
+    .not('status', 'in', `(${INACTIVE_STATUSES.join(',')})`);
+
+  if (error) throw new Error(`Failed to fetch bookings: ${error.message}`);
+  return (data || []) as Booking[];
+}
+
+// Same vendor (whichever of their windows it came from), or the same team window
+function isTaken(slot: AppointmentSlot, bookings: Booking[], slotMinutes: number, ignoreWorkOrderId?: string): boolean {
+  return bookings.some((booking) => {
+    if (booking.id === ignoreWorkOrderId) return false;
+    const sameProvider = slot.vendorId ? booking.vendor_id === slot.vendorId : booking.availability_window_id === slot.windowId;
+    if (!sameProvider) return false;
+    const start = new Date(booking.scheduled_date).getTime();
+    const end = booking.scheduled_end ? new Date(booking.scheduled_end).getTime() : start + slotMinutes * 60 * 1000;
+    return start < slot.end.getTime() && end > slot.start.getTime();
+  });
+}
+
+export interface SchedulableWorkOrder {
+  id: string;
+  title: string;
+  category: string | null;
+  status: string;
+  scheduled_date: string | null;
+}
+
+/**
+ * The tenant's work order, to check it can still be scheduled
+ */
+export async function getSchedulableWorkOrder(workOrderId: string, tenantId: string): Promise<SchedulableWorkOrder | null> {
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .select('id, title, category, status, scheduled_date')
+    .eq('id', workOrderId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch work order: ${error.message}`);
+  return data as SchedulableWorkOrder | null;
+}
+
+export function isSchedulable(workOrder: SchedulableWorkOrder): boolean {
+  return !INACTIVE_STATUSES.includes(workOrder.status) && workOrder.status !== 'in_progress';
+}
+
+interface FindSlotsParams {
+  propertyContext: PropertyContext;
+  // Work order category - windows limited to other categories are skipped
+  category: string | null;
+  preference: TimePreference;
+  now?: Date;
+}
+
+/**
+ * Open slots that fit the caller's preference, earliest first, one per
+ * start time
+ */
+export async function findAvailableSlots(params: FindSlotsParams): Promise<AppointmentSlot[]> {
+  const { propertyContext, category, preference, now = new Date() } = params;
+  const settings = resolveSchedulingConfig(propertyContext.voice_config?.scheduling);
+  const calendar = resolveBusinessHours(propertyContext.voice_config?.business_hours);
+
+  const windows = await fetchWindows(propertyContext, category);
+  if (windows.length === 0) return [];
+
+  const candidates = generateSlots(windows, calendar, settings, now).filter((slot) =>
+    matchesPreference(slot, preference, calendar.timezone)
+  );
+  if (candidates.length === 0) return [];
+
+  const bookings = await fetchBookings(
+    propertyContext.user_id,
+    candidates[0].start,
+    candidates[candidates.length - 1].end,
+    settings.slotMinutes
+  );
+
+  const offered: AppointmentSlot[] = [];
+  for (const slot of candidates) {
+    if (offered.some((other) => other.start.getTime() === slot.start.getTime())) continue;
+    if (isTaken(slot, bookings, settings.slotMinutes)) continue;
+    offered.push(slot);
+    if (offered.length === MAX_OFFERED_SLOTS) break;
+  }
+  return offered;
+}
+
+/**
+ * A slot as the caller hears it: "Tuesday, October 20, between 1:00 and 3:00 PM",
+ * "martes, 20 de octubre, 13:00–15:00"
+ */
+export function describeSlot(slot: AppointmentSlot, timezone: string, language: SupportedLanguage = 'en'): string {
+  const locale = intlLocale(language);
+  const day = new Intl.DateTimeFormat(locale, { weekday: 'long', month: 'long', day: 'numeric', timeZone: timezone }).format(
+    slot.start
+  );
+  const range = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone: timezone }).formatRange(
+    slot.start,
+    slot.end
+  );
+  return language === 'en' ? `${day}, between ${range.replace(/\s*[–-]\s*/, ' and ')}` : `${day}, ${range}`;
+}
+
+interface BookAppointmentParams {
+  workOrderId: string;
+  propertyContext: PropertyContext;
+  tenantContext: TenantContext;
+  slot: AppointmentSlot;
+  // null = the caller wasn't asked or didn't say
+  permissionToEnter: boolean | null;
+  // Pets, gate codes, parking, where the key is...
+  accessNotes: string | null;
+}
+
+export type BookingResult = 'booked' | 'taken' | 'failed';
+
+/**
+ * Book a slot onto the tenant's work order, unless someone took it since
+ * it was offered. Two callers booking the same slot at once can both pass
+ * the re-check; the database's exclusion constraints turn the second away.
+ */
+export async function bookAppointment(params: BookAppointmentParams): Promise<BookingResult> {
+  const { workOrderId, propertyContext, tenantContext, slot, permissionToEnter, accessNotes } = params;
+  const settings = resolveSchedulingConfig(propertyContext.voice_config?.scheduling);
+
+  try {
+    const bookings = await fetchBookings(propertyContext.user_id, slot.start, slot.end, settings.slotMinutes);
+    if (isTaken(slot, bookings, settings.slotMinutes, workOrderId)) return 'taken';
+  } catch (error) {
+    console.error('[Scheduling] Failed to re-check slot:', error);
+    return 'failed';
+  }
+
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .update({
+      scheduled_date: slot.start.toISOString(),
+      scheduled_end: slot.end.toISOString(),
+      availability_window_id: slot.windowId,
+      ...(slot.vendorId && { vendor_id: slot.vendorId }),
+      status: 'scheduled',
+      permission_to_enter: permissionToEnter,
+      access_notes: accessNotes,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', workOrderId)
+    .eq('tenant_id', tenantContext.id)
+    .select('id, title');
+
+  if (error?.code === OVERLAPPING_BOOKING) return 'taken';
+  if (error || !data || data.length === 0) {
+    console.error('[Scheduling] Failed to book appointment:', error);
+    return 'failed';
+  }
+
+  const timezone = resolveBusinessHours(propertyContext.voice_config?.business_hours).timezone;
+  await getSupabase().from('notifications').insert({
+    user_id: propertyContext.user_id,
+    type: 'appointment_booked',
+    title: 'Appointment Booked (Phone)',
+    message:
+      `${tenantContext.name} booked ${describeSlot(slot, timezone)} for: ${data[0].title}` +
+      (permissionToEnter === false ? ' - tenant must be home' : ''),
+    read: false,
+    metadata: { work_order_id: workOrderId, vendor_id: slot.vendorId, availability_window_id: slot.windowId },
+  });
+  return 'booked';
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { parseTimePreference } from './spoken-time.js';
+
+const TIMEZONE = 'America/New_York';
+// Monday, October 19, 2026, 11:00 AM in New York
+const NOW = new Date('2026-10-19T15:00:00Z');
+
+const on = (from: string, to = from) => ({ from, to });
+const hours = (from: number, to: number) => ({ from: from * 60, to: to * 60 });
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+describe('parseTimePreference', () => {
+  it.each([
+    // spoken, dates, from-to (hours), weekdays
+    ['Tuesday', on('2026-10-20'), null, null],
+    ['next Tuesday afternoon', on('2026-10-20'), hours(12, 17), null],
+    ['tomorrow after 3', on('2026-10-20'), hours(15, 24), null],
+    ['the day after tomorrow in the morning', on('2026-10-21'), hours(6, 12), null],
+    ['October 21st in the morning', on('2026-10-21'), hours(6, 12), null],
+    ['Oct. 21 at 10', on('2026-10-21'), hours(10, 10 + 1 / 60), null],
+    ['10/31 between 9 and 11', on('2026-10-31'), hours(9, 11), null],
+    ['January 5th', on('2027-01-05'), null, null],
+    ['the 25th', on('2026-10-25'), null, null],
+    ['the 2nd', on('2026-11-02'), null, null],
+    // A weekday said on that day means next week's
+    ['Monday', on('2026-10-26'), null, null],
+    ['next week', on('2026-10-26', '2026-11-01'), null, null],
+    ['this week', on('2026-10-19', '2026-10-25'), null, null],
+    ['any weekday before noon', null, hours(0, 12), WEEKDAYS],
+    ['the weekend', null, null, [0, 6]],
+    ['around 3:30 p.m.', null, hours(15.5, 15.5 + 1 / 60), null],
+    ['whenever', null, null, null],
+    // Ruled out
+    ['not Tuesday, Wednesday works', on('2026-10-21'), null, null],
+    ['Tuesday but not in the morning', on('2026-10-20'), null, null],
+    ["Tuesday doesn't work. How about Thursday?", on('2026-10-22'), null, null],
+    ["I can't do mornings, afternoons are better", null, hours(12, 17), null],
+    ['Friday is no good, Saturday after 10', on('2026-10-24'), hours(10, 24), null],
+    ['weekdays except Friday', null, null, [1, 2, 3, 4]],
+    ['any time except Friday', null, null, [0, 1, 2, 3, 4, 6]],
+    ['next week, just not Monday or Friday', on('2026-10-26', '2026-11-01'), null, [0, 2, 3, 4, 6]],
+    ['mornings, but Tuesday is out', null, hours(6, 12), [0, 1, 3, 4, 5, 6]],
+  ])('%s', (spoken, dates, times, weekdays) => {
+    expect(parseTimePreference(spoken, TIMEZONE, NOW)).toEqual({
+      dates,
+      from: times?.from ?? null,
+      to: times?.to ?? null,
+      weekdays,
+    });
+  });
+
+  it.each(['sometime', 'not Tuesday', 'anything but Monday', "I can't do Friday"])(
+    'understands nothing in %s',
+    (spoken) => {
+      expect(parseTimePreference(spoken, TIMEZONE, NOW)).toBeNull();
+    }
+  );
+});
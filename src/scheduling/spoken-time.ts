@@ -0,0 +1,212 @@
+/**
+ * Scheduling - Spoken Times
+ *
+ * Turns what a caller says about when suits them ("next Tuesday afternoon",
+ * "tomorrow after 3", "October 21st in the morning", "any weekday before
+ * noon") into a preference in the property's local time. The agent passes
+ * the caller's words through in English, so only English is understood.
+ *
+ * "Tuesday" and "next Tuesday" both mean the coming Tuesday - callers use
+ * them interchangeably. Times the caller rules out ("not Tuesday", "I can't
+ * do mornings", "Friday doesn't work") are dropped, not read as asked for,
+ * and a weekday ruled out is left out of the days offered ("weekdays except
+ * Friday").
+ */
+
+import { zonedParts, addDays, ZonedParts } from '../utils/timezone.js';
+import { TimePreference } from './types.js';
+
+// No "sun" or "sat" - they're ordinary words too
+const WEEKDAY_NAMES: Record<string, number> = {
+  sunday: 0, mon: 1, monday: 1, tue: 2, tues: 2, tuesday: 2, wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, fri: 5, friday: 5, saturday: 6,
+};
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5, jun: 6, june: 6,
+  jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9, oct: 10, october: 10,
+  nov: 11, november: 11, dec: 12, december: 12,
+};
+
+// Local minutes since midnight
+const PARTS_OF_DAY: Record<string, [number, number]> = {
+  morning: [6 * 60, 12 * 60],
+  afternoon: [12 * 60, 17 * 60],
+  evening: [17 * 60, 21 * 60],
+  night: [17 * 60, 21 * 60],
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAY_NAMES).join('|');
+const MONTH_PATTERN = Object.keys(MONTH_NAMES).join('|');
+const TIME_PATTERN = String.raw`(noon|midday|(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?)`;
+
+// Where one part of an answer ends: "not Tuesday, Wednesday works", "Tuesday but not the morning".
+// The "but" in "anything but Monday" rules Monday out instead.
+const CLAUSE_BREAK =
+  /[,;!?]|(?<!\b(?:jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec))\.(?=\s|$)|(?<!\b(?:anything|any day|everything|all))\s+(?:but|though|although)\b/;
+// A clause that rules out what it names: "Tuesday doesn't work", "mornings are no good"
+const RULED_OUT = /(\bnot|n't|\bnever) (work|do|good|great|possible|an option|be good)\b|\bno good\b|\bis out\b/;
+// From here to the end of the clause is ruled out: "not Tuesday", "I can't do mornings"
+const RULING_OUT = /\b(not|never|no|except|other than|(anything|any day|everything|all) but|can(no|')t|won't)\b.*$/;
+
+/**
+ * Minutes since midnight for a spoken clock time. Without am/pm, 7-11 is
+ * morning and 12-6 afternoon - nobody books a repair at 3 in the morning.
+ */
+function clockMinutes(match: RegExpMatchArray, offset: number): number | null {
+  if (/noon|midday/.test(match[offset])) return 12 * 60;
+  let hour = Number(match[offset + 1]);
+  const minute = Number(match[offset + 2] || 0);
+  const meridiem = (match[offset + 3] || '').replace(/\./g, '');
+  if (hour > 23 || minute > 59) return null;
+  if (meridiem === 'pm' && hour < 12) hour += 12;
+  else if (meridiem === 'am' && hour === 12) hour = 0;
+  else if (!meridiem && hour >= 1 && hour <= 6) hour += 12;
+  return hour * 60 + minute;
+}
+
+function daysUntil(today: ZonedParts, weekday: number): number {
+  // A weekday said on that day means next week's
+  return ((weekday - today.weekday + 6) % 7) + 1;
+}
+
+function monthDay(today: ZonedParts, month: number, day: number): string | null {
+  if (day < 1 || day > 31) return null;
+  // A date already past this year means next year's
+  const thisYear = today.month < month || (today.month === month && today.day <= day);
+  const date = addDays({ year: thisYear ? today.year : today.year + 1, month, day }, 0);
+  // Rolled over (e.g. February 30th)
+  return Number(date.slice(8, 10)) === day ? date : null;
+}
+
+function parseDates(text: string, today: ZonedParts): TimePreference['dates'] {
+  const single = (daysAhead: number) => {
+    const date = addDays(today, daysAhead);
+    return { from: date, to: date };
+  };
+
+  if (/\bday after tomorrow\b/.test(text)) return single(2);
+  if (/\btomorrow\b/.test(text)) return single(1);
+  if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(text)) return single(0);
+
+  const weekday = text.match(new RegExp(`\\b(${WEEKDAY_PATTERN})\\b`));
+  if (weekday) return single(daysUntil(today, WEEKDAY_NAMES[weekday[1]]));
+
+  const named = text.match(new RegExp(`\\b(${MONTH_PATTERN})\\.? (\\d{1,2})(st|nd|rd|th)?\\b`));
+  if (named) {
+    const date = monthDay(today, MONTH_NAMES[named[1]], Number(named[2]));
+    if (date) return { from: date, to: date };
+  }
+
+  const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})\b/);
+  if (numeric) {
+    const date = monthDay(today, Number(numeric[1]), Number(numeric[2]));
+    if (date) return { from: date, to: date };
+  }
+
+  // "the 21st" - this month, or next month if it's passed
+  const ordinal = text.match(/\bthe (\d{1,2})(st|nd|rd|th)\b/);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    const month = day >= today.day ? today.month : (today.month % 12) + 1;
+    const date = monthDay(today, month, day);
+    if (date) return { from: date, to: date };
+  }
+
+  if (/\bnext week\b/.test(text)) {
+    // Monday to Sunday of the coming week
+    const monday = daysUntil(today, 1);
+    return { from: addDays(today, monday), to: addDays(today, monday + 6) };
+  }
+  if (/\bthis week\b/.test(text)) {
+    return { from: addDays(today, 0), to: addDays(today, (7 - today.weekday) % 7) };
+  }
+  return null;
+}
+
+function parseTimes(text: string): { from: number | null; to: number | null } | null {
+  const between = text.match(new RegExp(`\\bbetween ${TIME_PATTERN} and ${TIME_PATTERN}`));
+  if (between) {
+    const from = clockMinutes(between, 1);
+    const to = clockMinutes(between, 5);
+    if (from !== null && to !== null && to > from) return { from, to };
+  }
+
+  const after = text.match(new RegExp(`\\b(after|from) ${TIME_PATTERN}`));
+  if (after) {
+    const from = clockMinutes(after, 2);
+    if (from !== null) return { from, to: 24 * 60 };
+  }
+
+  const before = text.match(new RegExp(`\\b(before|by|until) ${TIME_PATTERN}`));
+  if (before) {
+    const to = clockMinutes(before, 2);
+    if (to !== null) return { from: 0, to };
+  }
+
+  // "at 3", "around 10:30", "3pm" - a slot that covers that time
+  const at = text.match(new RegExp(`\\b(at|around|about) ${TIME_PATTERN}`));
+  const clock = text.match(/\b(noon|midday|(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.))/);
+  const time = at ? clockMinutes(at, 2) : clock ? clockMinutes(clock, 1) : null;
+  if (time !== null) return { from: time, to: time + 1 };
+
+  for (const [part, [from, to]] of Object.entries(PARTS_OF_DAY)) {
+    if (new RegExp(`\\b${part}s?\\b`).test(text)) return { from, to };
+  }
+  return null;
+}
+
+/**
+ * The parts of an answer that say when the caller can do, and the parts
+ * that rule times out, lowercased
+ */
+function splitAnswer(spoken: string): { asked: string; ruledOut: string } {
+  const asked: string[] = [];
+  const ruledOut: string[] = [];
+  const clauses = spoken
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\b([ap])\.m\./g, '$1m')
+    .split(CLAUSE_BREAK);
+
+  for (const clause of clauses) {
+    if (RULED_OUT.test(clause)) {
+      ruledOut.push(clause);
+      continue;
+    }
+    const ruling = clause.match(RULING_OUT);
+    asked.push(ruling ? clause.slice(0, ruling.index) : clause);
+    if (ruling) ruledOut.push(ruling[0]);
+  }
+  const join = (parts: string[]) => parts.join(' ').replace(/\s+/g, ' ').trim();
+  return { asked: join(asked), ruledOut: join(ruledOut) };
+}
+
+function ruledOutWeekdays(ruledOut: string): Set<number> {
+  const names = ruledOut.match(new RegExp(`\\b(${WEEKDAY_PATTERN})\\b`, 'g')) || [];
+  return new Set(names.map((name) => WEEKDAY_NAMES[name]));
+}
+
+/**
+ * What the caller asked for, or null if nothing in it was understood.
+ * "Whenever" / "as soon as possible" give an empty preference - the
+ * earliest slots.
+ */
+export function parseTimePreference(spoken: string, timezone: string, now = new Date()): TimePreference | null {
+  const { asked: text, ruledOut } = splitAnswer(spoken);
+  const today = zonedParts(now, timezone);
+
+  const dates = parseDates(text, today);
+  const times = parseTimes(text);
+  let weekdays = /\bweekends?\b/.test(text) ? [0, 6] : /\bweekdays?\b/.test(text) ? [1, 2, 3, 4, 5] : null;
+  const anytime = /\b(any ?time|whenever|as soon as possible|asap|earliest|soonest|first available)\b/.test(text);
+
+  if (!dates && !times && !weekdays && !anytime) return null;
+
+  // A single day is already settled - otherwise leave out the days ruled out
+  const excluded = ruledOutWeekdays(ruledOut);
+  if (excluded.size > 0 && (!dates || dates.from !== dates.to)) {
+    weekdays = (weekdays || [0, 1, 2, 3, 4, 5, 6]).filter((day) => !excluded.has(day));
+  }
+  return { dates, from: times?.from ?? null, to: times?.to ?? null, weekdays };
+}
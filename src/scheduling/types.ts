@@ -0,0 +1,66 @@
+/**
+ * Scheduling Types
+ */
+
+// Per-property scheduling settings (properties.voice_config.scheduling)
+export interface SchedulingConfig {
+  // Offer appointments on calls at this property (default true)
+  enabled?: boolean;
+  // Length of an arrival window, e.g. 120 = "between 1 and 3 PM"
+  slot_minutes?: number;
+  // How far ahead to offer appointments
+  days_ahead?: number;
+  // Earliest an appointment can start, in hours from now
+  lead_hours?: number;
+}
+
+export interface ResolvedSchedulingConfig {
+  enabled: boolean;
+  slotMinutes: number;
+  daysAhead: number;
+  leadHours: number;
+}
+
+// When a vendor or maintenance team can take visits (availability_windows).
+// No property_id = all of the manager's properties; no categories = any job.
+export interface AvailabilityWindow {
+  id: string;
+  user_id: string;
+  property_id: string | null;
+  vendor_id: string | null;
+  // In-house team name, when it isn't a vendor
+  team: string | null;
+  categories: string[] | null;
+  // 0 = Sunday
+  weekday: number;
+  // "08:00", property's local time
+  start_time: string;
+  end_time: string;
+  vendor?: { name: string } | null;
+}
+
+export interface AppointmentSlot {
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  // Minutes since local midnight
+  startMinutes: number;
+  endMinutes: number;
+  start: Date;
+  end: Date;
+  windowId: string;
+  vendorId: string | null;
+  // Vendor or team name
+  provider: string | null;
+}
+
+// What the caller asked for, in the property's local time. Any part may be
+// missing: "Tuesday" has no times, "after 3" has no dates.
+export interface TimePreference {
+  // Local calendar dates, YYYY-MM-DD, inclusive
+  dates: { from: string; to: string } | null;
+  // Local minutes since midnight; the slot must overlap [from, to)
+  from: number | null;
+  to: number | null;
+  // Any of these weekdays, 0 = Sunday ("a weekday", "the weekend")
+  weekdays: number[] | null;
+}
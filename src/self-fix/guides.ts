@@ -0,0 +1,138 @@
+/**
+ * Self-Fix - Guides
+ *
+ * Step-by-step guides for problems a tenant can usually fix in a few
+ * minutes, keyed by ISSUE_CATEGORIES. Steps are written in English; the
+ * agent says them in the caller's language, one at a time.
+ *
+ * Within a category the first guide whose keywords match wins, so more
+ * specific guides go first (a garbage disposal is also a clogged sink).
+ */
+
+import { SelfFixGuide } from './types.js';
+
+export const SELF_FIX_GUIDES: Record<string, SelfFixGuide[]> = {
+  plumbing_other: [
+    {
+      id: 'garbage_disposal_reset',
+      category: 'plumbing_other',
+      title: 'Garbage disposal reset',
+      matches: /disposal|disposer|triturador/i,
+      safety: 'Never put a hand inside the disposal, even when it is off.',
+      steps: [
+        {
+          instruction: 'Turn the disposal switch off, and leave it off until the last step.',
+          check: 'Is it switched off?',
+          prerequisite: true,
+        },
+        {
+          instruction:
+            'Under the sink, find the small red or black reset button on the bottom of the disposal and press it firmly until it clicks.',
+          check: 'Did it click, or was it already in?',
+        },
+        {
+          instruction:
+            'If it only hummed before, put the small hex key (Allen wrench) into the hole in the center of the bottom and work it back and forth until it turns freely all the way round. Skip this if there is no hex key.',
+          check: 'Does it turn freely now?',
+        },
+        {
+          instruction: 'Run cold water into the sink and turn the disposal back on.',
+          check: 'Does it run now?',
+        },
+      ],
+    },
+    {
+      id: 'clogged_drain_plunger',
+      category: 'plumbing_other',
+      title: 'Clogged drain',
+      matches: /clog|drain|backed up|won'?t go down|tapad|desag[üu]e/i,
+      safety:
+        "Don't plunge if drain cleaner was poured in - it can splash. If several drains are backing up at once, don't try this - it needs a plumber.",
+      steps: [
+        {
+          instruction: 'Take out the drain stopper or strainer if there is one.',
+          check: 'Is it out?',
+        },
+        {
+          instruction:
+            'Block the overflow hole near the top of the sink or tub with a wet rag. For a double sink, plug the other drain.',
+          check: 'Ready?',
+        },
+        {
+          instruction:
+            "Make sure there's enough water to cover the plunger cup, then press it down over the drain and plunge firmly 15 to 20 times without breaking the seal.",
+          check: 'Is the water going down now?',
+          prerequisite: true,
+        },
+        {
+          instruction: 'Run hot water for a minute to clear what is left.',
+          check: 'Is it draining normally?',
+        },
+      ],
+    },
+  ],
+  electrical: [
+    {
+      id: 'tripped_breaker',
+      category: 'electrical',
+      title: 'Tripped breaker',
+      matches:
+        /breaker|no power|lost power|(power|electricity) (is |went )?out|outlets? (stopped|isn'?t|aren'?t|not|don'?t|doesn'?t)|(sin|se fue la) (luz|corriente)|no hay (luz|corriente)|interruptor/i,
+      safety:
+        "Stop and don't touch the panel if anything sparked, smells like burning, looks scorched, or if the panel or floor is wet.",
+      steps: [
+        {
+          instruction:
+            'Find the electrical panel - usually a gray metal door in a hallway closet, utility room or garage - and open it.',
+          check: 'Did you find it?',
+          prerequisite: true,
+        },
+        {
+          instruction:
+            'Look for a switch that sits in the middle or points the opposite way from the others, or has a red or orange window showing.',
+          check: 'Do you see one like that?',
+        },
+        {
+          instruction: 'Push that switch firmly all the way to off, then back to on.',
+          check: 'Did the power come back? If it snapped straight back off, tell me.',
+        },
+        {
+          instruction:
+            'If it is a kitchen, bathroom or outdoor outlet, look for an outlet nearby with TEST and RESET buttons and press RESET until it clicks.',
+          check: 'Is it working now?',
+        },
+      ],
+    },
+  ],
+  hvac: [
+    {
+      id: 'thermostat_batteries',
+      category: 'hvac',
+      title: 'Thermostat batteries',
+      matches:
+        /thermostat|termostato|\b(no|not) (heat|heating|cooling|ac|a\/c|air)\b|(heat|heater|ac|a\/c|air) (isn'?t|is not|won'?t|doesn'?t|not) (working|coming on|turning on)|sin (calefacci[óo]n|aire)/i,
+      safety: null,
+      steps: [
+        {
+          instruction: 'Look at the thermostat screen.',
+          check: 'Is it blank, or showing a low-battery symbol?',
+        },
+        {
+          instruction:
+            'Pull the thermostat cover straight off the wall plate (some slide up first) and find the batteries - usually two AA or AAA.',
+          check: 'Can you see the batteries?',
+          prerequisite: true,
+        },
+        {
+          instruction: 'Replace them with new batteries of the same type, the right way round, and put the cover back.',
+          check: 'Did the screen come on?',
+        },
+        {
+          instruction:
+            'Set it to heat or cool, a few degrees past the room temperature, and wait about five minutes for the system to start.',
+          check: 'Is it heating or cooling now?',
+        },
+      ],
+    },
+  ],
+};
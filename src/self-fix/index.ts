@@ -0,0 +1,121 @@
+/**
+ * Self-Fix
+ *
+ * Guided troubleshooting for problems a tenant can often fix themselves -
+ * a tripped breaker, a jammed garbage disposal, dead thermostat batteries,
+ * a clogged drain. The agent walks the caller through a guide one step
+ * at a time and checks the result of each. If the problem is fixed no ticket
+ * is needed; if not, the steps tried go on the ticket so nobody asks the
+ * tenant to do them again.
+ */
+
+import { SELF_FIX_GUIDES } from './guides.js';
+import {
+  SelfFixConfig,
+  SelfFixGuide,
+  SelfFixStep,
+  SelfFixStepResult,
+  SelfFixStepRecord,
+  SelfFixOutcome,
+} from './types.js';
+
+export type {
+  SelfFixConfig,
+  SelfFixGuide,
+  SelfFixStep,
+  SelfFixStepResult,
+  SelfFixStepRecord,
+  SelfFixOutcome,
+} from './types.js';
+export { SELF_FIX_GUIDES } from './guides.js';
+
+const ALL_GUIDES = Object.values(SELF_FIX_GUIDES).flat();
+
+export const SELF_FIX_GUIDE_IDS = ALL_GUIDES.map((guide) => guide.id);
+
+const RESULT_LABELS: Record<SelfFixStepResult, string> = {
+  fixed: 'fixed it',
+  not_fixed: "didn't help",
+  could_not_do: "couldn't do it",
+  stopped: 'stopped here',
+};
+
+/**
+ * Whether calls at this property offer self-fix guides
+ */
+export function selfFixEnabled(config?: SelfFixConfig): boolean {
+  return config?.enabled !== false;
+}
+
+export function getSelfFixGuide(id: string): SelfFixGuide | null {
+  return ALL_GUIDES.find((guide) => guide.id === id) || null;
+}
+
+/**
+ * The guide for what the caller described, or null. Pass the issue category
+ * to only consider that category's guides.
+ */
+export function findSelfFixGuide(text: string, category?: string | null): SelfFixGuide | null {
+  const guides = category ? SELF_FIX_GUIDES[category] || [] : ALL_GUIDES;
+  return guides.find((guide) => guide.matches.test(text)) || null;
+}
+
+/**
+ * One run through a guide on a call
+ */
+export class SelfFixAttempt {
+  readonly guide: SelfFixGuide;
+  private records: SelfFixStepRecord[] = [];
+  private finished: SelfFixOutcome = 'in_progress';
+
+  constructor(guide: SelfFixGuide) {
+    this.guide = guide;
+  }
+
+  get outcome(): SelfFixOutcome {
+    return this.finished;
+  }
+
+  // 1-based number of the step the caller is on
+  get stepNumber(): number {
+    return this.records.length + 1;
+  }
+
+  get currentStep(): SelfFixStep | null {
+    return this.finished === 'in_progress' ? this.guide.steps[this.records.length] || null : null;
+  }
+
+  get steps(): SelfFixStepRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Record how the current step went and move on. The attempt is resolved
+   * as soon as a step fixes it, and unresolved when the caller stops, can't
+   * do a prerequisite, or runs out of steps.
+   */
+  record(result: SelfFixStepResult, note: string | null): SelfFixOutcome {
+    const step = this.currentStep;
+    if (!step) return this.finished;
+
+    this.records.push({ instruction: step.instruction, result, note });
+    if (result === 'fixed') {
+      this.finished = 'resolved';
+    } else if (result === 'stopped' || (result === 'could_not_do' && step.prerequisite)) {
+      this.finished = 'unresolved';
+    } else if (this.records.length >= this.guide.steps.length) {
+      this.finished = 'unresolved';
+    }
+    return this.finished;
+  }
+
+  /**
+   * The steps tried, for a work order or the tenant's history
+   */
+  describe(): string {
+    const lines = this.records.map(
+      (record, i) => `${i + 1}. ${record.instruction} - ${RESULT_LABELS[record.result]}${record.note ? ` (${record.note})` : ''}`
+    );
+    return `Tried on the call (${this.guide.title} guide):\n${lines.join('\n')}`;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Self-Fix Types
+ */
+
+// Per-property self-fix settings (properties.voice_config.self_fix)
+export interface SelfFixConfig {
+  // Offer to walk callers through simple fixes before filing (default true)
+  enabled?: boolean;
+}
+
+export interface SelfFixStep {
+  // What the caller should do, one action
+  instruction: string;
+  // What to ask once they've done it
+  check: string;
+  // Later steps depend on this one - if they can't do it, the guide stops
+  prerequisite?: boolean;
+}
+
+export interface SelfFixGuide {
+  id: string;
+  // Key of ISSUE_CATEGORIES this guide belongs to
+  category: string;
+  title: string;
+  // What the caller says when this guide fits (English and Spanish keywords)
+  matches: RegExp;
+  // When not to try it at all - said before the first step
+  safety: string | null;
+  steps: SelfFixStep[];
+}
+
+// How a step went, as the caller told it
+export type SelfFixStepResult = 'fixed' | 'not_fixed' | 'could_not_do' | 'stopped';
+
+export interface SelfFixStepRecord {
+  instruction: string;
+  result: SelfFixStepResult;
+  note: string | null;
+}
+
+export type SelfFixOutcome = 'in_progress' | 'resolved' | 'unresolved';
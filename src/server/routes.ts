@@ -7,22 +7,36 @@
 import { FastifyInstance } from 'fastify';
 import { getPropertyContext } from '../supabase.js';
 import { SMSSession, getSMSCircuitStats } from '../sms-session.js';
-import { getAllCircuitStats, costTracker, getMetrics } from '../utils/index.js';
+import { getAllCircuitStats, costTracker, getMetrics, escapeXml } from '../utils/index.js';
 import { getElevenLabsCircuitStats } from '../elevenlabs.js';
+import { getOpenAITTSCircuitStats } from '../text-to-speech/openai-tts.js';
 import { getDeepgramCircuitStats } from '../deepgram.js';
 import { getOpenAICircuitStats } from '../openai.js';
+import { getTwilioVoiceCircuitStats } from '../twilio-voice.js';
+import { handleTransferStatus } from '../voice-session/transfer-handler.js';
 import { validateTwilioRequest } from '../utils/twilio-validation.js';
 
 /**
- * Escape XML special characters
+ * TwiML that connects a call to our media stream WebSocket
  */
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+function buildStreamTwiml(fromPhone: string, toPhone: string, extraParameters: Record<string, string> = {}): string {
+  // Get the WebSocket URL (use wss:// for production)
+  const serverUrl = process.env.VOICE_SERVER_URL || 'http://localhost:3001';
+  const host = serverUrl.replace(/^https?:\/\//, '');
+  const wsUrl = `wss://${host}/media-stream`;
+
+  const parameters = Object.entries({ from: fromPhone, to: toPhone, ...extraParameters })
+    .map(([name, value]) => `      <Parameter name="${name}" value="${escapeXml(value)}" />`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Connect>
+    <Stream url="${wsUrl}">
+${parameters}
+    </Stream>
+  </Connect>
+</Response>`;
 }
 
 /**
@@ -33,9 +47,11 @@ export function registerRoutes(fastify: FastifyInstance): void {
   fastify.get('/health', async () => {
     const circuits = {
       elevenlabs: getElevenLabsCircuitStats(),
+      openaiTts: getOpenAITTSCircuitStats(),
       deepgram: getDeepgramCircuitStats(),
       openai: getOpenAICircuitStats(),
       smsOpenai: getSMSCircuitStats(),
+      twilioVoice: getTwilioVoiceCircuitStats(),
     };
 
     const allClosed = Object.values(circuits).every((c) => c.state === 'CLOSED');
@@ -67,9 +83,11 @@ export function registerRoutes(fastify: FastifyInstance): void {
   fastify.get('/circuits', async () => {
     return {
       elevenlabs: getElevenLabsCircuitStats(),
+      openaiTts: getOpenAITTSCircuitStats(),
       deepgram: getDeepgramCircuitStats(),
       openai: getOpenAICircuitStats(),
       smsOpenai: getSMSCircuitStats(),
+      twilioVoice: getTwilioVoiceCircuitStats(),
     };
   });
 
@@ -154,22 +172,9 @@ export function registerRoutes(fastify: FastifyInstance): void {
 
       console.log(`[TwiML] Inbound call from ${fromPhone} to ${toPhone} (${callSid})`);
 
-      // Get the WebSocket URL (use wss:// for production)
-      const serverUrl = process.env.VOICE_SERVER_URL || 'http://localhost:3001';
-      const host = serverUrl.replace(/^https?:\/\//, '');
-      const wsUrl = `wss://${host}/media-stream`;
-
       // Return TwiML that connects to our WebSocket stream
       reply.header('Content-Type', 'text/xml');
-      return `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Connect>
-    <Stream url="${wsUrl}">
-      <Parameter name="from" value="${escapeXml(fromPhone)}" />
-      <Parameter name="to" value="${escapeXml(toPhone)}" />
-    </Stream>
-  </Connect>
-</Response>`;
+      return buildStreamTwiml(fromPhone, toPhone);
     } catch (error) {
       console.error('[TwiML] Error generating TwiML:', error);
       reply.header('Content-Type', 'text/xml');
@@ -177,6 +182,50 @@ export function registerRoutes(fastify: FastifyInstance): void {
 <Response>
   <Say>Sorry, we're experiencing technical difficulties. Please try again later.</Say>
   <Hangup/>
+</Response>`;
+    }
+  });
+
+  // Transfer callbacks: the <Dial> action of a cold transfer, and status
+  // updates for the person's call in a warm one
+  fastify.post('/transfer-status', async (request, reply) => {
+    reply.header('Content-Type', 'text/xml');
+    try {
+      const body = request.body as Record<string, string>;
+
+      const isValid = validateTwilioRequest(
+        request.headers as Record<string, string | string[] | undefined>,
+        request.url,
+        body
+      );
+      if (!isValid) {
+        console.error('[Transfer] Invalid Twilio signature - rejecting request');
+        reply.status(401);
+        return 'Unauthorized';
+      }
+
+      const transferId = (request.query as Record<string, string>).transfer || '';
+      const result = await handleTransferStatus(transferId, body);
+
+      switch (result.action) {
+        case 'take_message':
+          // Nobody picked up - back to the assistant to take a message
+          return buildStreamTwiml(result.from, result.to, { transfer_failed: '1', language: result.language });
+        case 'hangup':
+          return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Hangup/>
+</Response>`;
+        default:
+          return `<?xml version="1.0" encoding="UTF-8"?>
+<Response/>`;
+      }
+    } catch (error) {
+      console.error('[Transfer] Error handling transfer status:', error);
+      return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  <Say>Sorry, we couldn't connect your call. Please try again later.</Say>
+  <Hangup/>
 </Response>`;
     }
   });
@@ -51,6 +51,9 @@ export function registerWebSocketHandlers(fastify: FastifyInstance): void {
                 toPhone: customParameters?.to || '',
                 propertyContext: context.property,
                 tenantContext: context.tenant,
+                // Set when a transfer nobody answered sends the caller back
+                transferFailed: customParameters?.transfer_failed === '1',
+                language: customParameters?.language,
               });
 
               // Track session for graceful shutdown and cleanup
@@ -73,6 +76,16 @@ export function registerWebSocketHandlers(fastify: FastifyInstance): void {
               session.handleAudio(message.media.payload);
               break;
 
+            case 'mark':
+              // Twilio finished playing audio up to this mark
+              session?.handleMark(message.mark.name);
+              break;
+
+            case 'dtmf':
+              // Caller pressed a key on their phone
+              session?.handleDtmf(message.dtmf.digit);
+              break;
+
             case 'stop':
               console.log('Call ended');
               if (session) {
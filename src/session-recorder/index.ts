@@ -8,16 +8,22 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { completeChat, LLMConfig } from '../llm/index.js';
 import { config } from 'dotenv';
 
 config();
 
 // Re-export utility functions
-export { logVerificationAttempt, logWorkOrderEvent } from './interaction-logger.js';
+export {
+  logVerificationAttempt,
+  logWorkOrderEvent,
+  logEmergencyEvent,
+  logKnowledgeCitations,
+  logSelfFixResolved,
+} from './interaction-logger.js';
+export type { EmergencyStep } from './interaction-logger.js';
 
 let supabase: SupabaseClient;
-let openai: OpenAI;
 
 function getSupabase(): SupabaseClient {
   if (!supabase) {
@@ -29,17 +35,39 @@ function getSupabase(): SupabaseClient {
   return supabase;
 }
 
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || '',
-    });
-  }
-  return openai;
-}
-
 export type CallDirection = 'inbound' | 'outbound';
 export type CallStatus = 'initiated' | 'ringing' | 'in_progress' | 'completed' | 'failed' | 'no_answer' | 'busy';
+// How the call ended for the caller: handled by the AI, handed to a person,
+// or a transfer nobody answered (a message was taken instead)
+export type CallOutcome = 'completed' | 'transferred' | 'transfer_failed';
+
+// A work order draft read back to the caller (call_records.ticket_drafts).
+// skipped = filed without a read-back during an emergency.
+export interface TicketDraftRecord {
+  number: number;
+  title: string;
+  location: string;
+  category: string;
+  priority: string;
+  corrections: { field: string; from: string; to: string }[];
+  confirmation: 'pending' | 'confirmed' | 'not_confirmed' | 'skipped';
+  confirmed_by: 'speech' | 'keypad' | null;
+  work_order_id: string | null;
+  // Set instead of work_order_id for a caller who wasn't verified
+  unverified_request_id: string | null;
+}
+
+type TranscriptChunk = { role: 'caller' | 'ai'; text: string; timestamp: Date };
+
+// A recording handed from one session to the next on the same call (a cold
+// transfer nobody answered reconnects the caller to a new media stream)
+export interface RecordingSnapshot {
+  callRecordId: string;
+  startedAt: Date | null;
+  transcriptChunks: TranscriptChunk[];
+  ticketDrafts: TicketDraftRecord[];
+  callerLanguage: string | null;
+}
 
 interface CallRecordData {
   userId: string;
@@ -52,18 +80,43 @@ interface CallRecordData {
   twilioCallSid: string;
   triggerType?: 'status_update' | 'pm_approval' | 'follow_up' | 'manual' | 'inbound';
   triggerId?: string;
+  // Property model overrides for the call summary
+  llmConfig?: LLMConfig | null;
+  // Language the summary is written in (the property manager's), e.g. "English"
+  summaryLanguage?: string;
+  // Session the call's costs are logged under - the summary's cost goes there too
+  sessionId?: string;
+  // Carry on the call's existing record instead of creating one
+  resume?: RecordingSnapshot | null;
 }
 
 export class SessionRecorder {
   private callRecordId: string | null = null;
-  private transcriptChunks: Array<{ role: 'caller' | 'ai'; text: string; timestamp: Date }> = [];
+  private sessionId: string | null = null;
+  private transcriptChunks: TranscriptChunk[] = [];
   private startedAt: Date | null = null;
+  private llmConfig: LLMConfig | null = null;
+  private summaryLanguage = 'English';
+  private callerLanguage: string | null = null;
+  private ticketDrafts = new Map<number, TicketDraftRecord>();
 
   /**
-   * Start recording a new call session
+   * Start recording a call session: a new call record, or the one being resumed
    */
   async startRecording(data: CallRecordData): Promise<string | null> {
     this.startedAt = new Date();
+    this.llmConfig = data.llmConfig || null;
+    this.summaryLanguage = data.summaryLanguage || 'English';
+    this.sessionId = data.sessionId || null;
+
+    if (data.resume) {
+      this.callRecordId = data.resume.callRecordId;
+      this.startedAt = data.resume.startedAt || this.startedAt;
+      this.transcriptChunks = [...data.resume.transcriptChunks];
+      data.resume.ticketDrafts.forEach((draft) => this.recordTicketDraft(draft));
+      this.callerLanguage = data.resume.callerLanguage;
+      return this.callRecordId;
+    }
 
     const { data: callRecord, error } = await getSupabase()
       .from('call_records')
@@ -105,6 +158,21 @@ export class SessionRecorder {
       .eq('id', this.callRecordId);
   }
 
+  /**
+   * Record the language the caller spoke (saved with the call record)
+   */
+  setCallerLanguage(language: string): void {
+    this.callerLanguage = language;
+  }
+
+  /**
+   * Record a work order draft and how its read-back went, saved with the
+   * call record. Recording the same draft number again replaces it.
+   */
+  recordTicketDraft(draft: TicketDraftRecord): void {
+    this.ticketDrafts.set(draft.number, { ...draft, corrections: [...draft.corrections] });
+  }
+
   /**
    * Add a transcript segment
    */
@@ -118,6 +186,22 @@ export class SessionRecorder {
     }
   }
 
+  /**
+   * Replace the most recent AI segment (e.g. cut short by the caller).
+   * An empty string removes it.
+   */
+  replaceLastAiTranscript(text: string): void {
+    for (let i = this.transcriptChunks.length - 1; i >= 0; i--) {
+      if (this.transcriptChunks[i].role !== 'ai') continue;
+      if (text.trim()) {
+        this.transcriptChunks[i].text = text.trim();
+      } else {
+        this.transcriptChunks.splice(i, 1);
+      }
+      return;
+    }
+  }
+
   /**
    * Get the full transcript as formatted text
    */
@@ -135,27 +219,19 @@ export class SessionRecorder {
     if (!transcript) return '';
 
     try {
-      const response = await getOpenAI().chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: `Summarize this property maintenance call in 2-3 sentences. Focus on:
+      const response = await completeChat({
+        sessionId: this.sessionId || undefined,
+        purpose: 'summary',
+        config: this.llmConfig,
+        systemPrompt: `Summarize this property maintenance call in 2-3 sentences. Focus on:
 - Who called (name, unit if mentioned)
 - What issue they reported
 - What action was taken (ticket created, callback scheduled, etc.)
-Keep it concise and factual.`,
-          },
-          {
-            role: 'user',
-            content: transcript,
-          },
-        ],
-        max_tokens: 150,
-        temperature: 0.3,
+Keep it concise and factual. Write it in ${this.summaryLanguage}, whatever language the call was in.`,
+        messages: [{ role: 'user', content: transcript }],
       });
 
-      return response.choices[0]?.message?.content || '';
+      return response.content;
     } catch (error) {
       console.error('Failed to generate summary:', error);
       return '';
@@ -168,6 +244,7 @@ Keep it concise and factual.`,
   async endRecording(additionalData?: {
     tenantId?: string;
     workOrderId?: string;
+    outcome?: CallOutcome;
   }): Promise<void> {
     if (!this.callRecordId) return;
 
@@ -185,8 +262,15 @@ Keep it concise and factual.`,
       duration_seconds: durationSeconds,
       transcript,
       transcript_summary: summary,
+      outcome: additionalData?.outcome || 'completed',
     };
 
+    if (this.ticketDrafts.size > 0) {
+      updateData.ticket_drafts = [...this.ticketDrafts.values()];
+    }
+    if (this.callerLanguage) {
+      updateData.caller_language = this.callerLanguage;
+    }
     if (additionalData?.tenantId) {
       updateData.tenant_id = additionalData.tenantId;
     }
@@ -254,10 +338,32 @@ Keep it concise and factual.`,
     });
   }
 
+  /**
+   * Change the outcome after the call record was closed - a cold transfer
+   * is only known to have failed once Twilio reports back
+   */
+  static async updateOutcome(callRecordId: string, outcome: CallOutcome): Promise<void> {
+    await getSupabase().from('call_records').update({ outcome }).eq('id', callRecordId);
+  }
+
   getCallRecordId(): string | null {
     return this.callRecordId;
   }
 
+  /**
+   * Everything needed to carry this recording on in another session
+   */
+  snapshot(): RecordingSnapshot | null {
+    if (!this.callRecordId) return null;
+    return {
+      callRecordId: this.callRecordId,
+      startedAt: this.startedAt,
+      transcriptChunks: [...this.transcriptChunks],
+      ticketDrafts: [...this.ticketDrafts.values()],
+      callerLanguage: this.callerLanguage,
+    };
+  }
+
   getDurationSeconds(): number {
     if (!this.startedAt) return 0;
     return Math.round((Date.now() - this.startedAt.getTime()) / 1000);
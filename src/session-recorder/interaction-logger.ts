@@ -64,3 +64,79 @@ export async function logWorkOrderEvent(
     metadata: { event },
   });
 }
+
+export type EmergencyStep = 'detected' | 'work_order' | 'unverified_request' | 'on_call_sms' | 'on_call_call';
+
+/**
+ * Log one step of an emergency escalation to tenant interactions.
+ * tenantId is null when the caller hasn't been identified yet.
+ */
+export async function logEmergencyEvent(params: {
+  tenantId: string | null;
+  userId: string;
+  step: EmergencyStep;
+  success: boolean;
+  content: string;
+  workOrderId?: string | null;
+  metadata?: Record<string, unknown>;
+}): Promise<void> {
+  const { error } = await getSupabase().from('tenant_interactions').insert({
+    tenant_id: params.tenantId,
+    user_id: params.userId,
+    interaction_type: `emergency_${params.step}`,
+    channel: 'voice',
+    content: params.content,
+    work_order_id: params.workOrderId || null,
+    metadata: { step: params.step, success: params.success, ...params.metadata },
+  });
+  if (error) {
+    console.error('Failed to log emergency event:', error);
+  }
+}
+
+/**
+ * Log which knowledge base passages the agent was given to answer a
+ * caller's question. tenantId is null for callers we couldn't identify.
+ */
+export async function logKnowledgeCitations(params: {
+  tenantId: string | null;
+  userId: string;
+  question: string;
+  citations: { entryId: string; passageId: string; title: string; score: number }[];
+}): Promise<void> {
+  const { error } = await getSupabase().from('tenant_interactions').insert({
+    tenant_id: params.tenantId,
+    user_id: params.userId,
+    interaction_type: 'knowledge_base_answer',
+    channel: 'voice',
+    content: params.question,
+    metadata: { citations: params.citations },
+  });
+  if (error) {
+    console.error('Failed to log knowledge base citations:', error);
+  }
+}
+
+/**
+ * Log a problem the caller fixed themselves with a self-fix guide - no work
+ * order was needed. tenantId is null for callers we couldn't identify.
+ */
+export async function logSelfFixResolved(params: {
+  tenantId: string | null;
+  userId: string;
+  guideId: string;
+  summary: string;
+  steps: { instruction: string; result: string; note: string | null }[];
+}): Promise<void> {
+  const { error } = await getSupabase().from('tenant_interactions').insert({
+    tenant_id: params.tenantId,
+    user_id: params.userId,
+    interaction_type: 'self_fix_resolved',
+    channel: 'voice',
+    content: params.summary,
+    metadata: { guide: params.guideId, steps: params.steps },
+  });
+  if (error) {
+    console.error('Failed to log self-fix result:', error);
+  }
+}
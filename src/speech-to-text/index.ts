@@ -0,0 +1,76 @@
+/**
+ * Speech-to-Text
+ *
+ * Creates the transcription stream for a call from the property's STT
+ * settings. Deepgram is the default; the scripted provider replays a
+ * transcript file for offline runs.
+ *
+ * Environment defaults (overridden per property by voice_config.stt):
+ * - STT_PROVIDER: deepgram | scripted
+ * - STT_MODEL, STT_LANGUAGE
+ *
+ * Environment only:
+ * - STT_SCRIPT_PATH: script for the scripted provider. Never read from
+ *   property config - the server would read whatever file a row names.
+ */
+
+import { createDeepgramSTT } from '../deepgram.js';
+import { createScriptedSTT } from './scripted.js';
+import {
+  SpeechToTextProvider,
+  SpeechToTextProviderName,
+  SpeechToTextCallbacks,
+  SttConfig,
+  VocabularyTerm,
+} from './types.js';
+
+export type {
+  SpeechToTextProvider,
+  SpeechToTextProviderName,
+  SpeechToTextCallbacks,
+  SpeechToTextOptions,
+  SttConfig,
+  VocabularyTerm,
+} from './types.js';
+export { getPropertyVocabulary } from './vocabulary.js';
+
+/**
+ * Merge property STT settings over environment defaults
+ */
+export function resolveSttConfig(propertyConfig?: SttConfig | null): SttConfig {
+  return {
+    provider: propertyConfig?.provider || (process.env.STT_PROVIDER as SpeechToTextProviderName) || 'deepgram',
+    model: propertyConfig?.model || process.env.STT_MODEL || undefined,
+    language: propertyConfig?.language || process.env.STT_LANGUAGE || undefined,
+    keywords: propertyConfig?.keywords,
+  };
+}
+
+/**
+ * Open a transcription stream with the configured provider
+ */
+export async function createSpeechToText(
+  sttConfig: SttConfig,
+  options: SpeechToTextCallbacks & { sessionId?: string; vocabulary?: VocabularyTerm[] }
+): Promise<SpeechToTextProvider> {
+  switch (sttConfig.provider) {
+    case 'scripted': {
+      const scriptPath = process.env.STT_SCRIPT_PATH;
+      if (!scriptPath) {
+        throw new Error('Scripted STT requires STT_SCRIPT_PATH');
+      }
+      return createScriptedSTT(options, scriptPath);
+    }
+
+    case 'deepgram':
+    case undefined:
+      return createDeepgramSTT({
+        ...options,
+        model: sttConfig.model,
+        language: sttConfig.language,
+      });
+
+    default:
+      throw new Error(`Unknown STT provider: ${sttConfig.provider}`);
+  }
+}
@@ -0,0 +1,77 @@
+import { fileURLToPath } from 'url';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScriptedSTT } from './scripted.js';
+
+const SAMPLE_CALL = fileURLToPath(new URL('../../scripts/sample-call.json', import.meta.url));
+
+function recorder() {
+  const events: string[] = [];
+  return {
+    events,
+    callbacks: {
+      onSpeechStarted: () => events.push('speech_started'),
+      onTranscript: (text: string, isFinal: boolean) => events.push(`${isFinal ? 'final' : 'interim'}: ${text}`),
+      onUtteranceEnd: () => events.push('utterance_end'),
+      onError: (error: Error) => events.push(`error: ${error.message}`),
+    },
+  };
+}
+
+describe('createScriptedSTT', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the sample call as Deepgram-style events', async () => {
+    const { events, callbacks } = recorder();
+    const stt = await createScriptedSTT(callbacks, SAMPLE_CALL);
+
+    await vi.runAllTimersAsync();
+    stt.close();
+
+    expect(events.filter((e) => e.startsWith('final: '))).toEqual([
+      'final: Hi, this is Maria Lopez in unit 4B.',
+      'final: My kitchen sink is leaking under the cabinet.',
+      "final: It started this morning and it's dripping onto the floor.",
+      "final: Yes, that's right.",
+      "final: No, that's everything. Thanks, bye.",
+    ]);
+    expect(events.slice(0, 4)).toEqual([
+      'speech_started',
+      'interim: Hi, this is Maria',
+      'final: Hi, this is Maria Lopez in unit 4B.',
+      'utterance_end',
+    ]);
+  });
+
+  it('waits for each turn', async () => {
+    const { events, callbacks } = recorder();
+    const stt = await createScriptedSTT(callbacks, SAMPLE_CALL);
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(events).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(events).toEqual(['speech_started']);
+    stt.close();
+  });
+
+  it('stops emitting once closed', async () => {
+    const { events, callbacks } = recorder();
+    const stt = await createScriptedSTT(callbacks, SAMPLE_CALL);
+
+    stt.close();
+    await vi.runAllTimersAsync();
+    expect(events).toEqual([]);
+  });
+
+  it('rejects a script without turns', async () => {
+    const { callbacks } = recorder();
+    await expect(createScriptedSTT(callbacks, fileURLToPath(new URL('../../package.json', import.meta.url)))).rejects.toThrow(
+      'missing "turns" array'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Scripted Speech-to-Text
+ *
+ * Replays caller turns from a JSON file instead of transcribing audio, so
+ * whole calls can run offline (e.g. in CI without a Deepgram key).
+ *
+ * Script format:
+ * {
+ *   "turns": [
+ *     { "afterMs": 4000, "text": "Hi, this is Maria in unit 4B." },
+ *     { "afterMs": 3000, "text": "My kitchen sink is leaking." }
+ *   ]
+ * }
+ *
+ * `afterMs` is measured from the end of the previous turn (or stream start).
+ * Each turn emits the same events Deepgram would: SpeechStarted, an interim
+ * transcript, a final transcript, then UtteranceEnd. Timing is fixed, so a
+ * given script always produces the same event sequence.
+ */
+
+import { readFile } from 'fs/promises';
+import { SpeechToTextProvider, SpeechToTextOptions } from './types.js';
+
+// Simulated speaking rate
+const MS_PER_WORD = 300;
+
+// Matches Deepgram's utterance_end_ms
+const UTTERANCE_END_MS = 1000;
+
+interface ScriptedTurn {
+  afterMs: number;
+  text: string;
+}
+
+interface TranscriptScript {
+  turns: ScriptedTurn[];
+}
+
+/**
+ * Load and validate a transcript script
+ */
+async function loadScript(scriptPath: string): Promise<TranscriptScript> {
+  const raw = await readFile(scriptPath, 'utf-8');
+  const script = JSON.parse(raw) as TranscriptScript;
+
+  if (!Array.isArray(script.turns)) {
+    throw new Error(`Invalid STT script ${scriptPath}: missing "turns" array`);
+  }
+  for (const [index, turn] of script.turns.entries()) {
+    if (typeof turn.text !== 'string' || typeof turn.afterMs !== 'number') {
+      throw new Error(`Invalid STT script ${scriptPath}: turn ${index} needs "afterMs" and "text"`);
+    }
+  }
+  return script;
+}
+
+export async function createScriptedSTT(
+  config: SpeechToTextOptions,
+  scriptPath: string
+): Promise<SpeechToTextProvider> {
+  const sessionId = config.sessionId || 'unknown';
+  const script = await loadScript(scriptPath);
+  const timers: NodeJS.Timeout[] = [];
+  let isClosed = false;
+
+  const at = (delayMs: number, fn: () => void) => {
+    timers.push(
+      setTimeout(() => {
+        if (!isClosed) fn();
+      }, delayMs)
+    );
+  };
+
+  // Lay out the whole call up front
+  let cursorMs = 0;
+  for (const turn of script.turns) {
+    const words = turn.text.trim().split(/\s+/);
+    const startMs = cursorMs + turn.afterMs;
+    const finalMs = startMs + words.length * MS_PER_WORD;
+
+    at(startMs, () => config.onSpeechStarted?.());
+    if (words.length > 1) {
+      const interim = words.slice(0, Math.ceil(words.length / 2)).join(' ');
+      at(startMs + Math.ceil(words.length / 2) * MS_PER_WORD, () => config.onTranscript(interim, false, false));
+    }
+    at(finalMs, () => config.onTranscript(turn.text, true, true));
+    at(finalMs + UTTERANCE_END_MS, () => config.onUtteranceEnd?.());
+
+    cursorMs = finalMs;
+  }
+
+  console.log(`[ScriptedSTT:${sessionId.slice(0, 8)}] Loaded ${script.turns.length} turns from ${scriptPath}`);
+
+  return {
+    provider: 'scripted',
+    send: () => {
+      // Audio is ignored - transcripts come from the script
+    },
+    close: () => {
+      isClosed = true;
+      timers.forEach(clearTimeout);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Speech-to-Text Types
+ *
+ * Provider-agnostic interface for streaming transcription.
+ */
+
+export type SpeechToTextProviderName = 'deepgram' | 'scripted';
+
+/**
+ * A live transcription stream for one call
+ */
+export interface SpeechToTextProvider {
+  readonly provider: SpeechToTextProviderName;
+  send: (audio: Buffer) => void;
+  close: () => void;
+}
+
+export interface SpeechToTextCallbacks {
+  onTranscript: (transcript: string, isFinal: boolean, speechFinal: boolean) => void;
+  onSpeechStarted?: () => void;
+  onUtteranceEnd?: () => void;
+  onError: (error: Error) => void;
+}
+
+// A word or phrase the provider should listen for
+export interface VocabularyTerm {
+  term: string;
+  // Relative weight, 1 (light) to 3 (strong)
+  boost: number;
+}
+
+export interface SpeechToTextOptions extends SpeechToTextCallbacks {
+  sessionId?: string;
+  model?: string;
+  language?: string;
+  vocabulary?: VocabularyTerm[];
+}
+
+// Per-property STT settings (properties.voice_config.stt)
+export interface SttConfig {
+  provider?: SpeechToTextProviderName;
+  model?: string;
+  language?: string;
+  // Extra words to boost on top of the roster vocabulary
+  keywords?: string[];
+}
@@ -0,0 +1,191 @@
+/**
+ * Speech-to-Text - Property Vocabulary
+ *
+ * Builds a list of words the STT provider should listen for at a property:
+ * tenant names, unit labels, the property and street names, and common
+ * appliance brands. Boosting these makes uncommon surnames and unit labels
+ * come through correctly, so caller verification can match them.
+ *
+ * Vocabularies are cached per property. After ROSTER_CHECK_INTERVAL_MS the
+ * roster is re-read and the vocabulary rebuilt only if it changed.
+ */
+
+import { createHash } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { VocabularyTerm } from './types.js';
+
+config();
+
+interface Roster {
+  propertyName: string | null;
+  address: string | null;
+  tenantNames: string[];
+  unitNumbers: string[];
+}
+
+interface CachedVocabulary {
+  signature: string;
+  terms: VocabularyTerm[];
+  checkedAt: number;
+}
+
+// How long a cached vocabulary is used before the roster is checked again
+const ROSTER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Brands callers mention when reporting appliance and HVAC problems
+const APPLIANCE_BRANDS = [
+  'Whirlpool', 'Frigidaire', 'Maytag', 'KitchenAid', 'Kenmore', 'Samsung', 'LG', 'GE',
+  'Bosch', 'Electrolux', 'Amana', 'InSinkErator', 'Carrier', 'Trane', 'Lennox', 'Rheem',
+  'Goodman', 'Honeywell', 'Nest',
+];
+
+// Street suffixes and other words that are already recognized well
+const COMMON_WORDS = new Set([
+  'st', 'street', 'ave', 'avenue', 'rd', 'road', 'blvd', 'boulevard', 'dr', 'drive', 'ln', 'lane',
+  'ct', 'court', 'way', 'pl', 'place', 'apt', 'apartment', 'unit', 'suite', 'the', 'and', 'of',
+  'north', 'south', 'east', 'west', 'n', 's', 'e', 'w', 'apartments', 'homes', 'village',
+]);
+
+const cache = new Map<string, CachedVocabulary>();
+
+let supabase: SupabaseClient;
+
+function getSupabase(): SupabaseClient {
+  if (!supabase) {
+    supabase = createClient(
+      process.env.SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+    );
+  }
+  return supabase;
+}
+
+/**
+ * Vocabulary for a property, from cache when the roster hasn't changed.
+ * `extraTerms` (from voice_config.stt.keywords) are added on top.
+ */
+export async function getPropertyVocabulary(
+  propertyId: string,
+  extraTerms: string[] = []
+): Promise<VocabularyTerm[]> {
+  const extras = extraTerms.map((term) => ({ term, boost: 3 }));
+  const cached = cache.get(propertyId);
+  if (cached && Date.now() - cached.checkedAt < ROSTER_CHECK_INTERVAL_MS) {
+    return mergeTerms(extras, cached.terms);
+  }
+
+  try {
+    const roster = await fetchRoster(propertyId);
+    const signature = rosterSignature(roster);
+
+    if (cached && cached.signature === signature) {
+      cached.checkedAt = Date.now();
+      return mergeTerms(extras, cached.terms);
+    }
+
+    const terms = buildVocabulary(roster);
+    cache.set(propertyId, { signature, terms, checkedAt: Date.now() });
+    console.log(`[Vocabulary] ${cached ? 'Rebuilt' : 'Built'} vocabulary for property ${propertyId.slice(0, 8)} (${terms.length} terms)`);
+    return mergeTerms(extras, terms);
+  } catch (error) {
+    // Recognition still works without boosting - don't hold up the call
+    console.error('[Vocabulary] Failed to load roster:', error);
+    return mergeTerms(extras, cached?.terms || []);
+  }
+}
+
+/**
+ * Turn a roster into boosted terms, most important first
+ */
+export function buildVocabulary(roster: Roster): VocabularyTerm[] {
+  const terms: VocabularyTerm[] = [];
+
+  for (const name of roster.tenantNames) {
+    terms.push({ term: name, boost: 3 });
+  }
+
+  // Plain numbers are recognized fine - only boost labels like "4B" or "PH2"
+  for (const unit of roster.unitNumbers) {
+    if (/[a-z]/i.test(unit)) terms.push({ term: unit, boost: 2 });
+  }
+
+  if (roster.propertyName) terms.push({ term: roster.propertyName, boost: 2 });
+  const street = streetName(roster.address);
+  if (street) terms.push({ term: street, boost: 2 });
+
+  for (const brand of APPLIANCE_BRANDS) {
+    terms.push({ term: brand, boost: 1 });
+  }
+
+  return mergeTerms(terms, []);
+}
+
+/**
+ * Single uncommon words from a vocabulary, for providers that only take
+ * keywords (not phrases). Common words are skipped - boosting them hurts.
+ */
+export function vocabularyKeywords(terms: VocabularyTerm[]): VocabularyTerm[] {
+  const words: VocabularyTerm[] = [];
+  for (const { term, boost } of terms) {
+    for (const word of term.split(/\s+/)) {
+      const clean = word.replace(/[^\p{L}\p{N}'-]/gu, '');
+      if (clean.length < 2 || COMMON_WORDS.has(clean.toLowerCase())) continue;
+      words.push({ term: clean, boost });
+    }
+  }
+  return mergeTerms(words, []);
+}
+
+async function fetchRoster(propertyId: string): Promise<Roster> {
+  const [{ data: property }, { data: units }, { data: tenants }] = await Promise.all([
+    getSupabase().from('properties').select('name, address').eq('id', propertyId).maybeSingle(),
+    getSupabase().from('units').select('unit_number').eq('property_id', propertyId),
+    getSupabase()
+      .from('tenants')
+      .select('name, unit:units!inner(property_id)')
+      .eq('unit.property_id', propertyId)
+      .eq('is_active', true),
+  ]);
+
+  return {
+    propertyName: property?.name || null,
+    address: property?.address || null,
+    tenantNames: (tenants || []).map((t) => t.name).filter(Boolean),
+    unitNumbers: (units || []).map((u) => u.unit_number).filter(Boolean),
+  };
+}
+
+function rosterSignature(roster: Roster): string {
+  const canonical = JSON.stringify([
+    roster.propertyName,
+    roster.address,
+    [...roster.tenantNames].sort(),
+    [...roster.unitNumbers].sort(),
+  ]);
+  return createHash('sha1').update(canonical).digest('hex');
+}
+
+/**
+ * "123 Maple Grove Ave, Springfield" -> "Maple Grove Ave"
+ */
+function streetName(address: string | null): string | null {
+  if (!address) return null;
+  const street = address.split(',')[0].replace(/^\s*\d+[a-z]?\s+/i, '').trim();
+  return street || null;
+}
+
+/**
+ * Combine term lists, dropping case-insensitive duplicates (first one wins)
+ */
+function mergeTerms(first: VocabularyTerm[], second: VocabularyTerm[]): VocabularyTerm[] {
+  const seen = new Set<string>();
+  const merged: VocabularyTerm[] = [];
+  for (const term of [...first, ...second]) {
+    const key = term.term.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push({ term: term.term.trim(), boost: term.boost });
+  }
+  return merged;
+}
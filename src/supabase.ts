@@ -1,12 +1,15 @@
 /**
  * Supabase Integration
  *
- * Fetches property/tenant context and creates work orders.
+ * Fetches property/tenant context, creates work orders (or adds a repeat
+ * report to the open one) and lets tenants check on, add notes to or cancel
+ * their own.
  */
 
 import { config } from 'dotenv';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { extractWorkOrderDetails, WorkOrderFields, DuplicateCandidate, ExtractionResult } from './work-orders/index.js';
+import { resolveLanguageConfig, languageName } from './locales/index.js';
 import { PropertyContext, TenantContext } from './voice-session/types.js';
 
 // Re-export types for convenience
@@ -16,7 +19,6 @@ export type { PropertyContext, TenantContext } from './voice-session/types.js';
 config();
 
 let supabase: SupabaseClient;
-let openai: OpenAI;
 
 /**
  * Get the shared Supabase client instance.
@@ -38,15 +40,6 @@ export function getSupabase(): SupabaseClient {
   return supabase;
 }
 
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || '',
-    });
-  }
-  return openai;
-}
-
 function normalizePhone(phone: string): string {
   const digits = phone.replace(/\D/g, '');
   if (digits.length === 10) {
@@ -91,55 +84,67 @@ export async function getPropertyContext(
   };
 }
 
+type AgentDetails = Partial<Pick<WorkOrderFields, 'category' | 'priority' | 'location'>>;
+
+/**
+ * Extract ticket details against the schema; uncertain fields get flagged.
+ * Written in the property manager's language, whatever the tenant spoke.
+ */
+export function extractTicketDetails(params: {
+  propertyContext: PropertyContext;
+  issueDescription: string;
+  sessionId?: string;
+  details?: AgentDetails;
+}): Promise<ExtractionResult> {
+  return extractWorkOrderDetails({
+    sessionId: params.sessionId,
+    llmConfig: params.propertyContext.voice_config?.llm,
+    issueDescription: params.issueDescription,
+    details: params.details,
+    language: languageName(resolveLanguageConfig(params.propertyContext.voice_config?.languages).manager),
+  });
+}
+
 interface CreateWorkOrderParams {
   propertyContext: PropertyContext | null;
   tenantContext: TenantContext | null;
   conversationHistory: Array<{ role: string; content: string }>;
   issueDescription: string;
+  sessionId?: string;
+  // Details the voice agent already collected - override the extracted ones
+  details?: AgentDetails;
+  // Details already extracted (and confirmed with the caller) - skips extraction
+  extraction?: ExtractionResult;
+  // An open work order that looked like the same problem, but the caller said it isn't
+  possibleDuplicateOf?: { id: string; title: string } | null;
+  // Self-fix steps the caller already tried (see src/self-fix)
+  troubleshooting?: string | null;
 }
 
 export async function createWorkOrder(params: CreateWorkOrderParams): Promise<string | null> {
-  const { propertyContext, tenantContext, conversationHistory, issueDescription } = params;
+  const {
+    propertyContext,
+    tenantContext,
+    conversationHistory,
+    issueDescription,
+    sessionId,
+    details,
+    possibleDuplicateOf,
+    troubleshooting,
+  } = params;
 
   if (!propertyContext || !tenantContext) {
     console.log('Cannot create work order - missing context');
     return null;
   }
 
-  // Use AI to extract ticket details
-  const extractPrompt = `Extract maintenance ticket details from this conversation. Return JSON only:
-{
-  "title": "Brief issue title (5 words max)",
-  "description": "Detailed description of the issue",
-  "category": "plumbing|electrical|hvac|appliance|structural|pest|other",
-  "priority": "low|medium|high|emergency",
-  "location": "Where in the unit the issue is"
-}`;
-
-  let ticketDetails;
-  try {
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: extractPrompt },
-        { role: 'user', content: issueDescription },
-      ],
-      max_tokens: 200,
-      temperature: 0.3,
-    });
-
-    const content = response.choices[0]?.message?.content || '{}';
-    ticketDetails = JSON.parse(content.replace(/```json\n?|\n?```/g, ''));
-  } catch (error) {
-    console.error('Failed to extract ticket details:', error);
-    ticketDetails = {
-      title: 'Maintenance Request via Phone',
-      description: issueDescription,
-      category: 'other',
-      priority: 'medium',
-      location: 'Not specified',
-    };
-  }
+  const extraction =
+    params.extraction || (await extractTicketDetails({ propertyContext, issueDescription, sessionId, details }));
+  const ticketDetails = extraction.fields;
+  const description =
+    (ticketDetails.location
+      ? `${ticketDetails.description}\n\nLocation: ${ticketDetails.location}`
+      : ticketDetails.description) + (troubleshooting ? `\n\n${troubleshooting}` : '');
 
   // Build transcript
   const transcript = conversationHistory.map((m) => `${m.role}: ${m.content}`).join('\n');
@@ -153,12 +158,16 @@ export async function createWorkOrder(params: CreateWorkOrderParams): Promise<st
       unit_id: tenantContext.unit_id,
       tenant_id: tenantContext.id,
       title: ticketDetails.title,
-      description: ticketDetails.description,
+      description,
       category: ticketDetails.category,
       priority: ticketDetails.priority,
       status: 'pending',
       source: 'phone',
       ai_summary: `Phone call transcript:\n${transcript}`,
+      needs_review: extraction.reviewFlags.length > 0 || !!possibleDuplicateOf,
+      review_flags: extraction.reviewFlags,
+      extraction_confidence: extraction.confidence,
+      possible_duplicate_of: possibleDuplicateOf?.id || null,
     })
     .select()
     .single();
@@ -175,10 +184,203 @@ export async function createWorkOrder(params: CreateWorkOrderParams): Promise<st
     user_id: propertyContext.user_id,
     type: 'new_work_order',
     title: 'New Maintenance Request (Phone)',
-    message: `${tenantContext.name} called about: ${ticketDetails.title}`,
+    message: `${tenantContext.name} called about: ${ticketDetails.title}` +
+      (extraction.reviewFlags.length > 0 ? ' (some details need review)' : '') +
+      (possibleDuplicateOf ? ` - may be the same as "${possibleDuplicateOf.title}"` : ''),
     read: false,
-    metadata: { work_order_id: workOrder.id },
+    metadata: {
+      work_order_id: workOrder.id,
+      review_fields: extraction.reviewFlags.map((flag) => flag.field),
+      ...(possibleDuplicateOf && { possible_duplicate_of: possibleDuplicateOf.id }),
+    },
   });
 
   return workOrder.id;
 }
+
+// Work orders a tenant can still change
+const CANCELLABLE_STATUSES = ['pending', 'assigned', 'scheduled'];
+// Work orders that are no longer open
+const CLOSED_STATUSES = ['completed', 'cancelled', 'closed'];
+
+export interface OpenWorkOrder extends DuplicateCandidate {
+  tenant_id: string | null;
+}
+
+/**
+ * Open work orders at a property - candidates for a repeat report
+ */
+export async function getOpenWorkOrders(propertyId: string): Promise<OpenWorkOrder[]> {
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .select('id, title, category, status, unit_id, tenant_id, created_at')
+    .eq('property_id', propertyId)
+    .not('status', 'in', `(${CLOSED_STATUSES.join(',')})`)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.error('Failed to fetch open work orders:', error);
+    throw new Error(`Failed to fetch open work orders: ${error.message}`);
+  }
+  return (data || []) as OpenWorkOrder[];
+}
+
+interface AppendToWorkOrderParams {
+  workOrder: { id: string; title: string };
+  propertyContext: PropertyContext;
+  tenantContext: TenantContext;
+  issueDescription: string;
+  sessionId?: string;
+  details?: AgentDetails;
+  troubleshooting?: string | null;
+}
+
+/**
+ * Add a repeat report of an open problem to its work order instead of
+ * opening a second one, and let the PM know
+ */
+export async function appendToWorkOrder(params: AppendToWorkOrderParams): Promise<boolean> {
+  const { workOrder, propertyContext, tenantContext, issueDescription, sessionId, details, troubleshooting } = params;
+
+  const extraction = await extractTicketDetails({ propertyContext, issueDescription, sessionId, details });
+  const { description, location } = extraction.fields;
+
+  const added = await insertWorkOrderNote(
+    workOrder.id,
+    propertyContext,
+    tenantContext,
+    `Reported again by ${tenantContext.name} by phone: ${description}${location ? ` (${location})` : ''}` +
+      (troubleshooting ? `\n\n${troubleshooting}` : '')
+  );
+  if (!added) return false;
+
+  await getSupabase().from('notifications').insert({
+    user_id: propertyContext.user_id,
+    type: 'work_order_repeat_report',
+    title: 'Repeat Report (Phone)',
+    message: `${tenantContext.name} called about an open request: ${workOrder.title}`,
+    read: false,
+    metadata: { work_order_id: workOrder.id },
+  });
+  return true;
+}
+
+export interface TenantWorkOrder {
+  id: string;
+  title: string;
+  status: string;
+  priority: string;
+  category: string;
+  created_at: string;
+  updated_at: string | null;
+  scheduled_date: string | null;
+  vendor: { name: string } | null;
+}
+
+/**
+ * A tenant's open work orders, plus ones closed in the last recentDays, newest first
+ */
+export async function getTenantWorkOrders(tenantId: string, recentDays = 30): Promise<TenantWorkOrder[]> {
+  const since = new Date(Date.now() - recentDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .select('id, title, status, priority, category, created_at, updated_at, scheduled_date, vendor:vendors(name)')
+    .eq('tenant_id', tenantId)
+    .or(`status.not.in.(${CLOSED_STATUSES.join(',')}),updated_at.gte.${since}`)
+    .order('created_at', { ascending: false })
+    .limit(10)
+    .overrideTypes<TenantWorkOrder[], { merge: false }>();
+
+  if (error) {
+    console.error('Failed to fetch tenant work orders:', error);
+    throw new Error(`Failed to fetch work orders: ${error.message}`);
+  }
+  return data || [];
+}
+
+interface WorkOrderChangeParams {
+  workOrderId: string;
+  propertyContext: PropertyContext;
+  tenantContext: TenantContext;
+}
+
+async function insertWorkOrderNote(
+  workOrderId: string,
+  propertyContext: PropertyContext,
+  tenantContext: TenantContext,
+  content: string
+): Promise<boolean> {
+  const { error } = await getSupabase().from('work_order_notes').insert({
+    work_order_id: workOrderId,
+    user_id: propertyContext.user_id,
+    tenant_id: tenantContext.id,
+    content,
+    source: 'phone',
+  });
+  if (error) {
+    console.error('Failed to add work order note:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Add a note from the tenant to a work order and let the PM know
+ */
+export async function addWorkOrderNote(params: WorkOrderChangeParams & { note: string }): Promise<boolean> {
+  const { workOrderId, propertyContext, tenantContext, note } = params;
+
+  if (!(await insertWorkOrderNote(workOrderId, propertyContext, tenantContext, note))) return false;
+
+  await getSupabase().from('notifications').insert({
+    user_id: propertyContext.user_id,
+    type: 'work_order_note',
+    title: 'Tenant Added a Note (Phone)',
+    message: `${tenantContext.name}: ${note}`,
+    read: false,
+    metadata: { work_order_id: workOrderId },
+  });
+  return true;
+}
+
+/**
+ * Cancel a tenant's work order if it hasn't started yet. Returns false if
+ * it can't be cancelled (already in progress, closed, or not theirs).
+ */
+export async function cancelWorkOrder(params: WorkOrderChangeParams & { reason: string | null }): Promise<boolean> {
+  const { workOrderId, propertyContext, tenantContext, reason } = params;
+
+  const { data, error } = await getSupabase()
+    .from('work_orders')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', workOrderId)
+    .eq('tenant_id', tenantContext.id)
+    .in('status', CANCELLABLE_STATUSES)
+    .select('id, title');
+
+  if (error) {
+    console.error('Failed to cancel work order:', error);
+    return false;
+  }
+  if (!data || data.length === 0) return false;
+
+  await getSupabase().from('notifications').insert({
+    user_id: propertyContext.user_id,
+    type: 'work_order_cancelled',
+    title: 'Request Cancelled by Tenant (Phone)',
+    message: `${tenantContext.name} cancelled: ${data[0].title}${reason ? ` (${reason})` : ''}`,
+    read: false,
+    metadata: { work_order_id: workOrderId },
+  });
+  return true;
+}
+
+export function isWorkOrderCancellable(status: string): boolean {
+  return CANCELLABLE_STATUSES.includes(status);
+}
+
+export function isWorkOrderOpen(status: string): boolean {
+  return !CLOSED_STATUSES.includes(status);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createFailoverTTS } from './failover.js';
+import { TextToSpeechOptions, TextToSpeechProvider, TextToSpeechProviderName } from './types.js';
+
+interface FakeProvider extends TextToSpeechProvider {
+  options: TextToSpeechOptions;
+  sent: string[];
+}
+
+function fakeFactory() {
+  const created: FakeProvider[] = [];
+  const factory = async (name: TextToSpeechProviderName, options: TextToSpeechOptions) => {
+    const provider: FakeProvider = {
+      provider: name,
+      options,
+      sent: [],
+      addText: (text) => provider.sent.push(text),
+      flush: () => provider.sent.push('<flush>'),
+      interrupt: () => {},
+      close: () => {},
+    };
+    created.push(provider);
+    return provider;
+  };
+  return { created, factory };
+}
+
+const options = () => ({ sessionId: 'test-session', onAudio: vi.fn(), onDone: vi.fn() });
+
+describe('createFailoverTTS', () => {
+  it('replays only the sentences not yet spoken', async () => {
+    const { created, factory } = fakeFactory();
+    const tts = await createFailoverTTS(['openai', 'elevenlabs'], options(), factory);
+    tts.addText('Thanks for calling. ');
+    tts.addText('Is the leak under the sink? ');
+    tts.addText('Is the water off?');
+    tts.flush();
+
+    const [openai] = created;
+    openai.options.onDone('Thanks for calling.');
+    openai.options.onFailure?.(new Error('socket closed'));
+    await vi.waitFor(() => expect(created[1]?.sent).toContain('<flush>'));
+
+    expect(created[1].sent.join('')).toBe(' Is the leak under the sink? Is the water off?<flush>');
+  });
+
+  it('replays nothing once the provider has finished everything', async () => {
+    const { created, factory } = fakeFactory();
+    const tts = await createFailoverTTS(['elevenlabs', 'openai'], options(), factory);
+    tts.addText('Your ticket is filed.');
+    tts.flush();
+
+    const [elevenlabs] = created;
+    elevenlabs.options.onDone();
+    elevenlabs.options.onFailure?.(new Error('socket closed'));
+    await vi.waitFor(() => expect(created).toHaveLength(2));
+
+    expect(created[1].sent).toEqual([]);
+  });
+
+  it('drops unspoken text when the caller barges in', async () => {
+    const { created, factory } = fakeFactory();
+    const tts = await createFailoverTTS(['openai', 'elevenlabs'], options(), factory);
+    tts.addText('One moment while I look that up.');
+    tts.interrupt();
+
+    created[0].options.onFailure?.(new Error('socket closed'));
+    await vi.waitFor(() => expect(created).toHaveLength(2));
+
+    expect(created[1].sent).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Text-to-Speech Failover
+ *
+ * Wraps a chain of TTS providers behind one stream. If the active provider
+ * can't be reached at call start, or dies mid-call, the next one takes over
+ * and any text the caller hasn't heard yet is replayed to it.
+ */
+
+import { TextToSpeechProvider, TextToSpeechProviderName, TextToSpeechOptions } from './types.js';
+
+export type TextToSpeechFactory = (
+  name: TextToSpeechProviderName,
+  options: TextToSpeechOptions
+) => Promise<TextToSpeechProvider>;
+
+/**
+ * What's left to speak once a provider has finished a piece of the text.
+ * Providers may trim the whitespace between sentences, so the piece is
+ * found rather than assumed to start the text.
+ */
+function dropSpoken(pendingText: string, spokenText: string): string {
+  const start = pendingText.indexOf(spokenText);
+  return start === -1 ? pendingText : pendingText.slice(start + spokenText.length);
+}
+
+export async function createFailoverTTS(
+  providers: TextToSpeechProviderName[],
+  options: TextToSpeechOptions,
+  factory: TextToSpeechFactory
+): Promise<TextToSpeechProvider> {
+  const sessionId = options.sessionId || 'unknown';
+  const tag = `[TTS:${sessionId.slice(0, 8)}]`;
+
+  let active: TextToSpeechProvider | null = null;
+  let switching = false;
+  let isClosed = false;
+  // Text sent that hasn't been spoken yet - replayed on failover
+  let pendingText = '';
+  let flushPending = false;
+  const failed = new Set<TextToSpeechProviderName>();
+
+  /**
+   * Connect to the first provider in the chain that hasn't failed
+   */
+  const connect = async (): Promise<TextToSpeechProvider | null> => {
+    for (const name of providers) {
+      if (failed.has(name)) continue;
+      try {
+        const provider = await factory(name, {
+          ...options,
+          onDone: (spokenText) => {
+            if (provider !== active) return;
+            pendingText = spokenText ? dropSpoken(pendingText, spokenText) : '';
+            if (!pendingText.trim()) {
+              pendingText = '';
+              flushPending = false;
+            }
+            options.onDone(spokenText);
+          },
+          onAudio: (chunk, text) => {
+            if (provider === active) options.onAudio(chunk, text);
+          },
+          onFailure: (error) => {
+            if (provider === active) handleFailure(name, error);
+          },
+        });
+        return provider;
+      } catch (error) {
+        console.error(`${tag} ${name} unavailable:`, (error as Error).message);
+        failed.add(name);
+      }
+    }
+    return null;
+  };
+
+  const handleFailure = (name: TextToSpeechProviderName, error: Error) => {
+    if (isClosed || switching) return;
+    console.error(`${tag} ${name} failed mid-call, failing over:`, error.message);
+    failed.add(name);
+    const previous = active;
+    active = null;
+    previous?.close();
+    activate().catch((err) => console.error(`${tag} Failover failed:`, err));
+  };
+
+  const activate = async (): Promise<void> => {
+    switching = true;
+    const provider = await connect();
+    switching = false;
+
+    if (isClosed) {
+      provider?.close();
+      return;
+    }
+    if (!provider) {
+      console.error(`${tag} No TTS provider available (tried ${providers.join(', ')})`);
+      return;
+    }
+
+    active = provider;
+    console.log(`${tag} Using ${provider.provider}`);
+
+    // Replay what the caller hasn't heard yet
+    if (pendingText) provider.addText(pendingText);
+    if (flushPending) provider.flush();
+  };
+
+  await activate();
+  if (!active) {
+    throw new Error(`No TTS provider available (tried ${providers.join(', ')})`);
+  }
+
+  return {
+    get provider(): TextToSpeechProviderName {
+      return active?.provider || providers[0];
+    },
+
+    addText: (text: string) => {
+      pendingText += text;
+      active?.addText(text);
+    },
+
+    flush: () => {
+      flushPending = true;
+      active?.flush();
+    },
+
+    interrupt: () => {
+      pendingText = '';
+      flushPending = false;
+      active?.interrupt();
+    },
+
+    close: () => {
+      isClosed = true;
+      active?.close();
+      active = null;
+    },
+  };
+}
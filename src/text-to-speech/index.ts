@@ -0,0 +1,62 @@
+/**
+ * Text-to-Speech
+ *
+ * Creates the synthesis stream for a call from the property's TTS settings.
+ * Providers are tried in order, and the stream fails over to the next one
+ * if the active provider goes down mid-call.
+ *
+ * Environment defaults (overridden per property by voice_config.tts):
+ * - TTS_PROVIDERS: comma-separated failover order (default: elevenlabs,openai)
+ */
+
+import { createElevenLabsTTS } from '../elevenlabs.js';
+import { createOpenAITTS } from './openai-tts.js';
+import { createFailoverTTS } from './failover.js';
+import { TextToSpeechProvider, TextToSpeechProviderName, TextToSpeechOptions, TtsConfig } from './types.js';
+
+export type {
+  TextToSpeechProvider,
+  TextToSpeechProviderName,
+  TextToSpeechOptions,
+  TtsConfig,
+} from './types.js';
+
+const DEFAULT_PROVIDERS: TextToSpeechProviderName[] = ['elevenlabs', 'openai'];
+
+/**
+ * Merge property TTS settings over environment defaults
+ */
+export function resolveTtsConfig(propertyConfig?: TtsConfig | null): TtsConfig {
+  const fromEnv = process.env.TTS_PROVIDERS?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean) as TextToSpeechProviderName[] | undefined;
+
+  const providers = propertyConfig?.providers?.length
+    ? propertyConfig.providers
+    : fromEnv?.length
+      ? fromEnv
+      : DEFAULT_PROVIDERS;
+
+  return { providers };
+}
+
+/**
+ * Open a synthesis stream with the configured provider chain
+ */
+export async function createTextToSpeech(
+  ttsConfig: TtsConfig,
+  options: TextToSpeechOptions
+): Promise<TextToSpeechProvider> {
+  return createFailoverTTS(ttsConfig.providers || DEFAULT_PROVIDERS, options, createProvider);
+}
+
+function createProvider(name: TextToSpeechProviderName, options: TextToSpeechOptions): Promise<TextToSpeechProvider> {
+  switch (name) {
+    case 'elevenlabs':
+      return createElevenLabsTTS(options);
+    case 'openai':
+      return createOpenAITTS(options);
+    default:
+      throw new Error(`Unknown TTS provider: ${name}`);
+  }
+}
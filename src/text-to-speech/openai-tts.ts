@@ -0,0 +1,155 @@
+/**
+ * OpenAI-Compatible Text-to-Speech
+ *
+ * Alternate TTS provider using the /audio/speech endpoint. Works with
+ * OpenAI or any compatible server (set OPENAI_TTS_BASE_URL).
+ *
+ * The endpoint takes whole inputs rather than a token stream, so text is
+ * buffered into sentences and synthesized one request at a time, in order.
+ * Audio comes back as 24kHz PCM and is converted to 8kHz mulaw for Twilio.
+ *
+ * Includes: circuit breaker, cost tracking
+ */
+
+import { config } from 'dotenv';
+import OpenAI from 'openai';
+import { getCircuitBreaker, CircuitOpenError, costTracker } from '../utils/index.js';
+import { PcmToMulawConverter } from '../utils/audio-codec.js';
+import { TextToSpeechProvider, TextToSpeechOptions } from './types.js';
+
+config();
+
+// OpenAI returns raw PCM at 24kHz for response_format 'pcm'
+const PCM_SAMPLE_RATE = 24000;
+
+// Sentence boundary - synthesize as soon as one is complete
+const SENTENCE_END = /[.!?](\s|$)/;
+
+let client: OpenAI;
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_TTS_API_KEY || process.env.OPENAI_API_KEY || '',
+      baseURL: process.env.OPENAI_TTS_BASE_URL || undefined,
+    });
+  }
+  return client;
+}
+
+function getModel(): string {
+  return process.env.OPENAI_TTS_MODEL || 'tts-1';
+}
+
+function getVoice(language?: string): string {
+  const languageVoice = language ? process.env[`OPENAI_TTS_VOICE_${language.toUpperCase()}`] : undefined;
+  return languageVoice || process.env.OPENAI_TTS_VOICE || 'alloy';
+}
+
+// Circuit breaker for OpenAI TTS
+const openaiTtsCircuit = getCircuitBreaker('openai-tts', {
+  failureThreshold: 3,
+  successThreshold: 2,
+  timeout: 30000, // 30 seconds before retry
+  onStateChange: (name, from, to) => {
+    console.log(`[OpenAI TTS Circuit] ${from} → ${to}`);
+  },
+});
+
+export async function createOpenAITTS(config: TextToSpeechOptions): Promise<TextToSpeechProvider> {
+  const sessionId = config.sessionId || 'unknown';
+
+  // Fail fast if the circuit is open - there is no connection to set up
+  if (!openaiTtsCircuit.isAvailable()) {
+    throw new CircuitOpenError('openai-tts');
+  }
+
+  let textBuffer = '';
+  let queue: Promise<void> = Promise.resolve();
+  let generation = 0; // Bumped on interrupt so queued requests are dropped
+  let activeController: AbortController | null = null;
+  let isClosed = false;
+
+  const synthesize = async (text: string, requestGeneration: number): Promise<void> => {
+    if (isClosed || requestGeneration !== generation) return;
+
+    const controller = new AbortController();
+    activeController = controller;
+    const converter = new PcmToMulawConverter(PCM_SAMPLE_RATE);
+
+    try {
+      await openaiTtsCircuit.execute(async () => {
+        const response = await getClient().audio.speech.create(
+          {
+            model: getModel(),
+            voice: getVoice(config.language),
+            input: text,
+            response_format: 'pcm',
+          },
+          { signal: controller.signal }
+        );
+        if (!response.body) throw new Error('OpenAI TTS returned no audio');
+
+        for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+          if (requestGeneration !== generation || isClosed) break;
+          const mulaw = converter.convert(Buffer.from(chunk));
+          if (mulaw.length) config.onAudio(mulaw);
+        }
+      });
+      costTracker.trackOpenAITTS(sessionId, text.length);
+      config.onDone(text);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`[OpenAI TTS:${sessionId.slice(0, 8)}] Synthesis failed:`, error);
+      config.onFailure?.(error as Error);
+    } finally {
+      if (activeController === controller) activeController = null;
+    }
+  };
+
+  const enqueue = (text: string) => {
+    if (!text.trim()) return;
+    const requestGeneration = generation;
+    queue = queue.then(() => synthesize(text, requestGeneration));
+  };
+
+  console.log(`[OpenAI TTS:${sessionId.slice(0, 8)}] Ready (${getModel()}/${getVoice()})`);
+
+  return {
+    provider: 'openai',
+
+    addText: (text: string) => {
+      textBuffer += text;
+      // Send each complete sentence as soon as we have it
+      let match = textBuffer.match(SENTENCE_END);
+      while (match && match.index !== undefined) {
+        const end = match.index + 1;
+        enqueue(textBuffer.slice(0, end));
+        textBuffer = textBuffer.slice(end).trimStart();
+        match = textBuffer.match(SENTENCE_END);
+      }
+    },
+
+    flush: () => {
+      enqueue(textBuffer);
+      textBuffer = '';
+    },
+
+    interrupt: () => {
+      generation++;
+      textBuffer = '';
+      activeController?.abort();
+    },
+
+    close: () => {
+      isClosed = true;
+      textBuffer = '';
+      activeController?.abort();
+    },
+  };
+}
+
+// Export circuit stats for health endpoint
+export function getOpenAITTSCircuitStats() {
+  return openaiTtsCircuit.stats;
+}
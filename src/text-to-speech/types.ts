@@ -0,0 +1,39 @@
+/**
+ * Text-to-Speech Types
+ *
+ * Provider-agnostic interface for streaming speech synthesis.
+ * All providers deliver 8kHz mulaw audio ready for Twilio.
+ */
+
+export type TextToSpeechProviderName = 'elevenlabs' | 'openai';
+
+/**
+ * A live synthesis stream for one call
+ */
+export interface TextToSpeechProvider {
+  readonly provider: TextToSpeechProviderName;
+  addText: (text: string) => void;
+  flush: () => void;
+  // Drop any audio still being generated (caller barged in)
+  interrupt: () => void;
+  close: () => void;
+}
+
+export interface TextToSpeechOptions {
+  sessionId?: string;
+  // Language being spoken - picks a per-language voice if one is configured
+  language?: string;
+  // text is the characters spoken in this chunk, if the provider knows it
+  onAudio: (audioChunk: Buffer, text?: string) => void;
+  // spokenText is the piece just finished, for providers that speak in pieces
+  // (a sentence at a time). Without it, everything sent so far has been spoken.
+  onDone: (spokenText?: string) => void;
+  // The stream died and won't recover on its own
+  onFailure?: (error: Error) => void;
+}
+
+// Per-property TTS settings (properties.voice_config.tts)
+export interface TtsConfig {
+  // Providers in failover order, e.g. ["elevenlabs", "openai"]
+  providers?: TextToSpeechProviderName[];
+}
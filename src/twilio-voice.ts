@@ -0,0 +1,142 @@
+/**
+ * Twilio Voice - Call Control
+ *
+ * Places and updates calls through the Twilio REST API:
+ * - Outbound calls that read out a message (TwiML <Say>) - used to page on-call staff
+ * - Outbound calls with custom TwiML and status callbacks - used for warm transfers
+ * - Live call updates (new TwiML, or hang up) - used to hand callers to a person
+ *
+ * Includes: circuit breaker, retry logic
+ */
+
+import { config } from 'dotenv';
+import { getCircuitBreaker, withRetry, escapeXml } from './utils/index.js';
+
+config();
+
+const TWILIO_API_BASE = 'https://api.twilio.com/2010-04-01';
+
+// Timeout for one REST request
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface OutboundCallParams {
+  to: string;
+  from: string;
+  // Spoken to whoever answers (ignored when twiml is given)
+  message?: string;
+  // How many times the message is read out
+  repeat?: number;
+  // Full TwiML for the call instead of a spoken message
+  twiml?: string;
+  // Seconds to ring before giving up
+  timeout?: number;
+  // Twilio posts call progress here
+  statusCallback?: string;
+  statusCallbackEvents?: Array<'initiated' | 'ringing' | 'answered' | 'completed'>;
+  // Tell a person from voicemail (AnsweredBy in the status callback)
+  machineDetection?: boolean;
+  sessionId?: string;
+}
+
+export interface CallUpdateParams {
+  // Replace what the call is doing with this TwiML
+  twiml?: string;
+  // End the call: canceled (still ringing) or completed (answered)
+  status?: 'canceled' | 'completed';
+  sessionId?: string;
+}
+
+// Circuit breaker for Twilio REST calls
+const twilioVoiceCircuit = getCircuitBreaker('twilio-voice', {
+  failureThreshold: 3,
+  successThreshold: 1,
+  timeout: 30000, // 30 seconds before retry
+  onStateChange: (name, from, to) => {
+    console.log(`[Twilio Voice Circuit] ${from} → ${to}`);
+  },
+});
+
+/**
+ * TwiML that reads a message out, pausing between repeats
+ */
+export function buildSayTwiml(message: string, repeat = 2): string {
+  const say = `<Say>${escapeXml(message)}</Say>`;
+  const body = Array.from({ length: Math.max(repeat, 1) }, () => say).join('<Pause length="1"/>');
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`;
+}
+
+/**
+ * Place an outbound call. Returns the call SID.
+ */
+export async function placeCall(params: OutboundCallParams): Promise<string> {
+  const body = new URLSearchParams({
+    To: params.to,
+    From: params.from,
+    Twiml: params.twiml || buildSayTwiml(params.message || '', params.repeat),
+  });
+  if (params.timeout) body.set('Timeout', String(params.timeout));
+  if (params.statusCallback) {
+    body.set('StatusCallback', params.statusCallback);
+    for (const event of params.statusCallbackEvents || ['completed']) {
+      body.append('StatusCallbackEvent', event);
+    }
+  }
+  if (params.machineDetection) body.set('MachineDetection', 'Enable');
+
+  const data = await twilioRequest('Calls.json', body, params.sessionId);
+  return data.sid;
+}
+
+/**
+ * Change a live call - redirect it to new TwiML or hang it up
+ */
+export async function updateCall(callSid: string, params: CallUpdateParams): Promise<void> {
+  const body = new URLSearchParams();
+  if (params.twiml) body.set('Twiml', params.twiml);
+  if (params.status) body.set('Status', params.status);
+  await twilioRequest(`Calls/${callSid}.json`, body, params.sessionId);
+}
+
+async function twilioRequest(path: string, body: URLSearchParams, sessionId = 'unknown'): Promise<{ sid: string }> {
+  return twilioVoiceCircuit.execute(async () => {
+    return withRetry(
+      async () => postToTwilio(path, body),
+      {
+        maxRetries: 2,
+        baseDelayMs: 500,
+        onRetry: (attempt, error, delayMs) => {
+          console.log(`[TwilioVoice:${sessionId.slice(0, 8)}] Retry ${attempt} after ${delayMs}ms: ${error.message}`);
+        },
+      }
+    );
+  });
+}
+
+async function postToTwilio(path: string, body: URLSearchParams): Promise<{ sid: string }> {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!accountSid || !authToken) {
+    throw new Error('Twilio credentials not configured (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN)');
+  }
+
+  const response = await fetch(`${TWILIO_API_BASE}/Accounts/${accountSid}/${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  const data = (await response.json().catch(() => ({}))) as { sid?: string; message?: string };
+  if (!response.ok || !data.sid) {
+    // Status in the message so withRetry can spot 429/5xx
+    throw new Error(`Twilio request failed (${response.status}): ${data.message || response.statusText}`);
+  }
+  return { sid: data.sid };
+}
+
+export function getTwilioVoiceCircuitStats() {
+  return twilioVoiceCircuit.stats;
+}
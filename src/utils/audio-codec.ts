@@ -0,0 +1,64 @@
+/**
+ * Audio Codec Helpers
+ *
+ * Converts 16-bit PCM to the 8kHz mulaw Twilio media streams expect.
+ */
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+const TWILIO_SAMPLE_RATE = 8000;
+
+/**
+ * Encode one 16-bit linear sample as G.711 mulaw
+ */
+export function linearToMulaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  let magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+/**
+ * Streaming converter from little-endian 16-bit mono PCM to 8kHz mulaw.
+ * Chunks can split samples or decimation groups anywhere - leftovers are
+ * carried into the next call.
+ */
+export class PcmToMulawConverter {
+  private ratio: number;
+  private leftover = Buffer.alloc(0);
+
+  constructor(sourceSampleRate: number) {
+    if (sourceSampleRate % TWILIO_SAMPLE_RATE !== 0) {
+      throw new Error(`Unsupported PCM sample rate ${sourceSampleRate} (must be a multiple of 8000)`);
+    }
+    this.ratio = sourceSampleRate / TWILIO_SAMPLE_RATE;
+  }
+
+  convert(chunk: Buffer): Buffer {
+    const data = this.leftover.length ? Buffer.concat([this.leftover, chunk]) : chunk;
+    const bytesPerGroup = this.ratio * 2;
+    const groups = Math.floor(data.length / bytesPerGroup);
+    const out = Buffer.alloc(groups);
+
+    for (let g = 0; g < groups; g++) {
+      // Average each group of samples (simple low-pass before decimating)
+      let sum = 0;
+      for (let i = 0; i < this.ratio; i++) {
+        sum += data.readInt16LE(g * bytesPerGroup + i * 2);
+      }
+      out[g] = linearToMulaw(Math.round(sum / this.ratio));
+    }
+
+    this.leftover = Buffer.from(data.subarray(groups * bytesPerGroup));
+    return out;
+  }
+
+  reset(): void {
+    this.leftover = Buffer.alloc(0);
+  }
+}
@@ -51,6 +51,14 @@ export class CircuitBreaker {
     };
   }
 
+  /**
+   * Whether a request would be attempted right now (closed, half-open,
+   * or open long enough to try half-open)
+   */
+  isAvailable(): boolean {
+    return this.state !== 'OPEN' || this.shouldAttemptReset();
+  }
+
   private transitionTo(newState: CircuitState) {
     if (this.state !== newState) {
       const oldState = this.state;
@@ -21,15 +21,27 @@ const PRICING = {
     charactersPerDollar: 10000, // ~$0.0001 per character (Starter plan)
     model: 'eleven_turbo_v2_5',
   },
+  openaiTts: {
+    perMillionCharacters: 15, // tts-1
+    model: 'tts-1',
+  },
   deepgram: {
     perMinute: 0.0043, // Nova-2 streaming
     model: 'nova-2',
   },
   openai: {
-    // GPT-4o-mini pricing
-    inputPerMillion: 0.15, // $0.15 per 1M input tokens
-    outputPerMillion: 0.6, // $0.60 per 1M output tokens
-    model: 'gpt-4o-mini',
+    // Per 1M tokens. Dated snapshots (gpt-4o-2024-08-06) match by prefix;
+    // unknown models (self-hosted) are tracked at zero cost
+    models: {
+      'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+      'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+      'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+      'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+      'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+      'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+      'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    } as Record<string, { inputPerMillion: number; outputPerMillion: number }>,
+    defaultModel: 'gpt-4o-mini',
   },
   twilio: {
     voicePerMinute: 0.014, // Inbound voice
@@ -37,6 +49,18 @@ const PRICING = {
   },
 };
 
+/**
+ * Pricing for a chat model - exact match first, then the longest known prefix
+ */
+function getModelPricing(model: string): { inputPerMillion: number; outputPerMillion: number } | null {
+  const models = PRICING.openai.models;
+  if (models[model]) return models[model];
+  const prefix = Object.keys(models)
+    .filter((known) => model.startsWith(known))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? models[prefix] : null;
+}
+
 class CostTracker {
   private entries: CostEntry[] = [];
   private sessionCosts = new Map<string, number>();
@@ -57,6 +81,22 @@ class CostTracker {
     });
   }
 
+  /**
+   * Track OpenAI TTS cost
+   */
+  trackOpenAITTS(sessionId: string, characters: number): CostEntry {
+    const cost = (characters / 1_000_000) * PRICING.openaiTts.perMillionCharacters;
+    return this.addEntry({
+      service: 'openai-tts',
+      operation: 'tts',
+      units: characters,
+      unitType: 'characters',
+      estimatedCost: cost,
+      sessionId,
+      timestamp: Date.now(),
+    });
+  }
+
   /**
    * Track Deepgram STT cost
    */
@@ -75,16 +115,22 @@ class CostTracker {
   }
 
   /**
-   * Track OpenAI cost
+   * Track OpenAI (or compatible) chat cost at the model's pricing
    */
-  trackOpenAI(sessionId: string, inputTokens: number, outputTokens: number): CostEntry {
-    const inputCost = (inputTokens / 1_000_000) * PRICING.openai.inputPerMillion;
-    const outputCost = (outputTokens / 1_000_000) * PRICING.openai.outputPerMillion;
+  trackOpenAI(
+    sessionId: string,
+    inputTokens: number,
+    outputTokens: number,
+    model: string = PRICING.openai.defaultModel
+  ): CostEntry {
+    const pricing = getModelPricing(model);
+    const inputCost = (inputTokens / 1_000_000) * (pricing?.inputPerMillion ?? 0);
+    const outputCost = (outputTokens / 1_000_000) * (pricing?.outputPerMillion ?? 0);
     const totalCost = inputCost + outputCost;
 
     return this.addEntry({
       service: 'openai',
-      operation: 'chat',
+      operation: `chat:${model}`,
       units: inputTokens + outputTokens,
       unitType: 'tokens',
       estimatedCost: totalCost,
@@ -40,3 +40,5 @@ export {
   trackCost,
   trackTranscriptCharacters,
 } from './metrics.js';
+
+export { escapeXml } from './xml.js';
@@ -0,0 +1,30 @@
+/**
+ * Stemming
+ *
+ * Light English suffix stripping for matching a caller's words against
+ * stored text. Not a full Porter stemmer - just plurals and -ing/-ed, which
+ * is where spoken descriptions and written titles usually differ.
+ */
+
+// Words that end in a single vowel and consonant once a suffix is off
+// ("pip" from "piping", "us" from "used") had a silent e
+const SILENT_E_STEM = /^[^aeiou]*[aeiou][^aeiouwxy]$/;
+// A consonant doubled before -ing/-ed ("dripping", "clogged")
+const DOUBLED_CONSONANT = /([bdgmnprt])\1$/;
+
+/**
+ * A word with its plural and -ing/-ed endings off, so "leaking", "leaked"
+ * and "leaks" all match "leak", and "pipes" and "piping" match "pipe"
+ */
+export function stem(word: string): string {
+  if (/ie[sd]$/.test(word) && word.length > 4) return word.slice(0, -3) + 'y';
+  if (/(ss|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word) && !/[iu]s$/.test(word) && word.length > 3) return word.slice(0, -1);
+
+  const suffix = word.match(/(ing|(?<!e)ed)$/)?.[0];
+  if (!suffix) return word;
+  const base = word.slice(0, -suffix.length);
+  if (!/[aeiouy]/.test(base)) return word;
+  if (DOUBLED_CONSONANT.test(base)) return base.slice(0, -1);
+  return SILENT_E_STEM.test(base) ? base + 'e' : base;
+}
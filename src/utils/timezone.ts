@@ -0,0 +1,97 @@
+/**
+ * Timezone Helpers
+ *
+ * Wall-clock time in a property's timezone, using Intl only (no tz database
+ * of our own). Dates are handled as local calendar parts, never as the
+ * server's local time.
+ */
+
+export interface ZonedParts {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday
+  weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether Intl knows this IANA timezone (e.g. "America/Chicago")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The wall-clock date and time at an instant in a timezone
+ */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
+
+/**
+ * Calendar date a number of days after the given one, as YYYY-MM-DD
+ */
+export function addDays(parts: Pick<ZonedParts, 'year' | 'month' | 'day'>, days: number): string {
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant a wall-clock time happens in a timezone. A time in the hour
+ * skipped by a DST change comes out an hour early; one in the repeated hour
+ * is the first of the two.
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  // Guess with the offset at the wall-clock time read as UTC, then correct
+  // once with the offset at the guess (differs only around a DST change)
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = zonedParts(new Date(instant), timeZone);
+    const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+    instant += wallClock - localAsUtc;
+  }
+  return new Date(instant);
+}
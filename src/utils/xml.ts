@@ -0,0 +1,17 @@
+/**
+ * XML Helpers
+ *
+ * Escaping for values placed in TwiML.
+ */
+
+/**
+ * Escape XML special characters
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
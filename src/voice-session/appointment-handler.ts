@@ -0,0 +1,136 @@
+/**
+ * Voice Session - Appointment Handler
+ *
+ * Offers visit times for the work order created on this call and books the
+ * one the caller picks (see src/scheduling). The agent refers to offered
+ * slots by number ("slot 2"); each new offer replaces the last.
+ */
+
+import { SessionLogger } from '../utils/index.js';
+import { logWorkOrderEvent } from '../session-recorder/index.js';
+import { resolveBusinessHours } from '../business-hours/index.js';
+import { intlLocale, SupportedLanguage } from '../locales/index.js';
+import {
+  parseTimePreference,
+  findAvailableSlots,
+  bookAppointment,
+  describeSlot,
+  getSchedulableWorkOrder,
+  isSchedulable,
+  resolveSchedulingConfig,
+  AppointmentSlot,
+  BookingResult,
+} from '../scheduling/index.js';
+import { PropertyContext, TenantContext } from './types.js';
+
+// Tools that book visits - verified callers with a work order from this call
+export const SCHEDULING_TOOLS = ['find_appointment_slots', 'book_appointment'];
+
+export interface AppointmentContext {
+  log: SessionLogger;
+  propertyContext: PropertyContext;
+  tenantContext: TenantContext;
+  workOrderId: string;
+  // Caller's language, for the times read out
+  language: SupportedLanguage;
+}
+
+export type SlotOffer =
+  // understood: the caller's preference was parsed (or they had none)
+  | { status: 'offered'; slots: AppointmentSlot[]; understood: boolean }
+  // filtered: nothing fits their preference, though other times may be open
+  | { status: 'none_available'; filtered: boolean }
+  | { status: 'already_scheduled'; when: string }
+  | { status: 'not_schedulable' };
+
+function propertyTimezone(propertyContext: PropertyContext): string {
+  return resolveBusinessHours(propertyContext.voice_config?.business_hours).timezone;
+}
+
+/**
+ * Whether calls at this property offer appointments at all
+ */
+export function schedulingEnabled(propertyContext: PropertyContext | null): boolean {
+  return !!propertyContext && resolveSchedulingConfig(propertyContext.voice_config?.scheduling).enabled;
+}
+
+/**
+ * Slots that fit what the caller said suits them. Anything the parser
+ * doesn't understand falls back to the earliest slots.
+ */
+export async function offerSlots(ctx: AppointmentContext, preference: string | null): Promise<SlotOffer> {
+  const timezone = propertyTimezone(ctx.propertyContext);
+
+  const workOrder = await getSchedulableWorkOrder(ctx.workOrderId, ctx.tenantContext.id);
+  if (!workOrder || !isSchedulable(workOrder)) return { status: 'not_schedulable' };
+  if (workOrder.scheduled_date) {
+    const when = new Intl.DateTimeFormat(intlLocale(ctx.language), {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZone: timezone,
+    }).format(new Date(workOrder.scheduled_date));
+    return { status: 'already_scheduled', when };
+  }
+
+  const parsed = preference ? parseTimePreference(preference, timezone) : null;
+  const understood = !preference || !!parsed;
+
+  ctx.log.startTimer('find_slots');
+  const slots = await findAvailableSlots({
+    propertyContext: ctx.propertyContext,
+    category: workOrder.category,
+    preference: parsed || { dates: null, from: null, to: null, weekdays: null },
+  });
+  ctx.log.infoWithLatency('find_slots', 'Appointment slots found', { preference, parsed, count: slots.length });
+
+  return slots.length > 0 ? { status: 'offered', slots, understood } : { status: 'none_available', filtered: !!parsed };
+}
+
+/**
+ * What the agent reads out for an offered slot
+ */
+export function describeOfferedSlot(ctx: AppointmentContext, slot: AppointmentSlot, number: number) {
+  return {
+    slot: number,
+    when: describeSlot(slot, propertyTimezone(ctx.propertyContext), ctx.language),
+    ...(slot.provider && { with: slot.provider }),
+  };
+}
+
+/**
+ * Book the slot the caller picked, with their entry permission and access
+ * notes, and log it to their history
+ */
+export async function book(
+  ctx: AppointmentContext,
+  slot: AppointmentSlot,
+  permissionToEnter: boolean | null,
+  accessNotes: string | null
+): Promise<BookingResult> {
+  const result = await bookAppointment({
+    workOrderId: ctx.workOrderId,
+    propertyContext: ctx.propertyContext,
+    tenantContext: ctx.tenantContext,
+    slot,
+    permissionToEnter,
+    accessNotes,
+  });
+  ctx.log.info('Appointment booking', { workOrderId: ctx.workOrderId, result, start: slot.start.toISOString() });
+
+  if (result === 'booked') {
+    const when = describeSlot(slot, propertyTimezone(ctx.propertyContext));
+    const entry =
+      permissionToEnter === true ? 'may enter if not home' : permissionToEnter === false ? 'must be home' : 'entry not discussed';
+    await logWorkOrderEvent(
+      ctx.tenantContext.id,
+      ctx.propertyContext.user_id,
+      ctx.workOrderId,
+      'updated',
+      `Appointment booked by phone: ${when} (${entry})${accessNotes ? `. Access notes: ${accessNotes}` : ''}`
+    ).catch((error) => ctx.log.error('Failed to log appointment', { error: (error as Error).message }));
+  }
+  return result;
+}
@@ -1,71 +1,161 @@
 /**
  * Voice Session - Audio Handler
  *
- * Handles audio streaming between Twilio, Deepgram, and ElevenLabs.
+ * Handles audio streaming between Twilio, the STT provider, and the TTS provider.
+ * Both streams can be reopened mid-call when the caller switches language.
  */
 
 import { WebSocket } from 'ws';
-import { createDeepgramSTT, DeepgramSTT } from '../deepgram.js';
-import { createElevenLabsTTS, ElevenLabsTTS } from '../elevenlabs.js';
+import {
+  createSpeechToText,
+  resolveSttConfig,
+  SpeechToTextProvider,
+  SttConfig,
+  VocabularyTerm,
+} from '../speech-to-text/index.js';
+import { createTextToSpeech, resolveTtsConfig, TextToSpeechProvider, TtsConfig } from '../text-to-speech/index.js';
 import { SessionLogger } from '../utils/index.js';
+import { PlaybackTracker } from './playback.js';
 
 export interface AudioConfig {
   sessionId: string;
   log: SessionLogger;
   socket: WebSocket;
   streamSid: string;
-  onTranscript: (transcript: string, isFinal: boolean) => void;
+  sttConfig?: SttConfig | null;
+  ttsConfig?: TtsConfig | null;
+  // Language the TTS voice is picked for
+  language?: string;
+  // Words to boost in recognition (tenant names, unit labels, ...)
+  vocabulary?: VocabularyTerm[];
+  onTranscript: (transcript: string, isFinal: boolean, speechFinal: boolean) => void;
+  onSpeechStarted?: () => void;
+  onUtteranceEnd?: () => void;
 }
 
 export interface AudioComponents {
-  deepgram: DeepgramSTT | null;
-  tts: ElevenLabsTTS | null;
+  stt: SpeechToTextProvider | null;
+  tts: TextToSpeechProvider | null;
+  playback: PlaybackTracker;
   totalTTSCharacters: number;
   totalSTTDurationMs: number;
+  // Open a new stream with the call's settings in another language
+  openSTT: (language?: string) => Promise<SpeechToTextProvider>;
+  openTTS: (language?: string) => Promise<TextToSpeechProvider>;
 }
 
 /**
  * Initialize audio components (STT and TTS)
  */
 export async function initializeAudio(config: AudioConfig): Promise<AudioComponents> {
-  const { log, sessionId, socket, streamSid, onTranscript } = config;
-
-  // Initialize Deepgram STT
-  log.startTimer('deepgram_init');
-  const deepgram = await createDeepgramSTT({
-    sessionId,
-    onTranscript,
-    onError: (error) => log.error('Deepgram error', { error: error.message }),
+  const { log, sessionId, socket, streamSid, onTranscript, onSpeechStarted, onUtteranceEnd } = config;
+
+  // Initialize STT with the property's provider/model/language
+  const sttConfig = resolveSttConfig(config.sttConfig);
+  const openSTT = (language?: string) =>
+    createSpeechToText(
+      { ...sttConfig, language: language || sttConfig.language },
+      {
+        sessionId,
+        vocabulary: config.vocabulary,
+        onTranscript,
+        onSpeechStarted,
+        onUtteranceEnd,
+        onError: (error) => log.error('STT error', { provider: sttConfig.provider, error: error.message }),
+      }
+    );
+  log.startTimer('stt_init');
+  const stt = await openSTT();
+  log.infoWithLatency('stt_init', 'STT initialized', {
+    provider: stt.provider,
+    model: sttConfig.model,
+    language: sttConfig.language,
+    vocabularyTerms: config.vocabulary?.length || 0,
   });
-  log.infoWithLatency('deepgram_init', 'Deepgram STT initialized');
-
-  // Initialize ElevenLabs TTS
-  log.startTimer('elevenlabs_init');
-  const tts = await createElevenLabsTTS({
-    sessionId,
-    onAudio: (audioChunk) => sendAudioToTwilio(socket, streamSid, audioChunk),
-    onDone: () => log.debug('TTS chunk complete'),
+
+  // Initialize TTS with the property's provider chain
+  const ttsConfig = resolveTtsConfig(config.ttsConfig);
+  const playback = new PlaybackTracker();
+  const openTTS = (language?: string) =>
+    createTextToSpeech(ttsConfig, {
+      sessionId,
+      language: language || config.language,
+      onAudio: (audioChunk, text) => {
+        const markName = playback.recordAudio(audioChunk, text);
+        sendAudioToTwilio(socket, streamSid, audioChunk);
+        sendMarkToTwilio(socket, streamSid, markName);
+      },
+      onDone: () => log.debug('TTS chunk complete'),
+    });
+  log.startTimer('tts_init');
+  const tts = await openTTS();
+  log.infoWithLatency('tts_init', 'TTS initialized', {
+    provider: tts.provider,
+    failover: ttsConfig.providers,
+    language: config.language,
   });
-  log.infoWithLatency('elevenlabs_init', 'ElevenLabs TTS initialized');
 
   return {
-    deepgram,
+    stt,
     tts,
+    playback,
     totalTTSCharacters: 0,
     totalSTTDurationMs: 0,
+    openSTT,
+    openTTS,
   };
 }
 
+/**
+ * Reopen STT in another language. The old stream keeps working until the
+ * new one is ready.
+ */
+export async function switchSttLanguage(audio: AudioComponents, log: SessionLogger, language: string): Promise<void> {
+  log.startTimer('stt_switch');
+  const stt = await audio.openSTT(language);
+  // Call ended while we were connecting
+  if (!audio.stt) {
+    stt.close();
+    return;
+  }
+  audio.stt.close();
+  audio.stt = stt;
+  log.infoWithLatency('stt_switch', 'STT language switched', { language });
+}
+
+/**
+ * Reopen TTS in another language. The new stream only replaces the old one
+ * while nothing is being said (isIdle) - otherwise it is dropped and false
+ * returned, so the switch can be tried again after the next reply.
+ */
+export async function switchTtsLanguage(
+  audio: AudioComponents,
+  log: SessionLogger,
+  language: string,
+  isIdle: () => boolean
+): Promise<boolean> {
+  log.startTimer('tts_switch');
+  const tts = await audio.openTTS(language);
+  if (!audio.tts || !isIdle()) {
+    tts.close();
+    return !audio.tts;
+  }
+  audio.tts.close();
+  audio.tts = tts;
+  log.infoWithLatency('tts_switch', 'TTS language switched', { language, provider: tts.provider });
+  return true;
+}
+
 /**
  * Process incoming audio from Twilio
  */
 export function handleIncomingAudio(
-  deepgram: DeepgramSTT | null,
+  stt: SpeechToTextProvider | null,
   base64Audio: string
 ): number {
-  if (deepgram) {
+  if (stt) {
     const audioBuffer = Buffer.from(base64Audio, 'base64');
-    deepgram.send(audioBuffer);
+    stt.send(audioBuffer);
     // Return duration added (~20ms per chunk at 8kHz mulaw)
     return 20;
   }
@@ -73,15 +163,17 @@ export function handleIncomingAudio(
 }
 
 /**
- * Send text to TTS for speech synthesis
+ * Send text to TTS for speech synthesis (as its own assistant turn)
  */
 export function speakText(
-  tts: ElevenLabsTTS | null,
+  audio: AudioComponents,
   text: string
 ): number {
-  if (tts) {
-    tts.addText(text);
-    tts.flush();
+  if (audio.tts) {
+    audio.playback.beginTurn();
+    audio.playback.addText(text);
+    audio.tts.addText(text);
+    audio.tts.flush();
     return text.length;
   }
   return 0;
@@ -91,11 +183,12 @@ export function speakText(
  * Add text to TTS stream (for token streaming)
  */
 export function addTTSText(
-  tts: ElevenLabsTTS | null,
+  audio: AudioComponents,
   text: string
 ): number {
-  if (tts) {
-    tts.addText(text);
+  if (audio.tts) {
+    audio.playback.addText(text);
+    audio.tts.addText(text);
     return text.length;
   }
   return 0;
@@ -104,12 +197,28 @@ export function addTTSText(
 /**
  * Flush remaining TTS audio
  */
-export function flushTTS(tts: ElevenLabsTTS | null): void {
+export function flushTTS(tts: TextToSpeechProvider | null): void {
   if (tts) {
     tts.flush();
   }
 }
 
+/**
+ * Stop assistant playback immediately (barge-in).
+ * Clears Twilio's audio buffer and cancels the TTS generation in progress.
+ */
+export function interruptPlayback(
+  audio: AudioComponents,
+  socket: WebSocket,
+  streamSid: string
+): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ event: 'clear', streamSid }));
+  }
+  audio.tts?.interrupt();
+  audio.playback.reset();
+}
+
 /**
  * Send audio chunk to Twilio
  */
@@ -130,13 +239,32 @@ function sendAudioToTwilio(
   }
 }
 
+/**
+ * Send a mark to Twilio - it is echoed back once the audio before it has played
+ */
+function sendMarkToTwilio(
+  socket: WebSocket,
+  streamSid: string,
+  markName: string
+): void {
+  const message = {
+    event: 'mark',
+    streamSid,
+    mark: { name: markName },
+  };
+
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
 /**
  * Cleanup audio components
  */
 export function cleanupAudio(components: AudioComponents): void {
-  if (components.deepgram) {
-    components.deepgram.close();
-    components.deepgram = null;
+  if (components.stt) {
+    components.stt.close();
+    components.stt = null;
   }
   if (components.tts) {
     components.tts.close();
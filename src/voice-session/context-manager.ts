@@ -0,0 +1,246 @@
+/**
+ * Voice Session - Context Manager
+ *
+ * Keeps what the model sees under a token budget on long calls. Older
+ * turns are folded into a running summary, and key facts (who is calling,
+ * the issue, how to get in) are pinned so compression never loses them.
+ * The full message list is still kept for tickets and the transcript.
+ */
+
+import { completeChat, estimateTokens, estimateMessagesTokens, LLMConfig } from '../llm/index.js';
+import { SessionLogger } from '../utils/index.js';
+import {
+  ConversationMessage,
+  MAX_CONVERSATION_MESSAGES,
+  CONTEXT_KEEP_RECENT_MESSAGES,
+  CONTEXT_COMPACT_AT,
+  CONTEXT_COMPACT_TO,
+} from './types.js';
+
+export const PINNED_FACTS = ['caller', 'unit', 'issue', 'access'] as const;
+export type PinnedFact = (typeof PINNED_FACTS)[number];
+
+const FACT_LABELS: Record<PinnedFact, string> = {
+  caller: 'Caller',
+  unit: 'Unit',
+  issue: 'Issue',
+  access: 'Access / entry instructions',
+};
+
+const SUMMARY_SCHEMA = {
+  name: 'call_context_summary',
+  schema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'Running summary of the call so far' },
+      caller: { type: 'string', description: 'Caller name, or ""' },
+      unit: { type: 'string', description: 'Unit number, or ""' },
+      issue: { type: 'string', description: 'The problem reported and where, or ""' },
+      access: { type: 'string', description: 'Entry permission, pets, alarm codes, best times, or ""' },
+    },
+    required: ['summary', 'caller', 'unit', 'issue', 'access'],
+    additionalProperties: false,
+  } as Record<string, unknown>,
+};
+
+const SUMMARY_PROMPT = `You keep the notes for an ongoing phone call between a tenant and a property maintenance assistant.
+Fold the new turns into the summary so far. Keep it under 120 words: what the caller wants, what was asked and answered, what was promised.
+Also pull out the caller's name, unit, the issue and any access instructions. Use "" for anything not mentioned.`;
+
+export interface ContextManagerConfig {
+  sessionId: string;
+  log: SessionLogger;
+  llmConfig?: LLMConfig | null;
+  // Input tokens the model may see (system prompt + history)
+  budget: number;
+}
+
+export class ConversationContext {
+  // Every message, oldest first (capped at MAX_CONVERSATION_MESSAGES)
+  readonly messages: ConversationMessage[] = [];
+
+  private sessionId: string;
+  private log: SessionLogger;
+  private llmConfig: LLMConfig | null;
+  private budget: number;
+
+  private summary = '';
+  private facts: Partial<Record<PinnedFact, string>> = {};
+  // Facts set by the session (e.g. verified identity) - the summary can't override these
+  private hostFacts = new Set<PinnedFact>();
+  // Messages before this index are covered by the summary
+  private summarizedCount = 0;
+  // Messages dropped by the cap so far - lets a summary in flight find its place
+  private droppedCount = 0;
+  private systemPromptTokens = 0;
+  private compacting = false;
+
+  constructor(config: ContextManagerConfig) {
+    this.sessionId = config.sessionId;
+    this.log = config.log;
+    this.llmConfig = config.llmConfig || null;
+    this.budget = config.budget;
+  }
+
+  add(message: ConversationMessage): void {
+    this.messages.push(message);
+    const overflow = this.messages.length - MAX_CONVERSATION_MESSAGES;
+    if (overflow > 0) {
+      if (overflow > this.summarizedCount) {
+        this.log.warn('Dropping messages that were never summarized', { count: overflow - this.summarizedCount });
+      }
+      this.messages.splice(0, overflow);
+      this.summarizedCount = Math.max(0, this.summarizedCount - overflow);
+      this.droppedCount += overflow;
+    }
+  }
+
+  /**
+   * Pin a fact the session knows for sure (e.g. the verified caller's name)
+   */
+  setFact(fact: PinnedFact, value: string | null | undefined): void {
+    if (!value?.trim()) return;
+    this.facts[fact] = value.trim();
+    this.hostFacts.add(fact);
+  }
+
+  /**
+   * Summary and pinned facts, for the end of the system prompt
+   */
+  buildPromptSection(): string {
+    const sections: string[] = [];
+    if (this.summary) {
+      sections.push(`EARLIER IN THE CALL:\n${this.summary}`);
+    }
+    const facts = PINNED_FACTS.filter((fact) => this.facts[fact]).map(
+      (fact) => `- ${FACT_LABELS[fact]}: ${this.facts[fact]}`
+    );
+    if (facts.length > 0) {
+      sections.push(`KEY FACTS:\n${facts.join('\n')}`);
+    }
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Messages to send with this system prompt: everything not yet summarized,
+   * trimmed from the oldest end if it would still go over budget
+   */
+  modelMessages(systemPrompt: string): ConversationMessage[] {
+    this.systemPromptTokens = estimateTokens(systemPrompt);
+    const available = this.budget - this.systemPromptTokens;
+
+    let start = this.summarizedCount;
+    let tokens = estimateMessagesTokens(this.messages.slice(start));
+    // Always send the latest message, even over budget
+    while (tokens > available && start < this.messages.length - 1) {
+      tokens -= estimateMessagesTokens([this.messages[start]]);
+      start++;
+    }
+    // Don't open on a tool result whose call was trimmed off
+    while (start < this.messages.length - 1 && this.messages[start].role === 'tool') start++;
+
+    if (start > this.summarizedCount) {
+      this.log.warn('Context over budget - trimmed unsummarized messages', {
+        trimmed: start - this.summarizedCount,
+        budget: this.budget,
+      });
+    }
+    return this.messages.slice(start);
+  }
+
+  /**
+   * Summarize older turns in the background once the unsummarized history
+   * takes up most of the budget
+   */
+  compactIfNeeded(): Promise<void> {
+    if (this.compacting) return Promise.resolve();
+
+    const available = this.budget - this.systemPromptTokens;
+    const tokens = estimateMessagesTokens(this.messages.slice(this.summarizedCount));
+    if (tokens <= available * CONTEXT_COMPACT_AT) return Promise.resolve();
+
+    this.compacting = true;
+    return this.compact(available * CONTEXT_COMPACT_TO).finally(() => {
+      this.compacting = false;
+    });
+  }
+
+  private async compact(targetTokens: number): Promise<void> {
+    const cut = this.findCut(targetTokens);
+    if (cut <= this.summarizedCount) return;
+
+    const turns = this.messages
+      .slice(this.summarizedCount, cut)
+      .filter((m) => m.role !== 'tool' && m.content)
+      .map((m) => `${m.role === 'user' ? 'Caller' : 'Assistant'}: ${m.content}`)
+      .join('\n');
+    const droppedBefore = this.droppedCount;
+
+    try {
+      const response = await completeChat({
+        sessionId: this.sessionId,
+        purpose: 'compaction',
+        config: this.llmConfig,
+        systemPrompt: SUMMARY_PROMPT,
+        messages: [{ role: 'user', content: `Summary so far:\n${this.summary || '(none)'}\n\nNew turns:\n${turns}` }],
+        jsonSchema: SUMMARY_SCHEMA,
+      });
+      // Keep the turns until a summary of them is in hand
+      if (response.truncated) throw new Error('Summary cut off at max_tokens');
+      if (!this.applySummary(response.content)) throw new Error('Summary is not valid JSON');
+
+      // Messages may have been dropped by the cap while we waited
+      this.summarizedCount = Math.max(this.summarizedCount, cut - (this.droppedCount - droppedBefore));
+      this.log.info('Conversation compacted', {
+        summarized: cut,
+        kept: this.messages.length - this.summarizedCount,
+        summaryTokens: estimateTokens(this.summary),
+      });
+    } catch (error) {
+      // Nothing lost - modelMessages trims to budget until the next try
+      this.log.warn('Failed to summarize conversation', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Index to summarize up to: the start of a caller turn, leaving the newest
+   * messages within targetTokens (and at least CONTEXT_KEEP_RECENT_MESSAGES)
+   */
+  private findCut(targetTokens: number): number {
+    const latest = this.messages.length - CONTEXT_KEEP_RECENT_MESSAGES;
+    let cut = this.summarizedCount;
+    let remaining = estimateMessagesTokens(this.messages.slice(cut));
+
+    while (cut < latest && remaining > targetTokens) {
+      remaining -= estimateMessagesTokens([this.messages[cut]]);
+      cut++;
+    }
+    // Keep whole turns together
+    while (cut < latest && this.messages[cut].role !== 'user') cut++;
+    return cut <= latest && this.messages[cut]?.role === 'user' ? cut : this.summarizedCount;
+  }
+
+  /**
+   * Take the new summary and facts from the model's reply. False if it
+   * isn't the JSON asked for - nothing is changed then.
+   */
+  private applySummary(content: string): boolean {
+    let parsed: Record<string, unknown>;
+    try {
+      const start = content.indexOf('{');
+      parsed = JSON.parse(content.slice(start, content.lastIndexOf('}') + 1));
+    } catch {
+      return false;
+    }
+    if (typeof parsed?.summary !== 'string' || !parsed.summary.trim()) return false;
+
+    this.summary = parsed.summary.trim();
+    for (const fact of PINNED_FACTS) {
+      const value = parsed[fact];
+      if (typeof value === 'string' && value.trim() && !this.hostFacts.has(fact)) {
+        this.facts[fact] = value.trim();
+      }
+    }
+    return true;
+  }
+}
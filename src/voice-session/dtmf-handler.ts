@@ -0,0 +1,106 @@
+/**
+ * Voice Session - DTMF Handler
+ *
+ * Routes keypad presses from Twilio's `dtmf` media-stream event:
+ * - Unit number entry while verifying (terminated by # or a pause)
+ * - 0 to reach a person
+ * - 1 / 2 to confirm or reject a read-back
+ */
+
+import { VerificationState } from './types.js';
+import { TurnDialogState } from './turn-detector.js';
+
+// Pause after the last key before a multi-digit entry is submitted
+export const DTMF_ENTRY_TIMEOUT_MS = 3000;
+
+export type DtmfAction =
+  | { type: 'unit_entry'; digits: string }
+  | { type: 'request_human' }
+  | { type: 'confirm' }
+  | { type: 'reject' };
+
+export interface DtmfRouteContext {
+  verificationState: VerificationState;
+  dialogState: TurnDialogState;
+}
+
+/**
+ * Whether a key should start (or continue) a multi-digit entry
+ * rather than act immediately
+ */
+export function isMultiDigitEntry(digit: string, ctx: DtmfRouteContext, collecting: boolean): boolean {
+  if (collecting) return true;
+  // A lone 0 is always "get me a person"
+  return ctx.verificationState === 'VERIFYING' && digit !== '0';
+}
+
+/**
+ * Map keypad input to an action, or null if it means nothing right now
+ */
+export function routeDtmfInput(digits: string, ctx: DtmfRouteContext): DtmfAction | null {
+  if (digits === '0') return { type: 'request_human' };
+
+  if (ctx.verificationState === 'VERIFYING' && /^[0-9]+$/.test(digits)) {
+    return { type: 'unit_entry', digits };
+  }
+
+  if (ctx.dialogState === 'confirming') {
+    if (digits === '1') return { type: 'confirm' };
+    if (digits === '2') return { type: 'reject' };
+  }
+
+  return null;
+}
+
+/**
+ * Collects digits for a multi-digit entry.
+ * # submits, * clears, and a pause of DTMF_ENTRY_TIMEOUT_MS submits what was typed.
+ */
+export class DtmfCollector {
+  private digits = '';
+  private timer: NodeJS.Timeout | null = null;
+  private onComplete: (digits: string) => void;
+
+  constructor(onComplete: (digits: string) => void) {
+    this.onComplete = onComplete;
+  }
+
+  get isCollecting(): boolean {
+    return this.digits.length > 0;
+  }
+
+  addDigit(digit: string): void {
+    this.clearTimer();
+
+    if (digit === '#') {
+      this.submit();
+      return;
+    }
+    if (digit === '*') {
+      this.digits = '';
+      return;
+    }
+
+    this.digits += digit;
+    this.timer = setTimeout(() => this.submit(), DTMF_ENTRY_TIMEOUT_MS);
+  }
+
+  dispose(): void {
+    this.clearTimer();
+    this.digits = '';
+  }
+
+  private submit(): void {
+    this.clearTimer();
+    const digits = this.digits;
+    this.digits = '';
+    if (digits) this.onComplete(digits);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
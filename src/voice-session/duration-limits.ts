@@ -6,14 +6,18 @@
 
 import { SessionLogger } from '../utils/index.js';
 import { SessionRecorder } from '../session-recorder/index.js';
+import { getMessages, SupportedLanguage } from '../locales/index.js';
 import { SOFT_LIMIT_MS, HARD_LIMIT_MS } from './types.js';
 
 export interface DurationContext {
   log: SessionLogger;
   recorder: SessionRecorder;
   callStartTime: number;
+  // The caller's language can change mid-call
+  getLanguage: () => SupportedLanguage;
   speak: (text: string) => Promise<void>;
   addToConversationHistory: (role: 'user' | 'assistant', content: string) => void;
+  playbackDrained: () => Promise<void>;
   end: () => void;
 }
 
@@ -37,7 +41,7 @@ async function handleSoftLimit(
   ctx.log.info('Soft call limit reached', { durationMin });
 
   // Gently suggest switching to text
-  const message = `Hey, I just want to make sure I'm helping you as best I can. We've been chatting for a bit - if you'd prefer, you can also text this number anytime and I can help you that way too. It's totally up to you - I'm happy to keep talking or you can reach out via text whenever it's convenient. Is there anything else you need help with right now?`;
+  const message = getMessages(ctx.getLanguage()).softLimit;
 
   await ctx.speak(message);
   ctx.addToConversationHistory('assistant', message);
@@ -52,14 +56,15 @@ async function handleHardLimit(ctx: DurationContext): Promise<void> {
   ctx.log.info('Hard call limit reached, ending call', { durationMin });
 
   // Politely wrap up the call
-  const message = `I've really enjoyed helping you today. I want to make sure the property manager can review everything we discussed. I'm going to wrap up our call now, but remember you can always text this number if you think of anything else. Take care!`;
+  const message = getMessages(ctx.getLanguage()).hardLimit;
 
   await ctx.speak(message);
   ctx.addToConversationHistory('assistant', message);
   ctx.recorder.appendTranscript('ai', message);
 
-  // End the call after the message plays
-  setTimeout(() => ctx.end(), 8000);
+  // End the call once the message has played
+  await ctx.playbackDrained();
+  ctx.end();
 }
 
 /**
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectEmergency } from './emergency-detection.js';
+
+describe('detectEmergency', () => {
+  it.each([
+    ['I smell gas in the kitchen', 'gas_leak'],
+    ['there is a gas leak by the stove', 'gas_leak'],
+    ['huele a gas en la cocina', 'gas_leak'],
+    ['there is a fire in my kitchen', 'fire'],
+    ['the stove is on fire', 'fire'],
+    ['I can see flames', 'fire'],
+    ['smoke is coming out of the vent', 'fire'],
+    ['hay un incendio', 'fire'],
+    ['No, there is a fire', 'fire'],
+    ['there was a fire last year, but the oven is on fire now', 'fire'],
+    ['the basement is flooding', 'flooding'],
+    ['my bathroom is flooded', 'flooding'],
+    ['water is pouring through the ceiling', 'flooding'],
+    ['a pipe burst under the sink', 'flooding'],
+    ['the pipe burst last night and water is everywhere', 'flooding'],
+    ['la cocina está inundada', 'flooding'],
+    ['the carbon monoxide alarm is going off', 'carbon_monoxide'],
+    ['my CO detector is going off', 'carbon_monoxide'],
+    ['I think there is carbon monoxide in here', 'carbon_monoxide'],
+    ['la alarma de monóxido está sonando', 'carbon_monoxide'],
+  ])('%s -> %s', (transcript, type) => {
+    expect(detectEmergency(transcript)).toBe(type);
+  });
+
+  describe('not an emergency', () => {
+    it.each([
+      // Negated
+      "I don't smell gas",
+      "there's no fire",
+      'no hay fuego',
+      // Named after the emergency
+      'the fire department came by yesterday',
+      'a fire hydrant is leaking out front',
+      'the fire sprinkler head is dripping',
+      'the fire station next door is loud',
+      'the fire alarm battery is chirping',
+      'the flood light in the parking lot is out',
+      'my CO detector needs new batteries',
+      'do I need a carbon monoxide detector',
+      'el detector de monóxido no tiene pilas',
+      // In the past
+      'there was a fire last year',
+      'we had a flood two years ago',
+      'hubo un incendio el año pasado',
+      // Happens now and then
+      'the bathroom floods when I shower',
+      'the basement gets flooded every time it rains',
+      // Nothing to do with it
+      'my faucet is dripping',
+      'I got fired',
+      '',
+    ])('%s', (transcript) => {
+      expect(detectEmergency(transcript)).toBeNull();
+    });
+  });
+});
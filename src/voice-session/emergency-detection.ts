@@ -0,0 +1,50 @@
+/**
+ * Voice Session - Emergency Detection
+ *
+ * Decides whether what the caller just said reports an emergency happening
+ * now. A hit pages the on-call contact straight away, so mentions that are
+ * negated ("there's no fire"), in the past ("we had a flood last year") or
+ * about something that only happens now and then don't count.
+ */
+
+import { EmergencyType, EMERGENCY_PATTERNS } from './types.js';
+
+// "I don't smell gas", "there's no fire", "no hay fuego"
+const NEGATION = /\b(no|not|don't|doesn't|isn't|wasn't|never|without|nunca|sin)\b(\s+\S+){0,3}\s*$/i;
+// "there was a fire", "we had a flood", "hubo un incendio"
+const PAST_EVENT = /\b(there (was|were)|(i|we|they) had|used to|hubo|hab[ií]a|tuvimos)\b(\s+\S+){0,2}\s*$/i;
+// "... last year", "... two years ago", "... every time it rains", "el año pasado"
+const NOT_HAPPENING_NOW =
+  /^\s*(\S+\s+){0,4}?(last (week|month|year|summer|winter)|(\S+ )?(weeks?|months?|years?) ago|whenever|every time|(el|la) (semana|mes|año) pasad[oa]|hace (\S+ )?(semanas?|mes(es)?|años?)|cada vez|siempre que)\b/i;
+// Mentions are judged within their own clause: "no, there's a fire" is not negated
+const CLAUSE_BREAK = /[.,;!?]|\b(but|pero)\b/gi;
+
+/**
+ * Check a final transcript for an emergency happening now. Mentions that are
+ * negated, in the past or about something that happens now and then don't
+ * count.
+ */
+export function detectEmergency(transcript: string): EmergencyType | null {
+  for (const [type, pattern] of Object.entries(EMERGENCY_PATTERNS) as [EmergencyType, RegExp][]) {
+    for (const match of transcript.matchAll(new RegExp(pattern.source, 'gi'))) {
+      const before = clauseBefore(transcript, match.index);
+      const after = clauseAfter(transcript, match.index + match[0].length);
+      if (NEGATION.test(before) || PAST_EVENT.test(before) || NOT_HAPPENING_NOW.test(after)) continue;
+      return type;
+    }
+  }
+  return null;
+}
+
+function clauseBefore(transcript: string, end: number): string {
+  const text = transcript.slice(0, end);
+  const breaks = [...text.matchAll(CLAUSE_BREAK)];
+  const last = breaks[breaks.length - 1];
+  return last ? text.slice(last.index + last[0].length) : text;
+}
+
+function clauseAfter(transcript: string, start: number): string {
+  const text = transcript.slice(start);
+  const next = text.search(CLAUSE_BREAK);
+  return next === -1 ? text : text.slice(0, next);
+}
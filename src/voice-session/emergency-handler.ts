@@ -0,0 +1,233 @@
+/**
+ * Voice Session - Emergency Handler
+ *
+ * Spots emergencies (gas, fire, flooding, carbon monoxide) in what the
+ * caller says and escalates right away: an emergency work order (or an
+ * unverified request if we don't know the caller yet), plus an SMS and a
+ * phone call to the property's on-call contact. Every step is recorded in
+ * tenant_interactions.
+ *
+ * Environment (overridden per property by voice_config.emergency):
+ * - ON_CALL_PHONE: number to page
+ * - ON_CALL_NAME: who that is, for the logs
+ */
+
+import { SessionLogger } from '../utils/index.js';
+import { SessionRecorder, logEmergencyEvent, EmergencyStep } from '../session-recorder/index.js';
+import { CallerVerification } from '../caller-verification/index.js';
+import { createWorkOrder } from '../supabase.js';
+import { sendSMS } from '../sms-session.js';
+import { placeCall } from '../twilio-voice.js';
+import { WorkOrderCategory } from '../work-orders/index.js';
+import { createUnverifiedRequest, VerificationData } from './verification.js';
+import { ConversationMessage, EmergencyType, PropertyContext, TenantContext } from './types.js';
+
+export { detectEmergency } from './emergency-detection.js';
+
+export interface EmergencyContext {
+  log: SessionLogger;
+  recorder: SessionRecorder;
+  verifier: CallerVerification | null;
+  propertyContext: PropertyContext | null;
+  tenantContext: TenantContext | null;
+  fromPhone: string;
+  toPhone: string;
+}
+
+export interface EmergencyEscalation {
+  workOrderId: string | null;
+  unverifiedRequestId: string | null;
+  onCallSms: boolean;
+  onCallCallSid: string | null;
+}
+
+const EMERGENCY_LABELS: Record<EmergencyType, string> = {
+  gas_leak: 'Gas leak',
+  fire: 'Fire',
+  flooding: 'Flooding',
+  carbon_monoxide: 'Carbon monoxide',
+};
+
+const EMERGENCY_CATEGORIES: Record<EmergencyType, WorkOrderCategory> = {
+  gas_leak: 'other',
+  fire: 'other',
+  flooding: 'plumbing',
+  carbon_monoxide: 'hvac',
+};
+
+// What the agent tells the caller to do, before anything else
+const SAFETY_INSTRUCTIONS: Record<EmergencyType, string> = {
+  gas_leak:
+    'Tell them to leave the unit now - no light switches, flames or phone calls inside - and to call 911 or the gas company once outside.',
+  fire: 'Tell them to get everyone out now and call 911. They should not go back in for belongings.',
+  flooding:
+    'If it is safe, have them shut off the water valve (under the sink, behind the toilet, or the main by the water heater) and stay away from outlets and anything electrical near the water.',
+  carbon_monoxide:
+    'Tell them to get everyone, pets included, outside into fresh air now and call 911. Nobody goes back in until responders say so.',
+};
+
+export function emergencyLabel(type: EmergencyType): string {
+  return EMERGENCY_LABELS[type];
+}
+
+/**
+ * Prompt section that takes over the call once an emergency is detected
+ */
+export function buildEmergencyPrompt(type: EmergencyType, onCallPaged: boolean): string {
+  return `EMERGENCY - ${EMERGENCY_LABELS[type]} reported. This overrides everything else:
+- ${SAFETY_INSTRUCTIONS[type]}
+- If anyone is hurt or in danger, 911 comes first
+- ${onCallPaged ? 'The on-call team is being alerted and an emergency work order is being created - tell them so' : 'An emergency work order is being created and the property manager alerted - tell them so'}
+- Keep every reply to one short, calm sentence. Don't ask for details until they are safe.`;
+}
+
+/**
+ * Who gets paged: voice_config.emergency, else ON_CALL_PHONE / ON_CALL_NAME
+ */
+export function resolveOnCallContact(propertyContext: PropertyContext | null): { phone: string; name: string | null } | null {
+  const config = propertyContext?.voice_config?.emergency;
+  const phone = config?.on_call_phone || process.env.ON_CALL_PHONE;
+  if (!phone) return null;
+  return { phone, name: config?.on_call_name || process.env.ON_CALL_NAME || null };
+}
+
+export function hasOnCallContact(propertyContext: PropertyContext | null): boolean {
+  return !!resolveOnCallContact(propertyContext);
+}
+
+/**
+ * Run the whole escalation. The ticket and the page go out in parallel -
+ * neither should wait on the other.
+ */
+export async function escalateEmergency(
+  ctx: EmergencyContext,
+  type: EmergencyType,
+  transcript: string,
+  data: { verificationData: VerificationData; conversationHistory: ConversationMessage[] }
+): Promise<EmergencyEscalation> {
+  const result: EmergencyEscalation = { workOrderId: null, unverifiedRequestId: null, onCallSms: false, onCallCallSid: null };
+  if (!ctx.propertyContext) {
+    ctx.log.error('Emergency detected but no property context - cannot escalate', { type });
+    return result;
+  }
+
+  ctx.log.startTimer('emergency_escalation');
+  const logStep = (step: EmergencyStep, success: boolean, content: string, metadata?: Record<string, unknown>) =>
+    logEmergencyEvent({
+      tenantId: ctx.tenantContext?.id || null,
+      userId: ctx.propertyContext!.user_id,
+      step,
+      success,
+      content,
+      workOrderId: result.workOrderId,
+      metadata: { type, call_record_id: ctx.recorder.getCallRecordId(), ...metadata },
+    }).catch((error) => ctx.log.error('Failed to log emergency step', { step, error: (error as Error).message }));
+
+  await logStep('detected', true, `${EMERGENCY_LABELS[type]} reported by caller: "${transcript}"`);
+
+  await Promise.all([
+    createEmergencyRecord(ctx, type, transcript, data, result, logStep),
+    pageOnCall(ctx, type, transcript, data.verificationData, result, logStep),
+  ]);
+
+  ctx.log.infoWithLatency('emergency_escalation', 'Emergency escalation complete', { type, ...result });
+  return result;
+}
+
+type LogStep = (step: EmergencyStep, success: boolean, content: string, metadata?: Record<string, unknown>) => Promise<void>;
+
+async function createEmergencyRecord(
+  ctx: EmergencyContext,
+  type: EmergencyType,
+  transcript: string,
+  data: { verificationData: VerificationData; conversationHistory: ConversationMessage[] },
+  result: EmergencyEscalation,
+  logStep: LogStep
+): Promise<void> {
+  const history = [
+    ...data.conversationHistory.filter((m) => m.role !== 'tool' && m.content),
+    { role: 'user' as const, content: transcript },
+  ];
+
+  try {
+    if (data.verificationData.state === 'VERIFIED' && ctx.tenantContext) {
+      result.workOrderId = await createWorkOrder({
+        propertyContext: ctx.propertyContext,
+        tenantContext: ctx.tenantContext,
+        conversationHistory: history,
+        issueDescription: history.filter((m) => m.role === 'user').map((m) => m.content).join(' '),
+        sessionId: ctx.log.sessionId,
+        details: { category: EMERGENCY_CATEGORIES[type], priority: 'emergency' },
+      });
+      if (result.workOrderId) {
+        await ctx.recorder.linkToTenant(ctx.tenantContext.id, ctx.propertyContext!.user_id, result.workOrderId);
+      }
+      await logStep('work_order', !!result.workOrderId, result.workOrderId
+        ? `Emergency work order created (${EMERGENCY_LABELS[type]})`
+        : 'Failed to create emergency work order');
+      return;
+    }
+
+    // Not identified yet - the property manager gets it as an unverified request
+    result.unverifiedRequestId = await createUnverifiedRequest(
+      { log: ctx.log, verifier: ctx.verifier, recorder: ctx.recorder, propertyContext: ctx.propertyContext, fromPhone: ctx.fromPhone },
+      data.verificationData,
+      history
+    );
+    await logStep('unverified_request', !!result.unverifiedRequestId, result.unverifiedRequestId
+      ? `Emergency request created for unidentified caller ${ctx.fromPhone}`
+      : 'Failed to create emergency request for unidentified caller', { request_id: result.unverifiedRequestId });
+  } catch (error) {
+    ctx.log.error('Failed to create emergency record', { type, error: (error as Error).message });
+    await logStep(ctx.tenantContext ? 'work_order' : 'unverified_request', false, `Error: ${(error as Error).message}`);
+  }
+}
+
+async function pageOnCall(
+  ctx: EmergencyContext,
+  type: EmergencyType,
+  transcript: string,
+  verificationData: VerificationData,
+  result: EmergencyEscalation,
+  logStep: LogStep
+): Promise<void> {
+  const contact = resolveOnCallContact(ctx.propertyContext);
+  if (!contact) {
+    ctx.log.warn('No on-call contact configured - skipping page', { type });
+    await logStep('on_call_sms', false, 'No on-call contact configured');
+    return;
+  }
+
+  const property = ctx.propertyContext?.name || 'the property';
+  const unit = ctx.tenantContext?.unit?.unit_number || verificationData.claimedUnit;
+  const caller = ctx.tenantContext?.name || verificationData.claimedName || 'Unknown caller';
+  const label = EMERGENCY_LABELS[type];
+  const metadata = { on_call_phone: contact.phone, on_call_name: contact.name };
+
+  const sms = `EMERGENCY (${label}) at ${property}${unit ? `, unit ${unit}` : ''}. ` +
+    `${caller} (${ctx.fromPhone}) said: "${transcript}"`;
+  const spoken = `Emergency alert for ${property}. ${label} reported${unit ? ` in unit ${unit}` : ''}. ` +
+    `Caller's number: ${ctx.fromPhone.replace(/\D/g, '').split('').join(' ')}. Details were sent by text.`;
+
+  await Promise.all([
+    (async () => {
+      try {
+        result.onCallSms = await sendSMS(contact.phone, ctx.toPhone, sms);
+      } catch (error) {
+        ctx.log.error('Failed to text on-call contact', { error: (error as Error).message });
+      }
+      await logStep('on_call_sms', result.onCallSms, result.onCallSms ? `On-call texted: ${sms}` : 'Failed to text on-call contact', metadata);
+    })(),
+    (async () => {
+      try {
+        result.onCallCallSid = await placeCall({ to: contact.phone, from: ctx.toPhone, message: spoken, sessionId: ctx.log.sessionId });
+      } catch (error) {
+        ctx.log.error('Failed to call on-call contact', { error: (error as Error).message });
+      }
+      await logStep('on_call_call', !!result.onCallCallSid, result.onCallCallSid ? 'On-call contact phoned' : 'Failed to phone on-call contact', {
+        ...metadata,
+        call_sid: result.onCallCallSid,
+      });
+    })(),
+  ]);
+}
@@ -6,12 +6,14 @@
 
 import { SessionLogger, costTracker } from '../utils/index.js';
 import { CallerVerification } from '../caller-verification/index.js';
-import { SessionRecorder } from '../session-recorder/index.js';
+import { SessionRecorder, CallOutcome } from '../session-recorder/index.js';
 import { ConversationMessage, TenantContext, PropertyContext } from './types.js';
 import { createUnverifiedRequest, VerificationData } from './verification.js';
 import { sendPostCallMediaRequest, extractIssueCategory, IssueData } from './issue-handler.js';
 import { cleanupAudio, AudioComponents } from './audio-handler.js';
 import { clearDurationTimers, DurationTimers } from './duration-limits.js';
+import { TurnDetector } from './turn-detector.js';
+import { SupportedLanguage } from '../locales/index.js';
 
 export interface EndSessionContext {
   log: SessionLogger;
@@ -22,8 +24,10 @@ export interface EndSessionContext {
   fromPhone: string;
   toPhone: string;
   callStartTime: number;
+  // Language the caller ended the call in
+  language: SupportedLanguage;
   audio: AudioComponents | null;
-  silenceTimer: NodeJS.Timeout | null;
+  turnDetector: TurnDetector;
   durationTimers: DurationTimers;
 }
 
@@ -32,6 +36,7 @@ export interface EndSessionData {
   conversationHistory: ConversationMessage[];
   issueData: IssueData;
   createdWorkOrderId: string | null;
+  outcome: CallOutcome;
 }
 
 /**
@@ -80,6 +85,7 @@ export async function handleEndSession(
         fromPhone: ctx.fromPhone,
         toPhone: ctx.toPhone,
         tenantContext: ctx.tenantContext,
+        language: ctx.language,
       },
       issueData.category
     );
@@ -89,13 +95,17 @@ export async function handleEndSession(
   await ctx.recorder.endRecording({
     tenantId: ctx.tenantContext?.id,
     workOrderId: data.createdWorkOrderId || undefined,
+    outcome: data.outcome,
   });
 
-  // Track costs
+  // Track costs - each TTS provider tracks its own as it speaks and when
+  // closed, so a call that failed over is billed to both
   costTracker.trackTwilioVoice(ctx.log.sessionId, callDurationMs);
   if (ctx.audio) {
-    costTracker.trackElevenLabs(ctx.log.sessionId, ctx.audio.totalTTSCharacters);
-    costTracker.trackDeepgram(ctx.log.sessionId, ctx.audio.totalSTTDurationMs);
+    if (ctx.audio.stt?.provider === 'deepgram') {
+      costTracker.trackDeepgram(ctx.log.sessionId, ctx.audio.totalSTTDurationMs);
+    }
+    cleanupAudio(ctx.audio);
   }
 
   // Log summaries
@@ -103,7 +113,6 @@ export async function handleEndSession(
   ctx.log.logSummary();
 
   // Cleanup resources
-  if (ctx.audio) cleanupAudio(ctx.audio);
-  if (ctx.silenceTimer) clearTimeout(ctx.silenceTimer);
+  ctx.turnDetector.dispose();
   clearDurationTimers(ctx.durationTimers);
 }
@@ -2,7 +2,7 @@
  * Voice Session
  *
  * Manages a single voice call with real-time streaming:
- * - Deepgram for streaming speech-to-text
+ * - Deepgram (or another STT provider) for streaming speech-to-text
  * - OpenAI for streaming LLM responses
  * - ElevenLabs for streaming text-to-speech
  *
@@ -10,21 +10,65 @@
  */
 
 import { WebSocket } from 'ws';
-import { streamLLMResponse } from '../openai.js';
+import { streamChat, resolveLLMSettings, LLMTool, LLMToolCall } from '../llm/index.js';
 import { createSessionLogger, SessionLogger } from '../utils/index.js';
 import { CallerVerification } from '../caller-verification/index.js';
-import { SessionRecorder } from '../session-recorder/index.js';
+import { SessionRecorder, CallOutcome, logKnowledgeCitations } from '../session-recorder/index.js';
+import { getDialogFlow, DialogFlowEngine, FlowFacts } from '../dialog-flows/index.js';
+import { resolveBusinessHours, getBusinessHoursStatus, BusinessHoursStatus } from '../business-hours/index.js';
+import { TenantWorkOrder, OpenWorkOrder, isWorkOrderCancellable } from '../supabase.js';
+import { AppointmentSlot } from '../scheduling/index.js';
+import { getKnowledgeBase, buildKnowledgePrompt, KnowledgeBase, RetrievedPassage } from '../knowledge-base/index.js';
+import { SelfFixAttempt, SelfFixGuide, getSelfFixGuide, findSelfFixGuide } from '../self-fix/index.js';
+import { loadCallerHistory, buildCallerHistoryPrompt } from '../caller-history/index.js';
+import { getPropertyVocabulary, resolveSttConfig, SttConfig, VocabularyTerm } from '../speech-to-text/index.js';
+import {
+  resolveLanguageConfig,
+  toSupportedLanguage,
+  detectLanguage,
+  getMessages,
+  languageName,
+  sttLanguageCode,
+  ResolvedLanguageConfig,
+  SupportedLanguage,
+} from '../locales/index.js';
 
 import {
   VoiceSessionConfig,
   TenantContext,
   PropertyContext,
   ConversationMessage,
-  MAX_CONVERSATION_MESSAGES,
+  BARGE_IN_MIN_WORDS,
+  PLAYBACK_DRAIN_TIMEOUT_MS,
+  MAX_TOOL_ROUNDS,
+  LANGUAGE_DETECT_MIN_CONFIDENCE,
+  LANGUAGE_SWITCH_MIN_WORDS,
+  LANGUAGE_SWITCH_MIN_CONFIDENCE,
+  EmergencyType,
 } from './types.js';
-import { performInitialVerification, handleVerificationAttempt, VerificationData } from './verification.js';
+import {
+  performInitialVerification,
+  handleVerificationAttempt,
+  handleKeypadUnitEntry,
+  handleIdentifiedCaller,
+  createUnverifiedRequest,
+  keepFiledRequest,
+  VerificationData,
+} from './verification.js';
 import { buildGreeting, buildSystemPrompt } from './prompts.js';
-import { IssueData } from './issue-handler.js';
+import { IssueData, extractIssueCategory } from './issue-handler.js';
+import { detectEmergency, escalateEmergency, buildEmergencyPrompt, hasOnCallContact } from './emergency-handler.js';
+import {
+  resolveTransferTarget,
+  startColdTransfer,
+  startWarmTransfer,
+  joinWarmTransfer,
+  cancelTransfer,
+  takeCarriedCall,
+  CarriedCall,
+  TransferTarget,
+  WarmTransferEvent,
+} from './transfer-handler.js';
 import { startDurationTimers, DurationTimers } from './duration-limits.js';
 import {
   initializeAudio,
@@ -32,10 +76,60 @@ import {
   speakText,
   addTTSText,
   flushTTS,
+  interruptPlayback,
+  switchSttLanguage,
+  switchTtsLanguage,
   AudioComponents,
 } from './audio-handler.js';
-import { parseResponse, handleTicketCreation, cleanResponse } from './response-parser.js';
+import {
+  offerSlots,
+  describeOfferedSlot,
+  book,
+  schedulingEnabled,
+  AppointmentContext,
+  SCHEDULING_TOOLS,
+} from './appointment-handler.js';
+import {
+  describeSelfFixStep,
+  recordSelfFixResolved,
+  selfFixAvailable,
+  SelfFixContext,
+  SELF_FIX_TOOLS,
+} from './self-fix-handler.js';
+import {
+  createTicketFromConversation,
+  findDuplicateWorkOrder,
+  appendToExistingTicket,
+  draftTicket,
+  correctDraft,
+  confirmDraft,
+  readBackConfirmation,
+  describeDraft,
+  draftRecord,
+  TicketContext,
+  TicketDraft,
+  CallerReply,
+} from './ticket-handler.js';
+import {
+  lookupWorkOrders,
+  describeWorkOrder,
+  addNote,
+  cancel,
+  WorkOrderStatusContext,
+  WORK_ORDER_TOOLS,
+} from './work-order-status.js';
+import { ConversationContext } from './context-manager.js';
+import { VOICE_TOOLS, dispatchToolCall, ToolResult, VoiceToolHandlers } from './tools.js';
 import { handleEndSession } from './end-handler.js';
+import { TurnDetector, inferDialogState } from './turn-detector.js';
+import { DtmfCollector, routeDtmfInput, isMultiDigitEntry } from './dtmf-handler.js';
+
+// Caller input waiting for the current response to finish
+interface QueuedInput {
+  text: string;
+  keypadUnit?: string;
+  keypad?: boolean;
+}
 
 export class VoiceSession {
   private socket: WebSocket;
@@ -53,15 +147,63 @@ export class VoiceSession {
   private verificationData: VerificationData;
   private audio: AudioComponents | null = null;
 
-  private conversationHistory: ConversationMessage[] = [];
-  private currentTranscript = '';
+  private context: ConversationContext;
+  private turnDetector: TurnDetector;
+  private dtmfCollector: DtmfCollector;
+  private queuedInput: QueuedInput | null = null;
   private isProcessing = false;
-  private silenceTimer: NodeJS.Timeout | null = null;
+  private llmAbortController: AbortController | null = null;
+  private interruptedResponse: string | null = null;
   private autoEndTimer: NodeJS.Timeout | null = null;
+  private responseCounter = 0;
+  private hasEnded = false;
 
-  private shouldCreateTicket = false;
+  private endCallRequested = false;
   private createdWorkOrderId: string | null = null;
+  // Work orders this call created or added to - never a duplicate of the next issue
+  private ticketsThisCall: string[] = [];
+  // Open work order that may be what the caller is reporting, until they say
+  private possibleDuplicate: OpenWorkOrder | null = null;
+  // Ticket being read back - filed once the caller says yes
+  private ticketDraft: TicketDraft | null = null;
+  private ticketDraftCount = 0;
+  // The caller's latest reply, numbered by turn
+  private lastReply: CallerReply | null = null;
+  private callerTurns = 0;
   private issueData: IssueData = { category: null, description: null };
+  private dialogFlow: DialogFlowEngine | null = null;
+  private emergency: EmergencyType | null = null;
+  // Ticket + on-call page, started the moment an emergency is heard
+  private emergencyEscalation: Promise<void> | null = null;
+  // Handing the caller to a person: ringing, handed over, or nobody answered
+  private transferStatus: 'ringing' | 'connected' | 'failed' | null = null;
+  private transferId: string | null = null;
+  // Handed on by the session before a cold transfer nobody answered
+  private carried: CarriedCall | null = null;
+  // Office open or closed when the call came in
+  private businessHours: BusinessHoursStatus;
+  // The caller's work orders from the last lookup - ticket N is workOrders[N - 1]
+  private workOrders: TenantWorkOrder[] | null = null;
+  // Appointment times last offered - slot N is offeredSlots[N - 1]
+  private offeredSlots: AppointmentSlot[] = [];
+  // Property FAQ, loaded while the call is set up
+  private knowledgeBase: Promise<KnowledgeBase> | null = null;
+  // Passages for what the caller just said, and every one cited so far
+  private knowledgePassages: RetrievedPassage[] = [];
+  private citedPassages = new Set<string>();
+  // Self-fix guide in progress or last finished, and every guide tried on the call
+  private selfFix: SelfFixAttempt | null = null;
+  private selfFixTried = new Set<string>();
+  // Verified caller's past calls and requests, loaded once they're verified
+  private callerHistory: Promise<string | null> | null = null;
+
+  private languages: ResolvedLanguageConfig;
+  private language: SupportedLanguage;
+  private languageDetected = false;
+  // Language the STT stream was opened with ('multi' follows the caller by itself)
+  private sttLanguage: string | null = null;
+  // Language the TTS voice switches to once the reply in progress has been heard
+  private pendingVoiceLanguage: SupportedLanguage | null = null;
 
   private callStartTime: number = 0;
   private durationTimers: DurationTimers = {
@@ -80,32 +222,83 @@ export class VoiceSession {
     this.tenantContext = config.tenantContext as TenantContext | null;
 
     this.log = createSessionLogger(config.callSid, config.propertyContext?.id);
+    this.languages = resolveLanguageConfig(this.propertyContext?.voice_config?.languages);
+    // Carried over when a failed transfer reconnects the caller
+    const carriedLanguage = toSupportedLanguage(config.language);
+    if (carriedLanguage && this.languages.supported.includes(carriedLanguage)) {
+      this.language = carriedLanguage;
+      this.languageDetected = true;
+    } else {
+      this.language = this.languages.default;
+    }
+    if (config.transferFailed) {
+      this.transferStatus = 'failed';
+      this.carried = takeCarriedCall(config.callSid);
+    }
+
+    this.businessHours = getBusinessHoursStatus(resolveBusinessHours(this.propertyContext?.voice_config?.business_hours));
+    if (this.businessHours.policy === 'forward_on_call' && !hasOnCallContact(this.propertyContext)) {
+      this.log.warn('After-hours policy forwards to on-call, but no on-call contact is set - taking messages instead');
+      this.businessHours.policy = 'take_message';
+    }
     this.recorder = new SessionRecorder();
 
     if (this.propertyContext?.id) {
       this.verifier = new CallerVerification(this.propertyContext.id);
     }
 
-    this.verificationData = {
+    this.context = new ConversationContext({
+      sessionId: this.log.sessionId,
+      log: this.log,
+      llmConfig: this.propertyContext?.voice_config?.llm,
+      budget: resolveLLMSettings('conversation', this.propertyContext?.voice_config?.llm).context_budget,
+    });
+
+    this.verificationData = this.carried?.verificationData || {
       state: 'PENDING',
       tenantContext: this.tenantContext,
       claimedName: null,
       claimedUnit: null,
+      claimedUnitViaKeypad: false,
       promptCount: 0,
       maxPrompts: 3,
       createdUnverifiedRequest: false,
     };
+
+    // Pick the conversation up where the transfer left it
+    if (this.carried) {
+      this.carried.messages.forEach((message) => this.addToConversationHistory(message));
+      this.tenantContext = this.verificationData.tenantContext;
+      this.createdWorkOrderId = this.carried.createdWorkOrderId;
+      if (this.createdWorkOrderId) this.ticketsThisCall.push(this.createdWorkOrderId);
+    }
+
+    this.turnDetector = new TurnDetector({
+      log: this.log,
+      config: this.propertyContext?.voice_config?.turn_detection,
+      getDialogState: () => inferDialogState(this.verificationData.state, this.lastAssistantMessage()),
+      onTurnEnd: (utterance) => {
+        if (this.isProcessing) return false;
+        this.recorder.appendTranscript('caller', utterance);
+        this.processUserInput(utterance);
+        return true;
+      },
+    });
+
+    this.dtmfCollector = new DtmfCollector((digits) => this.handleDtmfInput(digits));
   }
 
   get sessionId(): string {
     return this.log.sessionId;
   }
 
-  private addToConversationHistory(role: 'user' | 'assistant', content: string) {
-    this.conversationHistory.push({ role, content });
-    if (this.conversationHistory.length > MAX_CONVERSATION_MESSAGES) {
-      this.conversationHistory = this.conversationHistory.slice(-MAX_CONVERSATION_MESSAGES);
-    }
+  // Every message of the call - the model gets a budgeted view (see streamReply)
+  private get conversationHistory(): ConversationMessage[] {
+    return this.context.messages;
+  }
+
+  private addToConversationHistory(message: ConversationMessage) {
+    this.context.add(message);
   }
 
   async start() {
@@ -115,8 +308,20 @@ export class VoiceSession {
       propertyId: this.propertyContext?.id,
       tenantId: this.tenantContext?.id,
       fromPhone: this.fromPhone,
+      officeOpen: this.businessHours.open,
+      afterHoursPolicy: this.businessHours.open ? undefined : this.businessHours.policy,
     });
 
+    // Load STT vocabulary while the call is set up
+    const vocabulary: Promise<VocabularyTerm[]> = this.propertyContext?.id
+      ? getPropertyVocabulary(this.propertyContext.id, this.propertyContext.voice_config?.stt?.keywords)
+      : Promise.resolve([]);
+
+    const dialogFlow = getDialogFlow(this.propertyContext?.voice_config?.dialog_flow);
+    if (this.propertyContext?.id) {
+      this.knowledgeBase = getKnowledgeBase(this.propertyContext.id, this.propertyContext.user_id);
+    }
+
     // Start recording
     if (this.propertyContext?.user_id) {
       await this.recorder.startRecording({
@@ -128,18 +333,33 @@ export class VoiceSession {
         toPhone: this.toPhone,
         twilioCallSid: this.callSid,
         triggerType: 'inbound',
+        llmConfig: this.propertyContext.voice_config?.llm,
+        summaryLanguage: languageName(this.languages.manager),
+        sessionId: this.log.sessionId,
+        resume: this.carried?.recording,
       });
     }
 
-    // Perform initial verification
-    const verificationResult = await performInitialVerification(
-      { log: this.log, verifier: this.verifier, recorder: this.recorder, propertyContext: this.propertyContext, fromPhone: this.fromPhone },
-      this.tenantContext
-    );
-    this.verificationData.state = verificationResult.state;
-    if (verificationResult.tenant) {
-      this.tenantContext = verificationResult.tenant;
-      this.verificationData.tenantContext = verificationResult.tenant;
+    // Perform initial verification - unless the caller was identified before a transfer
+    if (!this.carried) {
+      const verificationResult = await performInitialVerification(
+        { log: this.log, verifier: this.verifier, recorder: this.recorder, propertyContext: this.propertyContext, fromPhone: this.fromPhone },
+        this.tenantContext
+      );
+      this.verificationData.state = verificationResult.state;
+      if (verificationResult.tenant) {
+        this.tenantContext = verificationResult.tenant;
+        this.verificationData.tenantContext = verificationResult.tenant;
+      }
+    }
+
+    // Ready by the first reply for callers verified by phone number
+    if (this.verificationData.state === 'VERIFIED') this.callerHistorySection();
+
+    const flow = await dialogFlow;
+    if (flow) {
+      this.dialogFlow = new DialogFlowEngine(flow);
+      this.log.info('Dialog flow started', { flow: flow.id, state: this.dialogFlow.state });
     }
 
     // Initialize audio
@@ -148,22 +368,32 @@ export class VoiceSession {
       log: this.log,
       socket: this.socket,
       streamSid: this.streamSid,
-      onTranscript: (transcript, isFinal) => this.handleTranscript(transcript, isFinal),
+      sttConfig: this.initialSttConfig(),
+      ttsConfig: this.propertyContext?.voice_config?.tts,
+      language: this.language,
+      vocabulary: await vocabulary,
+      onTranscript: (transcript, isFinal, speechFinal) => this.handleTranscript(transcript, isFinal, speechFinal),
+      onSpeechStarted: () => this.turnDetector.handleSpeechStarted(),
+      onUtteranceEnd: () => this.turnDetector.handleUtteranceEnd(),
     });
 
     await this.recorder.updateStatus('in_progress');
 
-    // Send greeting
-    const greeting = buildGreeting({
-      propertyContext: this.propertyContext,
-      tenantContext: this.tenantContext,
-      verificationState: this.verificationData.state,
-      claimedName: this.verificationData.claimedName,
-      claimedUnit: this.verificationData.claimedUnit,
-    });
-    this.audio.totalTTSCharacters += speakText(this.audio.tts, greeting);
-    this.addToConversationHistory('assistant', greeting);
-    this.recorder.appendTranscript('ai', greeting);
+    // Send greeting - or, back from a transfer nobody answered, offer to take a message
+    const greeting =
+      this.transferStatus === 'failed'
+        ? getMessages(this.language).transferUnavailable
+        : buildGreeting({
+            propertyContext: this.propertyContext,
+            tenantContext: this.tenantContext,
+            verificationState: this.verificationData.state,
+            claimedName: this.verificationData.claimedName,
+            claimedUnit: this.verificationData.claimedUnit,
+            language: this.language,
+            languages: this.languages.supported,
+            businessHours: this.businessHours,
+          });
+    this.sayFixed(greeting);
 
     // Start duration timers
     startDurationTimers(
@@ -171,11 +401,13 @@ export class VoiceSession {
         log: this.log,
         recorder: this.recorder,
         callStartTime: this.callStartTime,
+        getLanguage: () => this.language,
         speak: async (text) => {
-          if (this.audio) this.audio.totalTTSCharacters += speakText(this.audio.tts, text);
+          if (this.audio) this.audio.totalTTSCharacters += speakText(this.audio, text);
         },
-        addToConversationHistory: (role, content) => this.addToConversationHistory(role, content),
-        end: () => this.end(),
+        addToConversationHistory: (role, content) => this.addToConversationHistory({ role, content }),
+        playbackDrained: () => this.playbackDrained(),
+        end: () => this.hangUp(),
       },
       this.durationTimers
     );
@@ -183,151 +415,1193 @@ export class VoiceSession {
 
   handleAudio(base64Audio: string) {
     if (this.audio) {
-      this.audio.totalSTTDurationMs += handleIncomingAudio(this.audio.deepgram, base64Audio);
+      this.audio.totalSTTDurationMs += handleIncomingAudio(this.audio.stt, base64Audio);
+    }
+  }
+
+  /**
+   * Handle a keypad press from Twilio's dtmf event
+   */
+  handleDtmf(digit: string) {
+    this.log.info('DTMF received', { digit });
+    if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
+
+    const routeContext = this.dtmfRouteContext();
+    if (isMultiDigitEntry(digit, routeContext, this.dtmfCollector.isCollecting)) {
+      this.dtmfCollector.addDigit(digit);
+    } else {
+      this.handleDtmfInput(digit);
+    }
+  }
+
+  private dtmfRouteContext() {
+    return {
+      verificationState: this.verificationData.state,
+      dialogState: inferDialogState(this.verificationData.state, this.lastAssistantMessage()),
+    };
+  }
+
+  /**
+   * Act on a complete keypad entry
+   */
+  private handleDtmfInput(digits: string) {
+    const action = routeDtmfInput(digits, this.dtmfRouteContext());
+    if (!action) {
+      this.log.info('DTMF input ignored', { digits });
+      return;
+    }
+
+    // A key press answers the assistant just like speech does
+    if (this.audio?.playback.isPlaying() || this.llmAbortController) {
+      this.handleBargeIn();
+    }
+
+    switch (action.type) {
+      case 'unit_entry':
+        this.recorder.appendTranscript('caller', `[Keypad] ${action.digits}`);
+        this.processUserInput(`My unit number is ${action.digits}.`, { keypadUnit: action.digits, keypad: true });
+        break;
+      case 'request_human':
+        this.recorder.appendTranscript('caller', '[Keypad] 0');
+        // Straight to a person when someone can take it - otherwise the model offers a message
+        if (resolveTransferTarget(this.propertyContext, this.businessHours) && this.transferStatus !== 'failed') {
+          this.addToConversationHistory({ role: 'user', content: "I'd like to speak to a person." });
+          this.startTransfer('Caller pressed 0');
+        } else {
+          this.processUserInput("I'd like to speak to a person.", { keypad: true });
+        }
+        break;
+      case 'confirm':
+        this.recorder.appendTranscript('caller', '[Keypad] 1 (yes)');
+        this.processUserInput('Yes.', { keypad: true });
+        break;
+      case 'reject':
+        this.recorder.appendTranscript('caller', '[Keypad] 2 (no)');
+        this.processUserInput('No.', { keypad: true });
+        break;
+    }
+  }
+
+  /**
+   * Handle a Twilio mark echo - audio up to this mark has been played
+   */
+  handleMark(markName: string) {
+    this.audio?.playback.handleMark(markName);
+  }
+
+  /**
+   * Resolves once the caller has heard all queued assistant audio
+   */
+  playbackDrained(): Promise<void> {
+    if (!this.audio) return Promise.resolve();
+    return this.audio.playback.waitForDrain(PLAYBACK_DRAIN_TIMEOUT_MS);
+  }
+
+  /**
+   * Let the goodbye finish playing, then end the session and close the stream
+   * (Twilio hangs up when the media stream closes)
+   */
+  async hangUp() {
+    await this.playbackDrained();
+    await this.end();
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.close();
+    }
+  }
+
+  private lastAssistantMessage(): string | null {
+    for (let i = this.conversationHistory.length - 1; i >= 0; i--) {
+      const message = this.conversationHistory[i];
+      // Skip tool-call turns with nothing spoken
+      if (message.role === 'assistant' && message.content) return message.content;
     }
+    return null;
   }
 
-  private handleTranscript(transcript: string, isFinal: boolean) {
+  private handleTranscript(transcript: string, isFinal: boolean, speechFinal: boolean) {
     if (!transcript.trim()) return;
 
-    // Clear any existing timers - user is speaking
-    if (this.silenceTimer) clearTimeout(this.silenceTimer);
+    // Caller is talking over the assistant - stop and listen
+    if (this.shouldBargeIn(transcript, isFinal)) {
+      this.handleBargeIn();
+    }
+
+    // Caller is speaking - don't auto-hang up on them
     if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
 
-    // Accumulate transcripts - don't respond until user is truly done
-    if (isFinal) {
-      // Add final transcript to buffer with space separator
-      if (this.currentTranscript && !this.currentTranscript.endsWith(transcript)) {
-        this.currentTranscript = this.currentTranscript + ' ' + transcript;
-      } else {
-        this.currentTranscript = transcript;
-      }
-      this.log.info('Final transcript chunk', { chunk: transcript, accumulated: this.currentTranscript });
-    } else {
-      // For interim, just track it but don't accumulate
+    if (!isFinal) {
       this.log.debug('Interim transcript', { transcript });
+    } else {
+      this.checkForEmergency(transcript);
     }
 
-    // Wait for silence AFTER any transcript (final or interim)
-    // This ensures we wait for user to finish their complete thought
-    this.silenceTimer = setTimeout(() => {
-      if (this.currentTranscript && !this.isProcessing) {
-        const fullUtterance = this.currentTranscript.trim();
-        this.log.info('User finished speaking', { transcript: fullUtterance });
-        this.recorder.appendTranscript('caller', fullUtterance);
-        this.currentTranscript = '';
-        this.processUserInput(fullUtterance);
-      }
-    }, 1800); // Wait 1.8 seconds of silence before responding
+    // Turn detector decides when the caller is done
+    this.turnDetector.handleTranscript(transcript, isFinal, speechFinal);
+  }
+
+  /**
+   * Escalate the first emergency heard on the call. Runs on each final
+   * transcript, without waiting for the caller to finish their turn.
+   */
+  private checkForEmergency(transcript: string) {
+    if (this.emergency) return;
+    const type = detectEmergency(transcript);
+    if (!type) return;
+
+    this.emergency = type;
+    this.log.warn('Emergency detected', { type, transcript });
+    this.emergencyEscalation = escalateEmergency(
+      {
+        log: this.log,
+        recorder: this.recorder,
+        verifier: this.verifier,
+        propertyContext: this.propertyContext,
+        tenantContext: this.tenantContext,
+        fromPhone: this.fromPhone,
+        toPhone: this.toPhone,
+      },
+      type,
+      transcript,
+      { verificationData: this.verificationData, conversationHistory: [...this.conversationHistory] }
+    )
+      .then((result) => {
+        if (result.workOrderId) this.createdWorkOrderId = result.workOrderId;
+        // The verification data may have been replaced since the escalation started
+        if (result.unverifiedRequestId) this.verificationData.createdUnverifiedRequest = true;
+      })
+      .catch((error) => {
+        this.log.error('Emergency escalation failed', { type, error: (error as Error).message });
+      });
+  }
+
+  /**
+   * Speech counts as a barge-in while the assistant is responding, unless it is
+   * a short interim blip (a cough or an "uh-huh" while still listening)
+   */
+  private shouldBargeIn(transcript: string, isFinal: boolean): boolean {
+    if (!this.audio) return false;
+    const assistantResponding = this.audio.playback.isPlaying() || this.llmAbortController !== null;
+    if (!assistantResponding) return false;
+    return isFinal || transcript.trim().split(/\s+/).length >= BARGE_IN_MIN_WORDS;
   }
 
-  private async processUserInput(text: string) {
-    if (this.isProcessing) return;
+  /**
+   * Stop the assistant mid-sentence and keep only what the caller heard
+   */
+  private handleBargeIn() {
+    if (!this.audio) return;
+
+    const heardText = this.audio.playback.getHeardText();
+    this.log.info('Caller barged in, stopping playback', { heardText });
+    interruptPlayback(this.audio, this.socket, this.streamSid);
+
+    if (this.llmAbortController) {
+      // Response still streaming - processUserInput records what was heard
+      this.interruptedResponse = heardText;
+      this.llmAbortController.abort();
+    } else {
+      this.truncateLastAssistantTurn(heardText);
+    }
+  }
+
+  /**
+   * Cut the last assistant turn down to the part the caller actually heard
+   */
+  private truncateLastAssistantTurn(heardText: string) {
+    const last = this.conversationHistory[this.conversationHistory.length - 1];
+    if (last?.role !== 'assistant') return;
+
+    if (heardText) {
+      last.content = `${heardText}—`;
+    } else {
+      this.conversationHistory.pop();
+    }
+    this.recorder.replaceLastAiTranscript(heardText ? `${heardText}—` : '');
+  }
+
+  private async processUserInput(text: string, options: { keypadUnit?: string; keypad?: boolean } = {}) {
+    if (this.isProcessing) {
+      // Keypad input can arrive mid-response - handle it once this one is done
+      this.queuedInput = { text, keypadUnit: options.keypadUnit, keypad: options.keypad };
+      return;
+    }
     this.isProcessing = true;
-    this.currentTranscript = '';
+    const responseId = ++this.responseCounter;
+    if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
 
-    this.addToConversationHistory('user', text);
+    this.addToConversationHistory({ role: 'user', content: text });
+    this.lastReply = { text, keypad: !!options.keypad, turn: ++this.callerTurns };
 
-    if (this.verificationData.state === 'VERIFYING') {
-      this.verificationData = await handleVerificationAttempt(
-        { log: this.log, verifier: this.verifier, recorder: this.recorder, propertyContext: this.propertyContext, fromPhone: this.fromPhone },
-        text,
-        this.verificationData
-      );
-      if (this.verificationData.tenantContext) {
-        this.tenantContext = this.verificationData.tenantContext;
+    // Keypad entries arrive as fixed English text - they say nothing about language
+    if (!options.keypad) this.updateLanguage(text);
+
+    try {
+      if (this.verificationData.state === 'VERIFYING') {
+        const verificationContext = { log: this.log, verifier: this.verifier, recorder: this.recorder, propertyContext: this.propertyContext, fromPhone: this.fromPhone };
+        const attempt = options.keypadUnit
+          ? await handleKeypadUnitEntry(verificationContext, options.keypadUnit, this.verificationData)
+          : await handleVerificationAttempt(verificationContext, text, this.verificationData);
+        this.verificationData = keepFiledRequest(this.verificationData, attempt);
+        if (this.verificationData.tenantContext) {
+          this.tenantContext = this.verificationData.tenantContext;
+        }
       }
+
+      // Keypad entries and emergencies aren't questions about the property
+      this.knowledgePassages = options.keypad || this.emergency ? [] : await this.retrieveKnowledge();
+
+      this.log.startTimer('llm_response');
+
+      const abortController = new AbortController();
+      this.llmAbortController = abortController;
+      this.interruptedResponse = null;
+      this.endCallRequested = false;
+      this.audio?.playback.beginTurn();
+
+      // The model may call tools, see the results and carry on speaking -
+      // all within this one turn
+      let spokenResponse = '';
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const reply = await this.streamReply(abortController.signal, round === 0);
+        if (abortController.signal.aborted) break;
+
+        spokenResponse += reply.text;
+        if (reply.text && this.audio) flushTTS(this.audio.tts);
+
+        if (!reply.toolCalls) {
+          if (reply.text) this.addToConversationHistory({ role: 'assistant', content: reply.text });
+          break;
+        }
+
+        this.addToConversationHistory({ role: 'assistant', content: reply.text, tool_calls: reply.toolCalls });
+        const endTurn = await this.runToolCalls(reply.toolCalls);
+        if (endTurn) break;
+      }
+
+      // Caller barged in before the response finished - keep what they heard
+      if (abortController.signal.aborted) {
+        if (this.interruptedResponse) {
+          const heard = `${this.interruptedResponse}—`;
+          this.addToConversationHistory({ role: 'assistant', content: heard });
+          this.recorder.appendTranscript('ai', heard);
+        }
+      } else {
+        if (spokenResponse.trim()) this.recorder.appendTranscript('ai', spokenResponse.trim());
+
+        if (!this.issueData.category && this.conversationHistory.length > 1) {
+          this.issueData = extractIssueCategory(this.conversationHistory, this.log);
+        }
+
+        // Pin what we know for sure, then fold old turns into the summary
+        this.pinContextFacts();
+        this.context.compactIfNeeded();
+
+        if (this.endCallRequested) {
+          this.hangUp();
+        } else {
+          this.scheduleAutoEnd(spokenResponse, responseId);
+        }
+      }
+    } catch (error) {
+      this.log.error('Error processing input', { error: (error as Error).message });
+      const errorMsg = getMessages(this.language).errorRepeat;
+      if (this.audio) this.audio.totalTTSCharacters += speakText(this.audio, errorMsg);
+      this.recorder.appendTranscript('ai', errorMsg);
+    } finally {
+      this.llmAbortController = null;
+      this.isProcessing = false;
     }
 
-    try {
-      const systemPrompt = buildSystemPrompt({
-        propertyContext: this.propertyContext,
-        tenantContext: this.tenantContext,
-        verificationState: this.verificationData.state,
-        claimedName: this.verificationData.claimedName,
-        claimedUnit: this.verificationData.claimedUnit,
+    this.switchVoiceAfterReply(responseId);
+
+    if (this.queuedInput && !this.hasEnded) {
+      const queued = this.queuedInput;
+      this.queuedInput = null;
+      this.processUserInput(queued.text, { keypadUnit: queued.keypadUnit, keypad: queued.keypad });
+    }
+  }
+
+  /**
+   * Knowledge base passages for the caller's last two messages (a follow-up
+   * like "and on weekends?" needs the one before). New citations are logged.
+   */
+  private async retrieveKnowledge(): Promise<RetrievedPassage[]> {
+    if (!this.knowledgeBase || !this.propertyContext) return [];
+    const knowledgeBase = await this.knowledgeBase;
+    if (knowledgeBase.size === 0) return [];
+
+    const question = this.conversationHistory
+      .filter((m) => m.role === 'user')
+      .slice(-2)
+      .map((m) => m.content)
+      .join(' ');
+    const passages = knowledgeBase.search(question);
+    if (passages.length === 0) return [];
+
+    const citations = passages.map((p) => ({
+      entryId: p.entryId,
+      passageId: p.id,
+      title: p.title,
+      score: Number(p.score.toFixed(2)),
+    }));
+    this.log.info('Knowledge base passages', { citations });
+
+    const newCitations = citations.filter((c) => !this.citedPassages.has(c.passageId));
+    if (newCitations.length > 0) {
+      for (const citation of newCitations) this.citedPassages.add(citation.passageId);
+      logKnowledgeCitations({
+        tenantId: this.tenantContext?.id || null,
+        userId: this.propertyContext.user_id,
+        question,
+        citations: newCitations,
+      }).catch(() => {});
+    }
+    return passages;
+  }
+
+  /**
+   * The prompt block with the caller's recent history. Only for verified
+   * callers - anyone can claim a name and unit. Loaded once per call.
+   */
+  private callerHistorySection(): Promise<string | null> {
+    if (this.verificationData.state !== 'VERIFIED' || !this.tenantContext) return Promise.resolve(null);
+    if (!this.callerHistory) {
+      this.log.startTimer('caller_history');
+      this.callerHistory = loadCallerHistory(this.tenantContext.id, this.recorder.getCallRecordId()).then((history) => {
+        this.log.infoWithLatency('caller_history', 'Caller history loaded', {
+          calls: history.calls.length,
+          interactions: history.interactions.length,
+          workOrders: history.workOrders.length,
+        });
+        return buildCallerHistoryPrompt(history, this.businessHours.timezone);
       });
+    }
+    return this.callerHistory;
+  }
 
-      let fullResponse = '';
-      this.log.startTimer('llm_response');
+  /**
+   * Stream one model reply to TTS. Returns the spoken text and any tool calls.
+   */
+  private async streamReply(
+    signal: AbortSignal,
+    firstRound: boolean
+  ): Promise<{ text: string; toolCalls?: LLMToolCall[] }> {
+    // Rebuilt every round - a tool call may have just verified the caller
+    this.advanceDialogFlow();
+    const basePrompt = buildSystemPrompt({
+      propertyContext: this.propertyContext,
+      tenantContext: this.tenantContext,
+      verificationState: this.verificationData.state,
+      claimedName: this.verificationData.claimedName,
+      claimedUnit: this.verificationData.claimedUnit,
+      language: this.language,
+      // The emergency script takes over from the flow
+      dialogFlowSection: this.emergency ? null : this.dialogFlow?.buildPromptSection(),
+      emergencySection: this.emergency
+        ? buildEmergencyPrompt(this.emergency, hasOnCallContact(this.propertyContext))
+        : null,
+      transferStatus: this.transferStatus === 'ringing' || this.transferStatus === 'failed' ? this.transferStatus : null,
+      businessHours: this.businessHours,
+      knowledgeSection: buildKnowledgePrompt(this.knowledgePassages),
+      selfFixAvailable: !this.emergency && !!this.selfFixContext(),
+      callerHistorySection: await this.callerHistorySection(),
+    });
+    const systemPrompt = [basePrompt, this.context.buildPromptSection()].filter(Boolean).join('\n\n');
 
-      await streamLLMResponse({
-        sessionId: this.log.sessionId,
-        systemPrompt,
-        messages: this.conversationHistory as Array<{ role: 'user' | 'assistant'; content: string }>,
-        onToken: async (token) => {
-          fullResponse += token;
-          if (this.audio) {
-            this.audio.totalTTSCharacters += addTTSText(this.audio.tts, token);
-          }
-        },
-        onDone: async (usage) => {
+    let text = '';
+    let toolCalls: LLMToolCall[] | undefined;
+
+    await streamChat({
+      sessionId: this.log.sessionId,
+      purpose: 'conversation',
+      config: this.propertyContext?.voice_config?.llm,
+      systemPrompt,
+      messages: this.context.modelMessages(systemPrompt),
+      tools: this.availableTools(),
+      signal,
+      onToken: (token) => {
+        if (signal.aborted) return;
+        text += token;
+        if (this.audio) {
+          this.audio.totalTTSCharacters += addTTSText(this.audio, token);
+        }
+      },
+      onDone: (usage, calls) => {
+        if (firstRound) {
           this.log.infoWithLatency('llm_response', 'LLM response complete', { tokens: usage?.total_tokens });
-          if (this.audio) flushTTS(this.audio.tts);
-
-          // Parse response for control tags
-          const parseResult = await parseResponse(
-            {
-              log: this.log,
-              recorder: this.recorder,
-              verifier: this.verifier,
-              propertyContext: this.propertyContext,
-              tenantContext: this.tenantContext,
-              fromPhone: this.fromPhone,
+        }
+        toolCalls = calls;
+      },
+    });
+
+    return { text, toolCalls };
+  }
+
+  /**
+   * Run the model's tool calls and add the results to the conversation.
+   * Returns true if the turn should end without a follow-up reply.
+   */
+  private async runToolCalls(toolCalls: LLMToolCall[]): Promise<boolean> {
+    const handlers = this.toolHandlers();
+    let endTurn = false;
+
+    for (const call of toolCalls) {
+      let result: ToolResult;
+      try {
+        result = this.toolAllowed(call.name)
+          ? await dispatchToolCall(handlers, call)
+          : { output: { error: `${call.name} isn't available in step ${this.dialogFlow?.state}` } };
+      } catch (error) {
+        this.log.error('Tool call failed', { tool: call.name, error: (error as Error).message });
+        result = { output: { error: 'Something went wrong - tell the caller someone will follow up.' } };
+      }
+      if (this.dialogFlow && !result.pending && !('error' in result.output)) this.dialogFlow.recordAction(call.name);
+      this.log.info('Tool call', { tool: call.name, arguments: call.arguments, output: result.output });
+
+      this.addToConversationHistory({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(result.output),
+      });
+      if (result.endTurn) endTurn = true;
+    }
+
+    return endTurn;
+  }
+
+  /**
+   * Facts the session knows for sure - kept in the model's context however
+   * long the call runs
+   */
+  private pinContextFacts() {
+    this.context.setFact('caller', this.tenantContext?.name || this.verificationData.claimedName);
+    this.context.setFact('unit', this.tenantContext?.unit?.unit_number || this.verificationData.claimedUnit);
+    const slots = this.dialogFlow?.getSlots();
+    if (slots?.issue) {
+      this.context.setFact('issue', slots.location ? `${slots.issue} (${slots.location})` : slots.issue);
+    }
+  }
+
+  /**
+   * Tools offered to the model - with a dialog flow, only the current step's
+   */
+  private availableTools(): LLMTool[] {
+    return VOICE_TOOLS.filter((tool) => this.toolAllowed(tool.name));
+  }
+
+  private toolAllowed(name: string): boolean {
+    // Only the tenant themselves gets to see or change their work orders
+    if (WORK_ORDER_TOOLS.includes(name) && !this.workOrderContext()) return false;
+    // Emergencies are dispatched, not booked
+    if (SCHEDULING_TOOLS.includes(name) && (this.emergency || !this.appointmentContext())) return false;
+    // Nobody troubleshoots an emergency
+    if (SELF_FIX_TOOLS.includes(name) && (this.emergency || !this.selfFixContext())) return false;
+    // In an emergency the flow is suspended and every other tool is open
+    if (!this.dialogFlow || this.emergency) return name !== 'update_dialog';
+    return name === 'update_dialog' || this.dialogFlow.allowsAction(name);
+  }
+
+  private dialogFacts(): FlowFacts {
+    const state = this.verificationData.state;
+    const urgentOnly = !this.businessHours.open && this.businessHours.policy === 'emergency_only';
+    return {
+      caller_identified: state === 'VERIFIED' || state === 'UNVERIFIED',
+      caller_verified: state === 'VERIFIED',
+      can_schedule: !this.emergency && !!this.appointmentContext(),
+      can_self_fix: !this.emergency && !!this.selfFixContext() && !!this.suggestedSelfFix(),
+      self_fix_resolved: this.selfFix?.outcome === 'resolved',
+      urgent_only: urgentOnly,
+      all_requests: !urgentOnly,
+    };
+  }
+
+  /**
+   * Take any automatic dialog flow transitions the call now qualifies for
+   */
+  private advanceDialogFlow() {
+    if (!this.dialogFlow) return;
+    const entered = this.dialogFlow.advance(this.dialogFacts());
+    if (entered.length > 0) {
+      this.log.info('Dialog flow advanced', { flow: this.dialogFlow.flow.id, states: entered });
+    }
+  }
+
+  private workOrderContext(): WorkOrderStatusContext | null {
+    if (this.verificationData.state !== 'VERIFIED' || !this.propertyContext || !this.tenantContext) return null;
+    return { log: this.log, propertyContext: this.propertyContext, tenantContext: this.tenantContext };
+  }
+
+  /**
+   * Booking a visit needs a verified caller and a work order from this call
+   */
+  private appointmentContext(): AppointmentContext | null {
+    const ctx = this.workOrderContext();
+    if (!ctx || !this.createdWorkOrderId || !schedulingEnabled(this.propertyContext)) return null;
+    return { ...ctx, workOrderId: this.createdWorkOrderId, language: this.language };
+  }
+
+  private selfFixContext(): SelfFixContext | null {
+    if (!this.propertyContext || !selfFixAvailable(this.propertyContext)) return null;
+    return { log: this.log, propertyContext: this.propertyContext, tenantContext: this.tenantContext };
+  }
+
+  /**
+   * A guide not yet tried on this call that fits the problem the caller described
+   */
+  private suggestedSelfFix(): SelfFixGuide | null {
+    const slots = this.dialogFlow?.getSlots();
+    const callerWords = this.conversationHistory.filter((m) => m.role === 'user').map((m) => m.content);
+    const described = [slots?.issue, slots?.location, ...callerWords].filter(Boolean).join(' ');
+    const guide = findSelfFixGuide(described);
+    return guide && !this.selfFixTried.has(guide.id) ? guide : null;
+  }
+
+  /**
+   * Steps tried in a guide that didn't fix the problem - attached to the
+   * next ticket filed
+   */
+  private troubleshooting(): string | null {
+    const attempt = this.selfFix;
+    if (!attempt || attempt.outcome === 'resolved' || attempt.steps.length === 0) return null;
+    return attempt.describe();
+  }
+
+  private ticketContext(): TicketContext {
+    return {
+      log: this.log,
+      recorder: this.recorder,
+      propertyContext: this.propertyContext,
+      tenantContext: this.tenantContext,
+    };
+  }
+
+  /**
+   * Hand a draft to the model to read back. Nothing is filed until
+   * confirm_ticket hears the caller's yes.
+   */
+  private readBackDraft(draft: TicketDraft, corrected: string[]): ToolResult {
+    return {
+      output: {
+        created: false,
+        draft: describeDraft(draft),
+        ...(corrected.length > 0 && { corrected }),
+        note:
+          'Not filed yet. Read it back in one short sentence and ask if that is right (they can press 1 for yes ' +
+          'or 2 for no). Call confirm_ticket once they say yes.',
+      },
+      pending: true,
+    };
+  }
+
+  /**
+   * File a draft the caller confirmed (confirmedBy null: no read-back, in an emergency)
+   */
+  private async fileTicketDraft(draft: TicketDraft, confirmedBy: TicketDraft['confirmedBy']): Promise<ToolResult> {
+    confirmDraft(draft, confirmedBy);
+    if (this.verificationData.state !== 'VERIFIED') return this.fileUnverifiedDraft(draft);
+
+    const workOrderId = await createTicketFromConversation(this.ticketContext(), this.conversationHistory, draft);
+    draft.workOrderId = workOrderId;
+    this.recorder.recordTicketDraft(draftRecord(draft));
+    if (!workOrderId) return { output: { created: false, error: 'Could not save the request' } };
+
+    this.ticketDraft = null;
+    this.selfFix = null;
+    this.createdWorkOrderId = workOrderId;
+    this.ticketsThisCall.push(workOrderId);
+    this.offeredSlots = [];
+    return { output: { created: true, type: 'work_order' } };
+  }
+
+  /**
+   * Pass a confirmed draft from a caller we couldn't verify to the property
+   * manager for review
+   */
+  private async fileUnverifiedDraft(draft: TicketDraft): Promise<ToolResult> {
+    const requestId = await createUnverifiedRequest(
+      { log: this.log, verifier: this.verifier, recorder: this.recorder, propertyContext: this.propertyContext, fromPhone: this.fromPhone },
+      this.verificationData,
+      this.conversationHistory,
+      draft.troubleshooting,
+      describeDraft(draft)
+    );
+    this.verificationData.createdUnverifiedRequest = true;
+    draft.unverifiedRequestId = requestId;
+    this.recorder.recordTicketDraft(draftRecord(draft));
+
+    this.ticketDraft = null;
+    this.selfFix = null;
+    return { output: { created: !!requestId, type: 'unverified_request', note: 'The property manager will review it and follow up' } };
+  }
+
+  /**
+   * The work order the caller means by "ticket N", looking them up first if
+   * the model skipped that
+   */
+  private async findWorkOrder(ctx: WorkOrderStatusContext, ticket: number): Promise<TenantWorkOrder | null> {
+    if (!this.workOrders) this.workOrders = await lookupWorkOrders(ctx);
+    return this.workOrders[ticket - 1] || null;
+  }
+
+  private toolHandlers(): VoiceToolHandlers {
+    const verificationContext = {
+      log: this.log,
+      verifier: this.verifier,
+      recorder: this.recorder,
+      propertyContext: this.propertyContext,
+      fromPhone: this.fromPhone,
+    };
+
+    const notVerified = { output: { error: 'Only a verified caller can hear about or change their requests' } };
+    const noSuchTicket = { output: { error: 'No such ticket - use a ticket number from lookup_work_orders' } };
+
+    return {
+      add_work_order_note: async (args) => {
+        const ctx = this.workOrderContext();
+        if (!ctx) return notVerified;
+        const order = await this.findWorkOrder(ctx, args.ticket);
+        if (!order) return noSuchTicket;
+        const added = await addNote(ctx, order, args.note);
+        return { output: added ? { added: true } : { added: false, error: 'Could not save the note' } };
+      },
+
+      book_appointment: async (args) => {
+        const ctx = this.appointmentContext();
+        if (!ctx) return { output: { error: 'There is no request from this call to book a visit for' } };
+        const slot = this.offeredSlots[args.slot - 1];
+        if (!slot) return { output: { error: 'No such slot - use a slot number from find_appointment_slots' } };
+
+        const result = await book(ctx, slot, args.permission_to_enter, args.access_notes);
+        if (result === 'taken') {
+          this.offeredSlots = [];
+          return { output: { booked: false, note: 'That time was just taken. Apologize and find other times.' } };
+        }
+        if (result === 'failed') return { output: { booked: false, error: 'Could not book the visit' } };
+        return { output: { booked: true, ...describeOfferedSlot(ctx, slot, args.slot) } };
+      },
+
+      cancel_work_order: async (args) => {
+        const ctx = this.workOrderContext();
+        if (!ctx) return notVerified;
+        const order = await this.findWorkOrder(ctx, args.ticket);
+        if (!order) return noSuchTicket;
+        if (!isWorkOrderCancellable(order.status)) {
+          return {
+            output: {
+              cancelled: false,
+              note: `It is already ${order.status.replace(/_/g, ' ')} and can't be cancelled by phone. Offer to add a note or transfer them.`,
             },
-            fullResponse,
-            this.verificationData,
-            this.conversationHistory,
-            this.issueData
-          );
-          this.shouldCreateTicket = parseResult.shouldCreateTicket;
-          this.verificationData.createdUnverifiedRequest = parseResult.createdUnverifiedRequest;
-          this.issueData = parseResult.issueData;
-          if (parseResult.shouldEndCall) {
-            setTimeout(() => this.end(), 2000);
+          };
+        }
+        const cancelled = await cancel(ctx, order, args.reason);
+        return { output: cancelled ? { cancelled: true } : { cancelled: false, error: 'Could not cancel the request' } };
+      },
+
+      confirm_ticket: async () => {
+        const draft = this.ticketDraft;
+        if (!draft) return { output: { error: 'There is no drafted request - call create_ticket first' } };
+        const confirmedBy = readBackConfirmation(draft, this.lastReply);
+        if (!confirmedBy) {
+          return {
+            output: { error: "The caller hasn't said yes to the read-back. Read it back and wait for their answer." },
+          };
+        }
+        return this.fileTicketDraft(draft, confirmedBy);
+      },
+
+      create_ticket: async (args) => {
+        if (args.category) this.issueData = { ...this.issueData, category: args.category };
+
+        // An emergency already filed one - don't open a second ticket
+        if (this.emergencyEscalation) {
+          await this.emergencyEscalation;
+          if (this.createdWorkOrderId || this.verificationData.createdUnverifiedRequest) {
+            return { output: { created: true, note: 'The emergency request was already created' } };
           }
+        }
+
+        const verified = this.verificationData.state === 'VERIFIED';
+        if (!verified && this.verificationData.state !== 'UNVERIFIED') {
+          return { output: { created: false, error: "Get the caller's name and unit number first" } };
+        }
+        if (this.verificationData.createdUnverifiedRequest) {
+          return { output: { created: false, note: 'Their request was already passed on - the office will follow up on everything they said' } };
+        }
+        const ticketContext = this.ticketContext();
+
+        // The caller corrected the draft being read back
+        if (this.ticketDraft) {
+          const corrected = correctDraft(this.ticketDraft, args, this.callerTurns);
+          this.recorder.recordTicketDraft(draftRecord(this.ticketDraft));
+          return this.readBackDraft(this.ticketDraft, corrected);
+        }
+        if (!args.location) return { output: { created: false, error: 'Ask where the problem is, then pass location' } };
 
-          const cleaned = cleanResponse(fullResponse);
-          this.addToConversationHistory('assistant', cleaned);
-          this.recorder.appendTranscript('ai', cleaned);
-
-          // Start auto-end timer if response sounds like conversation is wrapping up
-          const closingPhrases = ['anything else', 'have a good', 'take care', 'bye', 'goodbye', 'we\'ll get', 'we\'ll take care', 'someone will', 'is there anything'];
-          const soundsLikeClosing = closingPhrases.some(phrase => cleaned.toLowerCase().includes(phrase));
-          if (soundsLikeClosing) {
-            if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
-            this.autoEndTimer = setTimeout(() => {
-              this.log.info('Auto-ending call after silence (conversation complete)');
-              this.end();
-            }, 5000); // 5 seconds of silence after closing phrase
+        // Ask before opening a second ticket for a problem that's already open
+        if (verified && (args.same_as_existing === null || !this.possibleDuplicate)) {
+          const issue = args.issue || this.dialogFlow?.getSlots().issue || null;
+          const match = await findDuplicateWorkOrder(ticketContext, args, issue, this.ticketsThisCall);
+          if (match) {
+            this.possibleDuplicate = match.workOrder;
+            const { workOrder } = match;
+            return {
+              output: {
+                created: false,
+                // Another unit's request is theirs - only say what kind of problem it is
+                possible_duplicate: match.sameUnit
+                  ? { title: workOrder.title, status: workOrder.status.replace(/_/g, ' '), reported_from: 'their unit' }
+                  : {
+                      category: workOrder.category,
+                      status: workOrder.status.replace(/_/g, ' '),
+                      reported_from: 'another unit in the building',
+                    },
+                note: 'This may already be reported. Ask if it is the same problem, then call create_ticket again with same_as_existing.',
+              },
+              pending: true,
+            };
           }
+        }
+
+        const duplicate = this.possibleDuplicate;
+        this.possibleDuplicate = null;
+        const troubleshooting = this.troubleshooting();
+        if (duplicate && args.same_as_existing) {
+          const appended = await appendToExistingTicket(
+            ticketContext,
+            this.conversationHistory,
+            duplicate,
+            args,
+            troubleshooting
+          );
+          if (!appended) return { output: { created: false, error: 'Could not add to the existing request' } };
+          this.selfFix = null;
+          this.createdWorkOrderId = duplicate.id;
+          this.ticketsThisCall.push(duplicate.id);
+          this.offeredSlots = [];
+          return { output: { created: false, added_to_existing: true, note: 'Their details were added to the open request' } };
+        }
+
+        // Draft it for the read-back - verified or not, nothing is filed until the
+        // caller agrees. If they said it's a different problem from an open one,
+        // it's still flagged for the PM to double-check.
+        const draft = await draftTicket(ticketContext, this.conversationHistory, args, {
+          number: ++this.ticketDraftCount,
+          possibleDuplicateOf: duplicate,
+          troubleshooting,
+          readBackTurn: this.callerTurns,
+        });
+        if (!draft) return { output: { created: false, error: 'Could not save the request' } };
+        // No read-back in an emergency - get it filed
+        if (this.emergency) return this.fileTicketDraft(draft, null);
+
+        this.ticketDraft = draft;
+        this.recorder.recordTicketDraft(draftRecord(draft));
+        return this.readBackDraft(draft, []);
+      },
+
+      end_call: async (args) => {
+        this.log.info('Model ended the call', { reason: args.reason });
+        this.endCallRequested = true;
+        return { output: { ending: true }, endTurn: true };
+      },
+
+      find_appointment_slots: async (args) => {
+        const ctx = this.appointmentContext();
+        if (!ctx) return { output: { error: 'There is no request from this call to book a visit for' } };
+
+        const offer = await offerSlots(ctx, args.preference);
+        this.offeredSlots = offer.status === 'offered' ? offer.slots : [];
+        switch (offer.status) {
+          case 'offered':
+            return {
+              output: {
+                slots: offer.slots.map((slot, i) => describeOfferedSlot(ctx, slot, i + 1)),
+                ...(!offer.understood && { note: "Couldn't tell when they meant - these are the earliest times" }),
+              },
+            };
+          case 'none_available':
+            return {
+              output: {
+                slots: [],
+                note: offer.filtered
+                  ? 'Nothing open then. Ask if another time works.'
+                  : 'No times are open to book. Tell them the office will be in touch to arrange a visit.',
+              },
+            };
+          case 'already_scheduled':
+            return { output: { error: `This request is already scheduled for ${offer.when}` } };
+          case 'not_schedulable':
+            return { output: { error: 'This request can no longer be scheduled' } };
+        }
+      },
+
+      identify_caller: async (args) => {
+        if (this.verificationData.state === 'VERIFIED') {
+          return { output: { verified: true, note: 'Caller is already verified' } };
+        }
+        const attempt = await handleIdentifiedCaller(verificationContext, args, this.verificationData);
+        this.verificationData = keepFiledRequest(this.verificationData, attempt);
+        if (this.verificationData.tenantContext) {
+          this.tenantContext = this.verificationData.tenantContext;
+        }
+        return {
+          output: {
+            verified: this.verificationData.state === 'VERIFIED',
+            state: this.verificationData.state,
+            have_name: !!this.verificationData.claimedName,
+            have_unit: !!this.verificationData.claimedUnit,
+          },
+        };
+      },
+
+      lookup_work_orders: async () => {
+        const ctx = this.workOrderContext();
+        if (!ctx) return notVerified;
+        try {
+          this.workOrders = await lookupWorkOrders(ctx);
+        } catch (error) {
+          this.log.error('Work order lookup failed', { error: (error as Error).message });
+          return { output: { error: 'Could not look up their requests right now' } };
+        }
+        return {
+          output: {
+            work_orders: this.workOrders.map((order, i) => describeWorkOrder(order, i + 1, ctx.propertyContext, this.language)),
+            ...(this.workOrders.length === 0 && { note: 'No open or recent requests' }),
+          },
+        };
+      },
 
-          if (this.shouldCreateTicket) {
-            const workOrderId = await handleTicketCreation(
-              { log: this.log, recorder: this.recorder, verifier: this.verifier, propertyContext: this.propertyContext, tenantContext: this.tenantContext, fromPhone: this.fromPhone },
-              this.conversationHistory
-            );
-            if (workOrderId) this.createdWorkOrderId = workOrderId;
-            this.shouldCreateTicket = false;
+      report_self_fix_step: async (args) => {
+        const ctx = this.selfFixContext();
+        const attempt = this.selfFix;
+        if (!ctx || !attempt || attempt.outcome !== 'in_progress') {
+          return { output: { error: 'No guide in progress - call start_self_fix first' } };
+        }
+
+        const outcome = attempt.record(args.result, args.note);
+        this.log.info('Self-fix step', { guide: attempt.guide.id, step: attempt.steps.length, result: args.result });
+        if (outcome === 'in_progress') {
+          return { output: { next: describeSelfFixStep(attempt) }, pending: true };
+        }
+        if (outcome === 'resolved') {
+          await recordSelfFixResolved(ctx, attempt);
+          return { output: { fixed: true, note: 'No ticket needed. Ask if there is anything else.' } };
+        }
+        return {
+          output: {
+            fixed: false,
+            note: 'The guide is done. Tell them you will put in a request - the steps they tried go with it.',
+          },
+        };
+      },
+
+      start_self_fix: async (args) => {
+        if (this.selfFix?.outcome === 'in_progress') {
+          return { output: { error: `Already on step ${this.selfFix.stepNumber} of ${this.selfFix.guide.title}` } };
+        }
+        const guide = getSelfFixGuide(args.guide);
+        if (!guide) return { output: { error: 'No such guide' } };
+        if (this.selfFixTried.has(guide.id)) {
+          return { output: { error: 'They already tried this guide - create a ticket instead' } };
+        }
+
+        this.selfFix = new SelfFixAttempt(guide);
+        this.selfFixTried.add(guide.id);
+        this.log.info('Self-fix started', { guide: guide.id });
+        return { output: { step: describeSelfFixStep(this.selfFix) } };
+      },
+
+      update_dialog: async (args) => {
+        if (!this.dialogFlow) return { output: { error: 'This call has no dialog flow' } };
+
+        const unknownSlots = this.dialogFlow.fillSlots(args.slots);
+        let error: string | undefined;
+        if (args.next_state) {
+          const from = this.dialogFlow.state;
+          const result = this.dialogFlow.requestTransition(args.next_state, this.dialogFacts());
+          if (result.ok) {
+            this.log.info('Dialog flow transition', { flow: this.dialogFlow.flow.id, from, to: result.state });
+          } else {
+            error = result.error;
           }
-        },
+        }
+        this.advanceDialogFlow();
+
+        return {
+          output: {
+            step: this.dialogFlow.state,
+            still_needed: this.dialogFlow.missingSlots(),
+            ...(unknownSlots.length > 0 && { unknown_details: unknownSlots }),
+            ...(error && { error }),
+          },
+        };
+      },
+
+      transfer: async (args) => {
+        if (this.transferStatus === 'ringing' || this.transferStatus === 'connected') {
+          return { output: { transferring: true, note: 'Already connecting them - ask them to hold on' } };
+        }
+        if (this.transferStatus === 'failed' || !resolveTransferTarget(this.propertyContext, this.businessHours)) {
+          this.log.info('Transfer requested - nobody to take it', { reason: args.reason });
+          return {
+            output: {
+              transferred: false,
+              note: 'No one is available to take the call right now. Offer to take a message and create a ticket.',
+            },
+          };
+        }
+        this.startTransfer(args.reason);
+        // The caller has been told they're being connected - nothing more to say
+        return { output: { transferring: true }, endTurn: true };
+      },
+    };
+  }
+
+  private transferContext() {
+    return {
+      log: this.log,
+      recorder: this.recorder,
+      propertyContext: this.propertyContext,
+      callSid: this.callSid,
+      fromPhone: this.fromPhone,
+      toPhone: this.toPhone,
+      language: this.language,
+    };
+  }
+
+  /**
+   * Tell the caller they're being connected, then hand them over once
+   * they've heard it
+   */
+  private startTransfer(reason: string | null) {
+    const target = resolveTransferTarget(this.propertyContext, this.businessHours);
+    if (!target) return;
+
+    this.log.info('Transfer requested', { reason, mode: target.mode });
+    this.transferStatus = 'ringing';
+    this.sayFixed(getMessages(this.language).transferConnecting);
+
+    this.runTransfer(target).catch((error) => {
+      this.log.error('Transfer failed', { mode: target.mode, error: (error as Error).message });
+      this.handleTransferFailed('error');
+    });
+  }
+
+  private async runTransfer(target: TransferTarget) {
+    if (target.mode === 'cold') {
+      await this.playbackDrained();
+      if (this.hasEnded) return;
+      this.transferId = await startColdTransfer(this.transferContext(), target, {
+        recording: this.recorder.snapshot(),
+        messages: [...this.conversationHistory],
+        verificationData: this.verificationData,
+        createdWorkOrderId: this.createdWorkOrderId,
       });
+      // Twilio closes the media stream once the call is redirected
+      this.transferStatus = 'connected';
+      await this.end();
+      return;
+    }
+
+    const summary = await this.recorder.generateSummary();
+    if (this.hasEnded) return;
+    this.transferId = await startWarmTransfer(this.transferContext(), target, summary, (event) =>
+      this.handleWarmTransferEvent(event)
+    );
+  }
+
+  private async handleWarmTransferEvent(event: WarmTransferEvent) {
+    if (this.hasEnded || this.transferStatus !== 'ringing' || !this.transferId) return;
+
+    if (event.type === 'failed') {
+      this.log.info('Warm transfer not answered', { reason: event.reason });
+      this.handleTransferFailed(event.reason);
+      return;
+    }
+
+    // They picked up and heard the summary - move the caller over
+    const transferId = this.transferId;
+    try {
+      await this.playbackDrained();
+      // The transfer may have timed out while the caller was still listening
+      if (this.hasEnded || this.transferStatus !== 'ringing') return;
+      await joinWarmTransfer(transferId);
+      this.transferStatus = 'connected';
+      this.log.info('Caller joined warm transfer');
+      await this.end();
     } catch (error) {
-      this.log.error('Error processing input', { error: (error as Error).message });
-      const errorMsg = "I'm sorry, I'm having trouble. Could you repeat that?";
-      if (this.audio) this.audio.totalTTSCharacters += speakText(this.audio.tts, errorMsg);
-      this.recorder.appendTranscript('ai', errorMsg);
-    } finally {
-      this.isProcessing = false;
+      this.log.error('Failed to join caller to transfer', { error: (error as Error).message });
+      await cancelTransfer(transferId).catch(() => {});
+      this.handleTransferFailed('join_failed');
     }
   }
 
+  /**
+   * Nobody took the call - stay on and take a message
+   */
+  private handleTransferFailed(reason: string) {
+    if (this.hasEnded) return;
+    this.transferStatus = 'failed';
+    this.transferId = null;
+    this.log.info('Transfer fell back to taking a message', { reason });
+
+    if (this.audio?.playback.isPlaying() || this.llmAbortController) {
+      this.handleBargeIn();
+    }
+    this.sayFixed(getMessages(this.language).transferUnavailable);
+  }
+
+  /**
+   * Speak a fixed message and keep it in the conversation
+   */
+  private sayFixed(text: string) {
+    if (this.audio) this.audio.totalTTSCharacters += speakText(this.audio, text);
+    this.addToConversationHistory({ role: 'assistant', content: text });
+    this.recorder.appendTranscript('ai', text);
+  }
+
+  /**
+   * STT settings for the start of the call. When callers may use more than
+   * one language, Deepgram's multilingual mode is used if the model has it;
+   * otherwise the stream starts in the default language and is reopened
+   * once the caller's language is known. A language pinned in the STT
+   * settings is left alone.
+   */
+  private initialSttConfig(): SttConfig {
+    const sttConfig = resolveSttConfig(this.propertyContext?.voice_config?.stt);
+    if (sttConfig.language) return sttConfig;
+
+    const supportsMulti = sttConfig.provider === 'deepgram' && (!sttConfig.model || /^nova-[23]/.test(sttConfig.model));
+    this.sttLanguage =
+      this.languages.supported.length > 1 && supportsMulti ? 'multi' : sttLanguageCode(this.language);
+    return { ...sttConfig, language: this.sttLanguage };
+  }
+
+  /**
+   * Follow the caller's language: set from their first clear utterance,
+   * and switched later if they clearly speak another supported language
+   */
+  private updateLanguage(text: string) {
+    if (this.languages.supported.length < 2) return;
+
+    const detected = detectLanguage(text, this.languages.supported);
+    if (!detected) return;
+
+    const confident = this.languageDetected
+      ? text.trim().split(/\s+/).length >= LANGUAGE_SWITCH_MIN_WORDS &&
+        detected.confidence >= LANGUAGE_SWITCH_MIN_CONFIDENCE
+      : detected.confidence >= LANGUAGE_DETECT_MIN_CONFIDENCE;
+    if (!confident) return;
+
+    if (!this.languageDetected) {
+      this.languageDetected = true;
+      this.log.info('Caller language detected', { language: detected.language, confidence: detected.confidence });
+    }
+    this.recorder.setCallerLanguage(detected.language);
+
+    if (detected.language !== this.language) {
+      this.switchLanguage(detected.language);
+    }
+  }
+
+  /**
+   * Switch the prompt, fixed messages, TTS voice and (unless it is
+   * multilingual) the STT stream to another language. Neither stream is
+   * waited for: STT reconnects while the reply is worked out (the caller has
+   * just finished speaking), and the voice changes once the reply has been
+   * heard, so nothing is cut off mid-sentence.
+   */
+  private switchLanguage(language: SupportedLanguage) {
+    this.log.info('Switching call language', { from: this.language, to: language });
+    this.language = language;
+    if (!this.audio) return;
+
+    const sttLanguage = this.sttLanguage && this.sttLanguage !== 'multi' ? sttLanguageCode(language) : undefined;
+    if (sttLanguage) {
+      switchSttLanguage(this.audio, this.log, sttLanguage)
+        .then(() => {
+          this.sttLanguage = sttLanguage;
+        })
+        .catch((error) => {
+          // The old stream is still open - carry on with it
+          this.log.error('Failed to switch STT language', { language, error: (error as Error).message });
+        });
+    }
+    this.pendingVoiceLanguage = language;
+  }
+
+  /**
+   * Change the TTS voice to the call's language once the caller has heard
+   * this reply. If they speak again first, it waits for the next one.
+   */
+  private async switchVoiceAfterReply(responseId: number) {
+    const language = this.pendingVoiceLanguage;
+    if (!language || !this.audio) return;
+
+    await this.playbackDrained();
+    if (responseId !== this.responseCounter || this.hasEnded || language !== this.pendingVoiceLanguage) return;
+
+    this.pendingVoiceLanguage = null;
+    try {
+      const switched = await switchTtsLanguage(this.audio, this.log, language, () => !this.isProcessing);
+      if (!switched && !this.pendingVoiceLanguage) this.pendingVoiceLanguage = language;
+    } catch (error) {
+      // The old voice is still open - carry on with it
+      this.log.error('Failed to switch TTS language', { language, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Hang up after a few seconds of silence if the response sounds like a goodbye
+   */
+  private scheduleAutoEnd(response: string, responseId: number) {
+    const closingPhrases = getMessages(this.language).closingPhrases;
+    const soundsLikeClosing = closingPhrases.some(phrase => response.toLowerCase().includes(phrase));
+    if (!soundsLikeClosing) return;
+
+    if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
+    // Count the silence from when the caller has heard the closing phrase
+    this.playbackDrained().then(() => {
+      if (responseId !== this.responseCounter || this.hasEnded) return;
+      if (this.autoEndTimer) clearTimeout(this.autoEndTimer);
+      this.autoEndTimer = setTimeout(() => {
+        this.log.info('Auto-ending call after silence (conversation complete)');
+        this.hangUp();
+      }, 5000); // 5 seconds of silence after closing phrase
+    });
+  }
+
   async end() {
+    // end() can be reached from hangUp, Twilio's stop event and socket close
+    if (this.hasEnded) return;
+    this.hasEnded = true;
+
+    this.dtmfCollector.dispose();
+
     // Clear auto-end timer
     if (this.autoEndTimer) {
       clearTimeout(this.autoEndTimer);
       this.autoEndTimer = null;
     }
+
+    // The end-of-call handler must see the emergency ticket, not make another
+    if (this.emergencyEscalation) await this.emergencyEscalation;
+
+    // Caller hung up while we were still ringing someone
+    if (this.transferStatus === 'ringing' && this.transferId) {
+      await cancelTransfer(this.transferId).catch((error) => {
+        this.log.warn('Failed to cancel transfer', { error: (error as Error).message });
+      });
+    }
+    // Hung up before confirming the read-back - nothing was filed
+    if (this.ticketDraft) {
+      this.ticketDraft.confirmation = 'not_confirmed';
+      this.recorder.recordTicketDraft(draftRecord(this.ticketDraft));
+    }
+
+    const outcome: CallOutcome =
+      this.transferStatus === 'connected' ? 'transferred' : this.transferStatus === 'failed' ? 'transfer_failed' : 'completed';
+
     await handleEndSession(
       {
         log: this.log,
@@ -338,8 +1612,9 @@ export class VoiceSession {
         fromPhone: this.fromPhone,
         toPhone: this.toPhone,
         callStartTime: this.callStartTime,
+        language: this.language,
         audio: this.audio,
-        silenceTimer: this.silenceTimer,
+        turnDetector: this.turnDetector,
         durationTimers: this.durationTimers,
       },
       {
@@ -347,6 +1622,7 @@ export class VoiceSession {
         conversationHistory: this.conversationHistory,
         issueData: this.issueData,
         createdWorkOrderId: this.createdWorkOrderId,
+        outcome,
       }
     );
   }
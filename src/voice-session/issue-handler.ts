@@ -7,6 +7,7 @@
 import { SessionLogger } from '../utils/index.js';
 import { SessionRecorder } from '../session-recorder/index.js';
 import { sendSMS } from '../sms-session.js';
+import { getMessages, SupportedLanguage } from '../locales/index.js';
 import {
   TenantContext,
   ISSUE_CATEGORIES,
@@ -20,6 +21,8 @@ export interface IssueContext {
   fromPhone: string;
   toPhone: string;
   tenantContext: TenantContext | null;
+  // Language the caller spoke - the SMS is sent in it
+  language: SupportedLanguage;
 }
 
 export interface IssueData {
@@ -66,36 +69,15 @@ export function shouldRequestMedia(issueCategory: string | null): boolean {
 }
 
 /**
- * Build the media request message based on issue type
+ * Build the media request message based on issue type, in the caller's language
  */
 function buildMediaRequestMessage(
   issueCategory: string,
-  tenantName: string | null
+  tenantName: string | null,
+  language: SupportedLanguage
 ): string {
-  const greeting = tenantName ? `Hi ${tenantName}!` : 'Hi!';
-  let mediaRequest = `${greeting} Thanks for calling! `;
-
-  switch (issueCategory) {
-    case 'plumbing_leak':
-      mediaRequest += "If you can safely take a photo or quick video of the leak, it'll help us send the right person with the right tools. Just reply to this text with the photo when you can!";
-      break;
-    case 'structural':
-      mediaRequest += "A photo of the issue would really help us assess it better. Just reply to this text with a picture when you have a moment!";
-      break;
-    case 'appliance':
-      mediaRequest += "If you can snap a photo of the appliance (and any error codes if there are any), it'll help us figure out exactly what's going on. Just reply with the pic!";
-      break;
-    case 'pest':
-      mediaRequest += "If you're able to safely get a photo (no need to get too close!), it'll help us identify exactly what we're dealing with. Just reply with the pic!";
-      break;
-    case 'electrical':
-      mediaRequest += "If it's safe to do so, a photo of the outlet/switch would help us assess the issue. Just reply with the pic when you can!";
-      break;
-    default:
-      mediaRequest += "If you can send us a photo of the issue, it'll really help us get this sorted faster. Just reply to this text with the pic!";
-  }
-
-  return mediaRequest;
+  const messages = getMessages(language);
+  return messages.mediaGreeting(tenantName) + (messages.mediaRequest[issueCategory] || messages.mediaRequest.default);
 }
 
 /**
@@ -119,7 +101,7 @@ export async function sendPostCallMediaRequest(
   }
 
   const tenantName = ctx.tenantContext?.name?.split(' ')[0] || null;
-  const mediaRequest = buildMediaRequestMessage(issueCategory!, tenantName);
+  const mediaRequest = buildMediaRequestMessage(issueCategory!, tenantName, ctx.language);
 
   try {
     const success = await sendSMS(ctx.fromPhone, ctx.toPhone, mediaRequest);
@@ -0,0 +1,197 @@
+/**
+ * Voice Session - Playback Tracker
+ *
+ * Tracks assistant audio queued to Twilio so we know whether the caller
+ * is currently hearing the assistant, and how much of the turn they heard.
+ *
+ * Every audio chunk is followed by a Twilio `mark`. Twilio echoes the mark
+ * back once the audio before it has played, which tells us the real
+ * playback position instead of a guess.
+ */
+
+// Twilio plays 8kHz mulaw: one byte per sample
+const MULAW_BYTES_PER_MS = 8;
+
+// Allow for network delay on mark echoes before trusting the time estimate
+const MARK_GRACE_MS = 1500;
+
+// TTS is considered finished if no audio has arrived for this long
+const TTS_IDLE_MS = 1500;
+
+// How often waitForDrain re-checks playback state
+const DRAIN_POLL_MS = 100;
+
+interface PlaybackSegment {
+  text: string;
+  markName: string;
+  startAt: number;
+  durationMs: number;
+}
+
+/**
+ * Estimates the caller's playback position from the audio we have sent,
+ * corrected by mark acknowledgements from Twilio.
+ * Twilio plays queued media in real time, so each chunk starts playing once
+ * everything queued before it has finished.
+ */
+export class PlaybackTracker {
+  private segments: PlaybackSegment[] = [];
+  private pendingMarks = new Set<string>();
+  private markCounter = 0;
+  private turnText = '';
+  private playheadEndAt = 0;
+  private lastTextAt = 0;
+  private lastAudioAt = 0;
+
+  /**
+   * Start tracking a new assistant turn
+   */
+  beginTurn(): void {
+    this.segments = [];
+    this.turnText = '';
+  }
+
+  /**
+   * Record text sent to TTS for the current turn
+   */
+  addText(text: string): void {
+    this.turnText += text;
+    this.lastTextAt = Date.now();
+  }
+
+  /**
+   * Record an audio chunk sent to Twilio, with the text it speaks (if known).
+   * Returns the mark name to send after the chunk.
+   */
+  recordAudio(audioChunk: Buffer, text = ''): string {
+    const now = Date.now();
+    const startAt = Math.max(now, this.playheadEndAt);
+    const durationMs = audioChunk.length / MULAW_BYTES_PER_MS;
+    const markName = `seg-${++this.markCounter}`;
+
+    this.segments.push({ text, markName, startAt, durationMs });
+    this.pendingMarks.add(markName);
+    this.playheadEndAt = startAt + durationMs;
+    this.lastAudioAt = now;
+    return markName;
+  }
+
+  /**
+   * Handle a mark echoed back by Twilio - everything up to it has played
+   */
+  handleMark(markName: string): void {
+    if (!this.pendingMarks.delete(markName)) return;
+
+    // Marks are played in order, so earlier ones are done too
+    const index = this.segments.findIndex((s) => s.markName === markName);
+    if (index === -1) return;
+    for (const segment of this.segments.slice(0, index)) {
+      this.pendingMarks.delete(segment.markName);
+    }
+
+    // Re-anchor the estimate for the audio still queued behind this mark
+    let startAt = Date.now();
+    const acked = this.segments[index];
+    acked.startAt = startAt - acked.durationMs;
+    for (const segment of this.segments.slice(index + 1)) {
+      segment.startAt = startAt;
+      startAt += segment.durationMs;
+    }
+    this.playheadEndAt = startAt;
+  }
+
+  /**
+   * Whether assistant audio is still playing on the caller's end
+   */
+  isPlaying(): boolean {
+    const now = Date.now();
+    if (now < this.playheadEndAt) return true;
+    return this.pendingMarks.size > 0 && now < this.playheadEndAt + MARK_GRACE_MS;
+  }
+
+  /**
+   * Whether all text sent to TTS has been synthesized and played
+   */
+  isDrained(): boolean {
+    if (this.isPlaying()) return false;
+    // Text sent after the last audio chunk may still be synthesizing
+    const awaitingAudio = this.lastTextAt > this.lastAudioAt && Date.now() - this.lastTextAt < TTS_IDLE_MS;
+    return !awaitingAudio;
+  }
+
+  /**
+   * Resolve once the caller has heard everything queued (or the timeout passes)
+   */
+  waitForDrain(timeoutMs: number): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    return new Promise((resolve) => {
+      const check = () => {
+        if (this.isDrained() || Date.now() >= deadline) {
+          resolve();
+        } else {
+          setTimeout(check, DRAIN_POLL_MS);
+        }
+      };
+      check();
+    });
+  }
+
+  /**
+   * Text of the current turn the caller has heard so far
+   */
+  getHeardText(): string {
+    const now = Date.now();
+    const hasAlignment = this.segments.some((s) => s.text);
+
+    if (!hasAlignment) {
+      // No per-chunk text from TTS - estimate from the share of audio played
+      const totalMs = this.segments.reduce((sum, s) => sum + s.durationMs, 0);
+      if (totalMs === 0) return '';
+      const playedMs = this.segments.reduce((sum, s) => sum + this.playedDuration(s, now), 0);
+      return cutAtWordBoundary(this.turnText, Math.floor(this.turnText.length * (playedMs / totalMs)));
+    }
+
+    let heard = '';
+    for (const segment of this.segments) {
+      const played = this.playedDuration(segment, now);
+      if (played >= segment.durationMs) {
+        heard += segment.text;
+      } else {
+        if (played > 0) {
+          heard += cutAtWordBoundary(segment.text, Math.floor(segment.text.length * (played / segment.durationMs)));
+        }
+        break;
+      }
+    }
+    return heard.trim();
+  }
+
+  /**
+   * Forget queued audio (after Twilio's buffer has been cleared)
+   */
+  reset(): void {
+    this.segments = [];
+    this.pendingMarks.clear();
+    this.turnText = '';
+    this.playheadEndAt = 0;
+    this.lastTextAt = 0;
+  }
+
+  private playedDuration(segment: PlaybackSegment, now: number): number {
+    // An acknowledged mark means the segment definitely finished
+    if (!this.pendingMarks.has(segment.markName)) return segment.durationMs;
+    // Not acknowledged - never count it as fully played
+    const played = Math.min(Math.max(now - segment.startAt, 0), segment.durationMs);
+    return Math.min(played, segment.durationMs - 1);
+  }
+}
+
+/**
+ * Cut text to at most `length` characters without splitting a word
+ */
+function cutAtWordBoundary(text: string, length: number): string {
+  if (length >= text.length) return text.trim();
+  const cut = text.slice(0, length);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > 0 ? cut.slice(0, lastSpace) : '').trim();
+}
@@ -8,21 +8,51 @@
  * - Set AI_NAME environment variable for your AI's name
  * - Set COMPANY_NAME environment variable for your company name
  * - Modify buildSystemPrompt() to fit your specific use case
+ * - Fixed phrases for each language live in src/locales/messages.ts
  */
 
 import { VerificationState, TenantContext, PropertyContext } from './types.js';
 import { sanitizeForPrompt, sanitizeName, sanitizeUnit } from '../utils/prompt-sanitizer.js';
+import { getMessages, languageName, SupportedLanguage } from '../locales/index.js';
+import { BusinessHoursStatus, describeLocalTime, describeNextOpen } from '../business-hours/index.js';
 
 // Customizable via environment variables
 const AI_NAME = process.env.AI_NAME || 'your AI assistant';
 const COMPANY_NAME = process.env.COMPANY_NAME || 'our company';
 
+// What the agent does when the call has no dialog flow
+const DEFAULT_JOB = `YOUR JOB:
+1. Greet the caller warmly
+2. If you don't have their name, ask for it once
+3. Understand what they need help with
+4. Collect any relevant details
+5. Confirm and let them know next steps
+6. For emergencies, direct them to call 911 immediately`;
+
 export interface PromptContext {
   propertyContext: PropertyContext | null;
   tenantContext: TenantContext | null;
   verificationState: VerificationState;
   claimedName: string | null;
   claimedUnit: string | null;
+  // Language the caller is speaking
+  language: SupportedLanguage;
+  // Every language the caller may use (greeting offers the others)
+  languages?: SupportedLanguage[];
+  // Current step of the call's dialog flow - replaces the generic job list
+  dialogFlowSection?: string | null;
+  // Emergency script - goes first and overrides the rest
+  emergencySection?: string | null;
+  // A transfer to a person is ringing, or nobody answered
+  transferStatus?: 'ringing' | 'failed' | null;
+  // Whether the office is open, and the after-hours policy if not
+  businessHours?: BusinessHoursStatus | null;
+  // Knowledge base passages matching what the caller just said
+  knowledgeSection?: string | null;
+  // The property offers self-fix guides and there's no emergency
+  selfFixAvailable?: boolean;
+  // Verified caller's recent calls, interactions and open requests
+  callerHistorySection?: string | null;
 }
 
 /**
@@ -33,14 +63,53 @@ export function buildGreeting(ctx: PromptContext): string {
   // Sanitize all user-provided data to prevent prompt injection
   const companyName = sanitizeForPrompt(ctx.propertyContext?.name, 50) || COMPANY_NAME;
 
+  const messages = getMessages(ctx.language);
+
+  // After hours, say up front what we can and can't do
+  const hours = ctx.businessHours;
+  const notice = hours && !hours.open ? messages.afterHours[hours.policy](describeNextOpen(hours, ctx.language)) : undefined;
+
+  let greeting: string;
   if (ctx.verificationState === 'VERIFIED' && ctx.tenantContext) {
     const firstName = sanitizeName(ctx.tenantContext.name?.split(' ')[0]) || '';
     // Direct, friendly greeting for known callers
-    return `Hey ${firstName}, this is ${AI_NAME} from ${companyName}. How can I help you today?`;
+    greeting = messages.greetingKnown(firstName, AI_NAME, companyName, notice);
+  } else {
+    // Friendly greeting for unknown callers
+    greeting = messages.greetingUnknown(AI_NAME, companyName, notice);
+  }
+
+  // Let callers know they can use another language
+  const hints = (ctx.languages || [])
+    .filter((language) => language !== ctx.language)
+    .map((language) => getMessages(language).languageHint);
+
+  return [greeting, ...hints].join(' ');
+}
+
+/**
+ * What the agent may promise, given the time at the property
+ */
+function buildOfficeHoursSection(hours: BusinessHoursStatus): string {
+  const now = describeLocalTime(hours.timezone);
+  const noPromises =
+    "- Never promise that someone is on the way or when they'll come out - the property manager schedules visits";
+  if (hours.open) {
+    return `OFFICE HOURS: It's ${now} at the property - the office is open.\n${noPromises}`;
   }
 
-  // Friendly greeting for unknown callers
-  return `Hi, this is ${AI_NAME} from ${companyName}. Who am I speaking with?`;
+  const when = describeNextOpen(hours, 'en') || 'when the office opens';
+  const policy = {
+    emergency_only: `- Only take urgent problems right now (active leaks or flooding, no heat, no water, lockouts, anything unsafe) - create_ticket for those
+- For anything else don't create a ticket - ask them to call back ${when}`,
+    take_message: `- Take a message and create_ticket as usual, but tell them someone will call back ${when} - not tonight`,
+    forward_on_call: `- For anything urgent, offer to transfer them to the on-call team
+- Otherwise take a message - someone will call back ${when}`,
+  }[hours.policy];
+
+  return `OFFICE HOURS: It's ${now} at the property - the office is closed${hours.holiday ? ' for a holiday' : ''}.
+${policy}
+${noPromises}`;
 }
 
 /**
@@ -59,6 +128,8 @@ export function buildSystemPrompt(ctx: PromptContext): string {
   const accountId = sanitizeUnit(ctx.tenantContext?.unit?.unit_number);
   const claimedName = sanitizeName(ctx.claimedName);
   const claimedId = sanitizeUnit(ctx.claimedUnit);
+  const language = languageName(ctx.language);
+  const examples = getMessages(ctx.language).responseExamples.map((example) => `- "${example}"`).join('\n');
 
   // Build context based on verification state
   let callerInfo: string;
@@ -78,7 +149,7 @@ VERIFICATION: Complete - proceed with their request.`;
       verificationInstructions = `
 VERIFICATION: Need caller info
 ${!claimedName ? '- Ask for their name (you have NOT asked yet)' : '- You already have their name: ' + claimedName}
-${!claimedId ? '- Ask for their account/reference number if applicable' : '- You already have their account: ' + claimedId}
+${!claimedId ? '- Ask for their account/reference number if applicable (they can also type it on the keypad, then press pound)' : '- You already have their account: ' + claimedId}
 - NEVER ask for info you already have
 - Once you have their info, proceed to help them`;
       break;
@@ -98,26 +169,40 @@ VERIFICATION: Complete (unverified caller - that's fine)
       verificationInstructions = '';
   }
 
-  return `You are ${AI_NAME}, a helpful assistant for ${companyName}.
+  let transferInstructions = '';
+  if (ctx.transferStatus === 'ringing') {
+    transferInstructions = `
+TRANSFER: We're calling a person for them now. If they say anything, tell them you're still trying to reach someone - don't start anything new.`;
+  } else if (ctx.transferStatus === 'failed') {
+    transferInstructions = `
+TRANSFER: Nobody could take the call. Take a message instead - what it's about and the best number to call back - then create_ticket so it gets passed on. Don't offer another transfer.`;
+  }
 
+  return `You are ${AI_NAME}, a helpful assistant for ${companyName}.
+${ctx.emergencySection ? `\n${ctx.emergencySection}\n` : ''}
 COMPANY: ${companyName}
 CALLER: ${callerInfo}
-${verificationInstructions}
-
+${verificationInstructions}${transferInstructions}
+${ctx.callerHistorySection ? `
+${ctx.callerHistorySection}
+- If they may be calling about one of these, ask whether it's the same issue (e.g. "I see you called yesterday about the kitchen sink - is this the same issue?")
+- Use it to avoid asking again for what you already know - don't read it out unprompted
+` : ''}${ctx.businessHours ? `\n${buildOfficeHoursSection(ctx.businessHours)}\n` : ''}
 PERSONALITY:
 - Friendly and professional - like a helpful office assistant
 - Get to the point but be polite
 - Brief acknowledgments: "Got it", "Okay", "Sure thing"
 - Don't be overly emotional or apologetic
 
-YOUR JOB:
-1. Greet the caller warmly
-2. If you don't have their name, ask for it once
-3. Understand what they need help with
-4. Collect any relevant details
-5. Confirm and let them know next steps
-6. For emergencies, direct them to call 911 immediately
+${ctx.dialogFlowSection || DEFAULT_JOB}
 
+PROPERTY QUESTIONS:
+- Answer questions about policies, trash and recycling, parking, amenities, fees, guests or links only from PROPERTY INFORMATION${ctx.knowledgeSection ? ' below' : ' (there is none for this question)'}
+- If it isn't covered there, say you don't have that information and offer to have the office follow up - never guess or use what is typical elsewhere
+- Give links and numbers exactly as written
+${ctx.knowledgeSection ? `
+${ctx.knowledgeSection}
+` : ''}
 RULES:
 - NEVER repeat a question you already asked
 - Keep responses SHORT - one or two sentences max
@@ -125,15 +210,28 @@ RULES:
 - Move the conversation forward efficiently
 - Be helpful, not chatty
 
+KEYPAD:
+- Callers can press 0 to reach a person
+- When you read details back, they can press 1 for yes or 2 for no
+- Keypad presses show up as their reply (e.g. "Yes.")
+
+LANGUAGE:
+- The caller is speaking ${language} - always reply in ${language}
+- If they switch to another language, switch with them
+- Tool arguments stay in English
+
 RESPONSE EXAMPLES:
-- "Got it. Can I get your name?"
-- "Okay, what can I help you with?"
-- "Alright, I'll make sure someone takes care of that. Anything else?"
-- "No problem, we'll get that handled for you."
-
-SPECIAL TAGS (caller won't hear):
-- [CREATE_TICKET] when you have enough info to create a request
-- [CREATE_UNVERIFIED] when caller is unverified but you have their details
-- [END_CALL] when conversation is complete
-- [TENANT:name|id] when caller identifies themselves`;
+${examples}
+
+TOOLS (the caller won't hear these - never read them out):
+- identify_caller when the caller tells you their name or unit
+- create_ticket once you know the problem and where it is. If it may already be reported, ask whether it's the same problem before calling it again
+- If create_ticket gives you a draft, read it back and call confirm_ticket once they say yes (or press 1). If they correct something, call create_ticket again with only what they corrected and read it back again
+- transfer if they ask for a person or you can't help (the caller is told they're being connected)
+- end_call after your goodbye, once they have nothing else${ctx.selfFixAvailable ? `
+- start_self_fix to offer a quick fix when their problem matches a guide and it's safe - never push it; report_self_fix_step after each step with how it went. If it didn't work, create_ticket as usual (the steps they tried go with it)` : ''}${ctx.verificationState === 'VERIFIED' ? `
+- lookup_work_orders when they ask about a request they already made - give the status, when it's scheduled and who's doing it, one request at a time
+- add_work_order_note to pass on something they want to add to one of those requests
+- cancel_work_order only after reading the request back and hearing them confirm they want it cancelled
+- find_appointment_slots once the ticket is filed, to offer visit times; book_appointment once they pick one (ask about entry permission and pets first)` : ''}${ctx.dialogFlowSection ? '\n- update_dialog to record details and move between steps' : ''}`;
 }
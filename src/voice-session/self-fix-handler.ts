@@ -0,0 +1,60 @@
+/**
+ * Voice Session - Self-Fix Handler
+ *
+ * Walks the caller through a self-fix guide (see src/self-fix) one step at
+ * a time. The agent reads out a step, asks the check question, and reports
+ * what the caller said; the next step comes back with the result. A fix is
+ * logged to the tenant's history - no ticket is filed.
+ */
+
+import { SessionLogger } from '../utils/index.js';
+import { logSelfFixResolved } from '../session-recorder/index.js';
+import { selfFixEnabled, SelfFixAttempt } from '../self-fix/index.js';
+import { PropertyContext, TenantContext } from './types.js';
+
+// Tools that run a guide - any caller, never during an emergency
+export const SELF_FIX_TOOLS = ['start_self_fix', 'report_self_fix_step'];
+
+export interface SelfFixContext {
+  log: SessionLogger;
+  propertyContext: PropertyContext;
+  // Null until the caller is identified - the fix is still logged
+  tenantContext: TenantContext | null;
+}
+
+/**
+ * Whether calls at this property offer self-fix guides
+ */
+export function selfFixAvailable(propertyContext: PropertyContext | null): boolean {
+  return !!propertyContext && selfFixEnabled(propertyContext.voice_config?.self_fix);
+}
+
+/**
+ * What the agent tells the caller next. The safety note comes with the first step.
+ */
+export function describeSelfFixStep(attempt: SelfFixAttempt) {
+  const step = attempt.currentStep;
+  if (!step) return null;
+  return {
+    guide: attempt.guide.title,
+    step: attempt.stepNumber,
+    of: attempt.guide.steps.length,
+    say: step.instruction,
+    then_ask: step.check,
+    ...(attempt.stepNumber === 1 && attempt.guide.safety && { safety_first: attempt.guide.safety }),
+  };
+}
+
+/**
+ * Log a fixed problem to the tenant's history
+ */
+export async function recordSelfFixResolved(ctx: SelfFixContext, attempt: SelfFixAttempt): Promise<void> {
+  ctx.log.info('Self-fix resolved', { guide: attempt.guide.id, steps: attempt.steps.length });
+  await logSelfFixResolved({
+    tenantId: ctx.tenantContext?.id || null,
+    userId: ctx.propertyContext.user_id,
+    guideId: attempt.guide.id,
+    summary: `Fixed by the caller on the phone - no work order needed.\n${attempt.describe()}`,
+    steps: attempt.steps,
+  }).catch((error) => ctx.log.error('Failed to log self-fix', { error: (error as Error).message }));
+}
@@ -1,13 +1,28 @@
 /**
  * Voice Session - Ticket Handler
  *
- * Creates work orders from voice conversations.
+ * Creates work orders from voice conversations. Before creating one, checks
+ * the property's open work orders for the same problem - a repeat report is
+ * added to the existing ticket if the caller confirms it's the same issue.
+ *
+ * New tickets are drafted first (title, location, category, priority) and
+ * read back to the caller. The work order is only filed once they answer the
+ * read-back with a yes or press 1; corrections change the draft, which is
+ * read back again.
  */
 
 import { SessionLogger } from '../utils/index.js';
-import { SessionRecorder } from '../session-recorder/index.js';
-import { createWorkOrder } from '../supabase.js';
+import { SessionRecorder, TicketDraftRecord, logWorkOrderEvent } from '../session-recorder/index.js';
+import {
+  createWorkOrder,
+  getOpenWorkOrders,
+  appendToWorkOrder,
+  extractTicketDetails,
+  OpenWorkOrder,
+} from '../supabase.js';
 import { TenantContext, PropertyContext, ConversationMessage } from './types.js';
+import { VoiceToolArgs } from './tools.js';
+import { WorkOrderCategory, WorkOrderFields, ExtractionResult, findLikelyDuplicate, DuplicateMatch } from '../work-orders/index.js';
 
 export interface TicketContext {
   log: SessionLogger;
@@ -16,12 +31,273 @@ export interface TicketContext {
   tenantContext: TenantContext | null;
 }
 
+type TicketDetails = VoiceToolArgs['create_ticket'];
+
+// Fields read back to the caller
+const READ_BACK_FIELDS = ['title', 'location', 'category', 'priority'] as const;
+
+// A yes to a read-back, at the start of the reply ("yes", "that's right",
+// "sí, correcto"). Keypad 1 arrives as "Yes.".
+const AFFIRMATIVE_START =
+  /^(yes|yeah|yep|yup|correct|right|exactly|sure|uh[- ]huh|mm[- ]hmm|s[ií]|correcto|exacto|claro|perfecto|eso es|as[ií] es|est[aá] bien|de acuerdo)(?=[\s,.!]|$)/;
+const AFFIRMATIVE_PHRASE = /\b(that'?s (right|correct|it)|that is (right|correct)|sounds (good|right)|es correcto|est[aá] correcto)\b/;
+// Anything that turns a yes into a correction ("yes, but it's the bathroom")
+const CORRECTION = /\b(no|nope|not|wrong|incorrect|actually|but|except|instead|pero|mal|incorrecto)\b|n['’]t\b/;
+
+export interface TicketDraft {
+  // 1 for the call's first draft, 2 for the next
+  number: number;
+  extraction: ExtractionResult;
+  corrections: TicketDraftRecord['corrections'];
+  possibleDuplicateOf: OpenWorkOrder | null;
+  // Self-fix steps the caller already tried
+  troubleshooting: string | null;
+  // Caller turn the draft was last read back in - the yes has to come later
+  readBackTurn: number;
+  confirmation: TicketDraftRecord['confirmation'];
+  confirmedBy: TicketDraftRecord['confirmed_by'];
+  workOrderId: string | null;
+  // Filed for a caller we couldn't verify
+  unverifiedRequestId: string | null;
+}
+
+// The caller's latest reply
+export interface CallerReply {
+  text: string;
+  keypad: boolean;
+  // Counts up with each caller turn
+  turn: number;
+}
+
+// What the tenant said, without the agent's side or tool traffic
+function callerWords(conversationHistory: ConversationMessage[]): string {
+  return conversationHistory
+    .filter((m) => m.role === 'user')
+    .map((m) => m.content)
+    .join(' ');
+}
+
+// Work orders have one plumbing category
+function workOrderCategory(category: string): WorkOrderCategory {
+  return (category.startsWith('plumbing') ? 'plumbing' : category) as WorkOrderCategory;
+}
+
+function workOrderDetails(details?: TicketDetails) {
+  return (
+    details && {
+      category: details.category ? workOrderCategory(details.category) : undefined,
+      priority: details.priority || undefined,
+      location: details.location || undefined,
+    }
+  );
+}
+
+/**
+ * An open work order at the property that is probably the problem being
+ * reported, or null. Only the problem itself is compared - the rest of the
+ * call may be about something else. Lookup errors aren't fatal - the ticket
+ * is created as usual.
+ */
+export async function findDuplicateWorkOrder(
+  ctx: TicketContext,
+  details: TicketDetails,
+  // The problem as the caller described it
+  issue: string | null,
+  // Work orders this call already filed or added to
+  excludeIds: string[] = []
+): Promise<DuplicateMatch<OpenWorkOrder> | null> {
+  if (!ctx.tenantContext || !ctx.propertyContext) return null;
+
+  let candidates: OpenWorkOrder[];
+  try {
+    candidates = await getOpenWorkOrders(ctx.propertyContext.id);
+  } catch (error) {
+    ctx.log.error('Duplicate check failed', { error: (error as Error).message });
+    return null;
+  }
+
+  const match = findLikelyDuplicate(
+    candidates.filter((workOrder) => !excludeIds.includes(workOrder.id)),
+    {
+      category: details.category ? workOrderCategory(details.category) : 'other',
+      unitId: ctx.tenantContext.unit_id || null,
+      text: [issue, details.title, details.location].filter(Boolean).join(' '),
+    }
+  );
+  if (match) {
+    ctx.log.info('Possible duplicate work order', {
+      workOrderId: match.workOrder.id,
+      score: Number(match.score.toFixed(2)),
+      sameUnit: match.sameUnit,
+    });
+  }
+  return match;
+}
+
+/**
+ * Add what the caller reported to the open work order for the same problem
+ */
+export async function appendToExistingTicket(
+  ctx: TicketContext,
+  conversationHistory: ConversationMessage[],
+  workOrder: OpenWorkOrder,
+  details?: TicketDetails,
+  troubleshooting?: string | null
+): Promise<boolean> {
+  if (!ctx.tenantContext || !ctx.propertyContext) return false;
+
+  ctx.log.startTimer('append_ticket');
+  const appended = await appendToWorkOrder({
+    workOrder,
+    propertyContext: ctx.propertyContext,
+    tenantContext: ctx.tenantContext,
+    issueDescription: callerWords(conversationHistory),
+    sessionId: ctx.log.sessionId,
+    details: workOrderDetails(details),
+    troubleshooting,
+  });
+
+  if (appended) {
+    await ctx.recorder.linkToTenant(ctx.tenantContext.id, ctx.propertyContext.user_id, workOrder.id);
+    await logWorkOrderEvent(
+      ctx.tenantContext.id,
+      ctx.propertyContext.user_id,
+      workOrder.id,
+      'updated',
+      'Reported again by phone - added to the open request'
+    ).catch((error) => ctx.log.error('Failed to log repeat report', { error: (error as Error).message }));
+  }
+
+  ctx.log.infoWithLatency('append_ticket', 'Repeat report added to work order', { workOrderId: workOrder.id, appended });
+  return appended;
+}
+
 /**
- * Create a work order from the conversation
+ * Whether a reply is a plain yes, in English or Spanish
+ */
+export function isAffirmative(text: string): boolean {
+  const reply = text
+    .toLowerCase()
+    .trim()
+    .replace(/^((um+|uh+|oh|well|so)[,\s]+)+/, '');
+  return (AFFIRMATIVE_START.test(reply) || AFFIRMATIVE_PHRASE.test(reply)) && !CORRECTION.test(reply);
+}
+
+/**
+ * Draft a ticket from the conversation, to be read back before it's filed
+ */
+export async function draftTicket(
+  ctx: TicketContext,
+  conversationHistory: ConversationMessage[],
+  details: TicketDetails,
+  draft: Pick<TicketDraft, 'number' | 'possibleDuplicateOf' | 'troubleshooting' | 'readBackTurn'>
+): Promise<TicketDraft | null> {
+  if (!ctx.propertyContext) return null;
+
+  ctx.log.startTimer('draft_ticket');
+  const extraction = await extractTicketDetails({
+    propertyContext: ctx.propertyContext,
+    issueDescription: callerWords(conversationHistory),
+    sessionId: ctx.log.sessionId,
+    details: workOrderDetails(details),
+  });
+  // The caller said the title in their own words - keep theirs if they gave one
+  if (details.title) extraction.fields.title = details.title;
+  ctx.log.infoWithLatency('draft_ticket', 'Ticket drafted', {
+    title: extraction.fields.title,
+    reviewFields: extraction.reviewFlags.map((flag) => flag.field),
+  });
+
+  return {
+    ...draft,
+    extraction,
+    corrections: [],
+    confirmation: 'pending',
+    confirmedBy: null,
+    workOrderId: null,
+    unverifiedRequestId: null,
+  };
+}
+
+/**
+ * Apply the caller's corrections to a draft - only the fields the model
+ * passed. Returns the fields that changed.
+ */
+export function correctDraft(draft: TicketDraft, details: TicketDetails, turn: number): string[] {
+  const fields = draft.extraction.fields;
+  const updates: Partial<WorkOrderFields> = {
+    ...(details.location && { location: details.location }),
+    ...(details.priority && { priority: details.priority }),
+    ...(details.category && { category: workOrderCategory(details.category) }),
+    ...(details.title && { title: details.title }),
+  };
+
+  const changed: string[] = [];
+  for (const field of READ_BACK_FIELDS) {
+    const to = updates[field];
+    const from = fields[field];
+    if (!to || to.trim().toLowerCase() === from.trim().toLowerCase()) continue;
+    draft.corrections.push({ field, from, to });
+    Object.assign(fields, { [field]: to });
+    changed.push(field);
+  }
+  draft.readBackTurn = turn;
+  return changed;
+}
+
+/**
+ * How the caller confirmed the draft - a yes or a 1 on the keypad since it
+ * was last read back - or null if they haven't
+ */
+export function readBackConfirmation(draft: TicketDraft, reply: CallerReply | null): 'speech' | 'keypad' | null {
+  if (!reply || reply.turn <= draft.readBackTurn || !isAffirmative(reply.text)) return null;
+  return reply.keypad ? 'keypad' : 'speech';
+}
+
+/**
+ * Mark a draft confirmed. The caller has now agreed to the read-back fields,
+ * so they no longer need the property manager's review.
+ */
+export function confirmDraft(draft: TicketDraft, by: TicketDraft['confirmedBy']): void {
+  draft.confirmation = by ? 'confirmed' : 'skipped';
+  draft.confirmedBy = by;
+  const { extraction } = draft;
+  for (const field of READ_BACK_FIELDS) extraction.confidence[field] = 1;
+  extraction.reviewFlags = extraction.reviewFlags.filter(
+    (flag) => !(READ_BACK_FIELDS as readonly string[]).includes(flag.field)
+  );
+}
+
+/**
+ * What the agent reads back
+ */
+export function describeDraft(draft: TicketDraft) {
+  const { title, location, category, priority } = draft.extraction.fields;
+  return { title, location, category, priority };
+}
+
+/**
+ * The draft as stored on the call record
+ */
+export function draftRecord(draft: TicketDraft): TicketDraftRecord {
+  return {
+    ...describeDraft(draft),
+    number: draft.number,
+    corrections: draft.corrections,
+    confirmation: draft.confirmation,
+    confirmed_by: draft.confirmedBy,
+    work_order_id: draft.workOrderId,
+    unverified_request_id: draft.unverifiedRequestId,
+  };
+}
+
+/**
+ * Create a work order from a confirmed draft
  */
 export async function createTicketFromConversation(
   ctx: TicketContext,
-  conversationHistory: ConversationMessage[]
+  conversationHistory: ConversationMessage[],
+  draft: TicketDraft
 ): Promise<string | null> {
   if (!ctx.tenantContext || !ctx.propertyContext) {
     ctx.log.warn('Cannot create ticket - missing context');
@@ -30,16 +306,16 @@ export async function createTicketFromConversation(
 
   ctx.log.startTimer('create_ticket');
 
-  const userMessages = conversationHistory
-    .filter((m) => m.role === 'user')
-    .map((m) => m.content)
-    .join(' ');
-
   const workOrderId = await createWorkOrder({
     propertyContext: ctx.propertyContext,
     tenantContext: ctx.tenantContext,
-    conversationHistory: conversationHistory as Array<{ role: string; content: string }>,
-    issueDescription: userMessages,
+    // Tool calls and results aren't part of the transcript
+    conversationHistory: conversationHistory.filter((m) => m.role !== 'tool' && m.content),
+    issueDescription: callerWords(conversationHistory),
+    sessionId: ctx.log.sessionId,
+    extraction: draft.extraction,
+    possibleDuplicateOf: draft.possibleDuplicateOf,
+    troubleshooting: draft.troubleshooting,
   });
 
   if (workOrderId) {
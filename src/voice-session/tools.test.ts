@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dispatchToolCall, parseToolArguments, ToolResult, VoiceToolHandlers } from './tools.js';
+
+const call = (name: string, args: string) => ({ id: 'call-1', name, arguments: args });
+
+function fakeHandlers(): VoiceToolHandlers {
+  const ok = async (): Promise<ToolResult> => ({ output: { ok: true } });
+  return { end_call: vi.fn(ok), identify_caller: vi.fn(ok), transfer: vi.fn(ok) } as unknown as VoiceToolHandlers;
+}
+
+describe('parseToolArguments', () => {
+  it.each([
+    // tool, raw arguments, parsed
+    ['end_call', '{"reason":"caller said goodbye"}', { reason: 'caller said goodbye' }],
+    ['end_call', '', { reason: null }],
+    ['end_call', '{"reason":"  "}', { reason: null }],
+    ['transfer', '{"reason":42}', { reason: null }],
+    ['identify_caller', '{"name":" Maria Lopez ","unit":"4B"}', { name: 'Maria Lopez', unit: '4B' }],
+    ['identify_caller', '{"unit":"4B"}', { name: null, unit: '4B' }],
+  ] as const)('%s %s', (name, raw, parsed) => {
+    expect(parseToolArguments(name, raw)).toEqual(parsed);
+  });
+
+  it.each([
+    // tool, raw arguments, error
+    ['end_call', '{"reason":', 'end_call: arguments are not valid JSON'],
+    ['end_call', 'null', 'end_call: arguments must be a JSON object'],
+    ['transfer', '"transfer me"', 'transfer: arguments must be a JSON object'],
+    ['identify_caller', '["Maria Lopez"]', 'identify_caller: arguments must be a JSON object'],
+    ['identify_caller', '{}', 'identify_caller: name or unit is required'],
+  ] as const)('rejects %s %s', (name, raw, error) => {
+    expect(() => parseToolArguments(name, raw)).toThrow(error);
+  });
+});
+
+describe('dispatchToolCall', () => {
+  it('passes the parsed arguments to the handler', async () => {
+    const handlers = fakeHandlers();
+    expect(await dispatchToolCall(handlers, call('identify_caller', '{"name":"Maria Lopez"}'))).toEqual({ output: { ok: true } });
+    expect(handlers.identify_caller).toHaveBeenCalledWith({ name: 'Maria Lopez', unit: null });
+  });
+
+  it.each([
+    ['identify_caller', 'null', 'identify_caller: arguments must be a JSON object'],
+    ['identify_caller', '{"name":', 'identify_caller: arguments are not valid JSON'],
+    ['identify_caller', '{"name":""}', 'identify_caller: name or unit is required'],
+    ['open_door', '{}', 'Unknown tool: open_door'],
+  ])('answers %s %s with an error for the model', async (name, raw, error) => {
+    const handlers = fakeHandlers();
+    expect(await dispatchToolCall(handlers, call(name, raw))).toEqual({ output: { error } });
+    expect(handlers.identify_caller).not.toHaveBeenCalled();
+  });
+
+  it('lets handler failures through', async () => {
+    const handlers = fakeHandlers();
+    vi.mocked(handlers.end_call).mockRejectedValue(new Error('Twilio is down'));
+    await expect(dispatchToolCall(handlers, call('end_call', '{}'))).rejects.toThrow('Twilio is down');
+  });
+});
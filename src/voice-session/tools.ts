@@ -0,0 +1,398 @@
+/**
+ * Voice Session - Tools
+ *
+ * Functions the voice agent can call to control the call. Calls carry
+ * typed arguments and travel separately from the spoken reply, so
+ * nothing meant for the server reaches TTS.
+ *
+ * Results are fed back to the model in the same turn so it can tell
+ * the caller what happened ("I've put in a request for that").
+ */
+
+import { LLMTool, LLMToolCall } from '../llm/index.js';
+import { ISSUE_CATEGORIES } from './types.js';
+import { SELF_FIX_GUIDES, SELF_FIX_GUIDE_IDS, SelfFixStepResult } from '../self-fix/index.js';
+
+export const TICKET_PRIORITIES = ['low', 'medium', 'high', 'emergency'] as const;
+export type TicketPriority = (typeof TICKET_PRIORITIES)[number];
+
+const TICKET_CATEGORIES = [...Object.keys(ISSUE_CATEGORIES), 'other'];
+
+const SELF_FIX_RESULTS: SelfFixStepResult[] = ['fixed', 'not_fixed', 'could_not_do', 'stopped'];
+
+// "tripped_breaker (Tripped breaker)" for each guide
+const SELF_FIX_GUIDE_LIST = Object.values(SELF_FIX_GUIDES)
+  .flat()
+  .map((guide) => `${guide.id} (${guide.title})`)
+  .join(', ');
+
+// Arguments for each tool, as validated by parseToolArguments
+export interface VoiceToolArgs {
+  add_work_order_note: { ticket: number; note: string };
+  book_appointment: { slot: number; permission_to_enter: boolean | null; access_notes: string | null };
+  cancel_work_order: { ticket: number; reason: string | null };
+  confirm_ticket: Record<string, never>;
+  // null = not passed - a correction only passes what changed
+  create_ticket: {
+    category: string | null;
+    priority: TicketPriority | null;
+    location: string | null;
+    issue: string | null;
+    title: string | null;
+    same_as_existing: boolean | null;
+  };
+  end_call: { reason: string | null };
+  find_appointment_slots: { preference: string | null };
+  identify_caller: { name: string | null; unit: string | null };
+  lookup_work_orders: Record<string, never>;
+  report_self_fix_step: { result: SelfFixStepResult; note: string | null };
+  start_self_fix: { guide: string };
+  transfer: { reason: string | null };
+  update_dialog: { slots: Record<string, string>; next_state: string | null };
+}
+
+export type VoiceToolName = keyof VoiceToolArgs;
+
+export interface ToolResult {
+  // Returned to the model as the tool message
+  output: Record<string, unknown>;
+  // Stop the turn here - don't ask the model to follow up on this result
+  endTurn?: boolean;
+  // Not done yet - the model has to ask the caller something and call again
+  pending?: boolean;
+}
+
+export type VoiceToolHandlers = {
+  [K in VoiceToolName]: (args: VoiceToolArgs[K]) => Promise<ToolResult>;
+};
+
+// Tool definitions sent to the LLM
+export const VOICE_TOOLS: LLMTool[] = [
+  {
+    name: 'add_work_order_note',
+    description: 'Add something the caller wants to tell us to one of their existing requests.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ticket: { type: 'integer', description: 'Ticket number from lookup_work_orders' },
+        note: { type: 'string', description: "What to add, in the caller's words" },
+      },
+      required: ['ticket', 'note'],
+    },
+  },
+  {
+    name: 'book_appointment',
+    description:
+      'Book the visit time the caller picked from find_appointment_slots. Ask first whether maintenance may ' +
+      'enter if they are not home, and about pets or anything else about getting in.',
+    parameters: {
+      type: 'object',
+      properties: {
+        slot: { type: 'integer', description: 'Slot number from find_appointment_slots' },
+        permission_to_enter: { type: 'boolean', description: 'Whether maintenance may enter if nobody is home' },
+        access_notes: { type: 'string', description: 'Pets, gate or door codes, parking, where to find the key' },
+      },
+      required: ['slot'],
+    },
+  },
+  {
+    name: 'cancel_work_order',
+    description:
+      "Cancel one of the caller's existing requests. Only call this after they clearly confirm " +
+      'which request and that they want it cancelled.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ticket: { type: 'integer', description: 'Ticket number from lookup_work_orders' },
+        reason: { type: 'string', description: 'Why they no longer need it' },
+      },
+      required: ['ticket'],
+    },
+  },
+  {
+    name: 'confirm_ticket',
+    description:
+      'File the drafted request after reading it back, once the caller has said yes (or pressed 1). ' +
+      'Never call it before they answer.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'create_ticket',
+    description:
+      'Create a maintenance request once you know what the problem is and where it is. ' +
+      'Works for verified and unverified callers. Call it once per issue. If it says the problem may ' +
+      'already be reported, ask the caller and call it again with same_as_existing. If it returns a draft, ' +
+      'read it back; if the caller corrects it, call it again with only the fields they corrected.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: TICKET_CATEGORIES, description: 'Type of issue' },
+        priority: {
+          type: 'string',
+          enum: TICKET_PRIORITIES,
+          description: 'emergency = active flooding, fire, gas, no heat in winter; high = getting worse or unusable',
+        },
+        location: { type: 'string', description: 'Where in the unit, e.g. "kitchen sink" - needed for a new request' },
+        issue: { type: 'string', description: 'What is wrong, in a few words, e.g. "leaking under the sink"' },
+        title: { type: 'string', description: 'Short title - only when the caller corrects the one read back' },
+        same_as_existing: {
+          type: 'boolean',
+          description: 'Only after asking about an open request: true if it is the same problem, false if not',
+        },
+      },
+    },
+  },
+  {
+    name: 'end_call',
+    description: 'Hang up after your goodbye. Only call this once the caller has nothing else.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Why the call is ending' },
+      },
+    },
+  },
+  {
+    name: 'find_appointment_slots',
+    description:
+      'Find times maintenance can come for the request just created. Pass what the caller said suits them, ' +
+      'in English (e.g. "next Tuesday afternoon"), or nothing for the earliest times.',
+    parameters: {
+      type: 'object',
+      properties: {
+        preference: { type: 'string', description: 'When the caller would like the visit' },
+      },
+    },
+  },
+  {
+    name: 'identify_caller',
+    description: 'Record the name and unit number the caller gave, so we can look them up.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Full name as the caller said it' },
+        unit: { type: 'string', description: 'Unit or apartment number' },
+      },
+    },
+  },
+  {
+    name: 'lookup_work_orders',
+    description:
+      "Look up the verified caller's open and recent maintenance requests, to tell them the status, " +
+      'when it is scheduled and who is doing the work.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'report_self_fix_step',
+    description:
+      'Report how the self-fix step you just gave went, once the caller has tried it. Returns the next step, ' +
+      'or says whether the guide is finished.',
+    parameters: {
+      type: 'object',
+      properties: {
+        result: {
+          type: 'string',
+          enum: SELF_FIX_RESULTS,
+          description:
+            'fixed = the problem is gone; not_fixed = done but still broken; could_not_do = they could not do ' +
+            'this step; stopped = they want to stop or something looks unsafe',
+        },
+        note: { type: 'string', description: 'Anything they noticed, in a few words' },
+      },
+      required: ['result'],
+    },
+  },
+  {
+    name: 'start_self_fix',
+    description:
+      'Start walking the caller through a simple fix, step by step, when their problem matches a guide and ' +
+      `they are willing to try. Guides: ${SELF_FIX_GUIDE_LIST}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        guide: { type: 'string', enum: SELF_FIX_GUIDE_IDS, description: 'Guide that fits the problem' },
+      },
+      required: ['guide'],
+    },
+  },
+  {
+    name: 'transfer',
+    description: 'Connect the caller to a person when they ask for one or you cannot help.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'What the caller needs a person for' },
+      },
+    },
+  },
+  {
+    name: 'update_dialog',
+    description:
+      'Record details the caller gave for the current step, and/or move to another step. ' +
+      'Only offered when the call follows a dialog flow.',
+    parameters: {
+      type: 'object',
+      properties: {
+        slots: {
+          type: 'array',
+          description: 'Details to record',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Detail name from DETAILS TO COLLECT' },
+              value: { type: 'string', description: 'What the caller said, in a few words' },
+            },
+            required: ['name', 'value'],
+          },
+        },
+        next_state: { type: 'string', description: 'Step to move to, from YOU CAN MOVE TO' },
+      },
+    },
+  },
+];
+
+export class ToolArgumentError extends Error {
+  constructor(toolName: string, message: string) {
+    super(`${toolName}: ${message}`);
+    this.name = 'ToolArgumentError';
+  }
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function ticketNumber(toolName: string, value: unknown): number {
+  const ticket = typeof value === 'string' ? Number(value) : value;
+  if (typeof ticket !== 'number' || !Number.isInteger(ticket) || ticket < 1) {
+    throw new ToolArgumentError(toolName, 'ticket must be a ticket number from lookup_work_orders');
+  }
+  return ticket;
+}
+
+/**
+ * Validate the model's raw JSON arguments for a tool
+ */
+export function parseToolArguments<K extends VoiceToolName>(name: K, rawArguments: string): VoiceToolArgs[K] {
+  let raw: Record<string, unknown>;
+  try {
+    raw = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    throw new ToolArgumentError(name, 'arguments are not valid JSON');
+  }
+  // "null", "[]" or a bare string parse fine but have no fields
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ToolArgumentError(name, 'arguments must be a JSON object');
+  }
+
+  switch (name) {
+    case 'add_work_order_note': {
+      const note = optionalString(raw.note);
+      if (!note) throw new ToolArgumentError(name, 'note is required');
+      return { ticket: ticketNumber(name, raw.ticket), note } as VoiceToolArgs[K];
+    }
+    case 'book_appointment': {
+      const slot = Number(raw.slot);
+      if (!Number.isInteger(slot) || slot < 1) {
+        throw new ToolArgumentError(name, 'slot must be a slot number from find_appointment_slots');
+      }
+      return {
+        slot,
+        permission_to_enter: typeof raw.permission_to_enter === 'boolean' ? raw.permission_to_enter : null,
+        access_notes: optionalString(raw.access_notes),
+      } as VoiceToolArgs[K];
+    }
+    case 'cancel_work_order':
+      return { ticket: ticketNumber(name, raw.ticket), reason: optionalString(raw.reason) } as VoiceToolArgs[K];
+    case 'create_ticket': {
+      // Fields the model left out stay null so a correction doesn't reset them
+      const category =
+        raw.category == null ? null : TICKET_CATEGORIES.includes(raw.category as string) ? (raw.category as string) : 'other';
+      const priority =
+        raw.priority == null
+          ? null
+          : TICKET_PRIORITIES.includes(raw.priority as TicketPriority)
+            ? (raw.priority as TicketPriority)
+            : 'medium';
+      const location = optionalString(raw.location);
+      const sameAsExisting = typeof raw.same_as_existing === 'boolean' ? raw.same_as_existing : null;
+      return {
+        category,
+        priority,
+        location,
+        issue: optionalString(raw.issue),
+        title: optionalString(raw.title),
+        same_as_existing: sameAsExisting,
+      } as VoiceToolArgs[K];
+    }
+    case 'end_call':
+    case 'transfer':
+      return { reason: optionalString(raw.reason) } as VoiceToolArgs[K];
+    case 'find_appointment_slots':
+      return { preference: optionalString(raw.preference) } as VoiceToolArgs[K];
+    case 'identify_caller': {
+      const args = { name: optionalString(raw.name), unit: optionalString(raw.unit) };
+      if (!args.name && !args.unit) throw new ToolArgumentError(name, 'name or unit is required');
+      return args as VoiceToolArgs[K];
+    }
+    case 'confirm_ticket':
+    case 'lookup_work_orders':
+      return {} as VoiceToolArgs[K];
+    case 'report_self_fix_step': {
+      if (!SELF_FIX_RESULTS.includes(raw.result as SelfFixStepResult)) {
+        throw new ToolArgumentError(name, `result must be one of ${SELF_FIX_RESULTS.join(', ')}`);
+      }
+      return { result: raw.result as SelfFixStepResult, note: optionalString(raw.note) } as VoiceToolArgs[K];
+    }
+    case 'start_self_fix': {
+      const guide = optionalString(raw.guide);
+      if (!guide || !SELF_FIX_GUIDE_IDS.includes(guide)) {
+        throw new ToolArgumentError(name, `guide must be one of ${SELF_FIX_GUIDE_IDS.join(', ')}`);
+      }
+      return { guide } as VoiceToolArgs[K];
+    }
+    case 'update_dialog': {
+      const slots: Record<string, string> = {};
+      for (const slot of Array.isArray(raw.slots) ? raw.slots : []) {
+        const slotName = optionalString(slot?.name);
+        const value = optionalString(slot?.value);
+        if (slotName && value) slots[slotName] = value;
+      }
+      const args = { slots, next_state: optionalString(raw.next_state) };
+      if (Object.keys(slots).length === 0 && !args.next_state) {
+        throw new ToolArgumentError(name, 'slots or next_state is required');
+      }
+      return args as VoiceToolArgs[K];
+    }
+    default:
+      throw new ToolArgumentError(name, 'unknown tool');
+  }
+}
+
+function isVoiceTool(name: string): name is VoiceToolName {
+  return VOICE_TOOLS.some((tool) => tool.name === name);
+}
+
+/**
+ * Run one tool call. Bad arguments and unknown tools come back as an
+ * error result so the model can correct itself.
+ */
+export async function dispatchToolCall(handlers: VoiceToolHandlers, call: LLMToolCall): Promise<ToolResult> {
+  if (!isVoiceTool(call.name)) {
+    return { output: { error: `Unknown tool: ${call.name}` } };
+  }
+
+  try {
+    return await runTool(handlers, call.name, call.arguments);
+  } catch (error) {
+    if (error instanceof ToolArgumentError) {
+      return { output: { error: error.message } };
+    }
+    throw error;
+  }
+}
+
+function runTool<K extends VoiceToolName>(handlers: VoiceToolHandlers, name: K, rawArguments: string): Promise<ToolResult> {
+  const handler = handlers[name] as (args: VoiceToolArgs[K]) => Promise<ToolResult>;
+  return handler(parseToolArguments(name, rawArguments));
+}
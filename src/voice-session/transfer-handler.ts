@@ -0,0 +1,335 @@
+/**
+ * Voice Session - Transfer Handler
+ *
+ * Hands the caller to a person:
+ * - Cold: the live call is redirected to a <Dial>. The media stream (and the
+ *   session) ends right away; if nobody answers, the Dial action reconnects
+ *   the caller to a new session that takes a message. That session carries
+ *   on from the first: same call record, transcript, conversation and
+ *   verified caller.
+ * - Warm: the person is called first and hears a short summary, then joins a
+ *   conference. The caller stays with the assistant until they pick up, and
+ *   only then is moved into the conference. If nobody answers, the same
+ *   session takes a message.
+ *
+ * Twilio reports back on /transfer-status (see server/routes.ts), which looks
+ * the transfer up here by id.
+ *
+ * Environment (overridden per property by voice_config.transfer):
+ * - TRANSFER_PHONE: number to transfer to
+ * - TRANSFER_MODE: warm (default) or cold
+ * - TRANSFER_RING_TIMEOUT: seconds to ring (default 20)
+ */
+
+import { randomUUID } from 'crypto';
+import { escapeXml, SessionLogger } from '../utils/index.js';
+import { SessionRecorder, RecordingSnapshot } from '../session-recorder/index.js';
+import { placeCall, updateCall } from '../twilio-voice.js';
+import { BusinessHoursStatus } from '../business-hours/index.js';
+import { resolveOnCallContact } from './emergency-handler.js';
+import { VerificationData } from './verification.js';
+import {
+  ConversationMessage,
+  PropertyContext,
+  TransferConfig,
+  TRANSFER_RING_TIMEOUT_S,
+  TRANSFER_CALLBACK_GRACE_MS,
+} from './types.js';
+
+export type TransferMode = NonNullable<TransferConfig['mode']>;
+
+export interface TransferTarget {
+  phone: string;
+  mode: TransferMode;
+  ringTimeout: number;
+}
+
+export interface TransferContext {
+  log: SessionLogger;
+  recorder: SessionRecorder;
+  propertyContext: PropertyContext | null;
+  callSid: string;
+  fromPhone: string;
+  toPhone: string;
+  // Language the caller is speaking - carried over if a cold transfer fails
+  language: string;
+}
+
+// What a session hands on when it cold-transfers the call, for the session
+// that takes over if nobody answers
+export interface CarriedCall {
+  recording: RecordingSnapshot | null;
+  messages: ConversationMessage[];
+  verificationData: VerificationData;
+  createdWorkOrderId: string | null;
+}
+
+// What Twilio's callbacks mean for a warm transfer still waiting on the person
+export type WarmTransferEvent = { type: 'answered' } | { type: 'failed'; reason: string };
+
+// What /transfer-status should tell Twilio to do with the caller's call
+export type TransferStatusResult =
+  | { action: 'none' }
+  | { action: 'hangup' }
+  | { action: 'take_message'; from: string; to: string; language: string };
+
+interface PendingTransfer {
+  mode: TransferMode;
+  callSid: string;
+  sessionId: string;
+  callRecordId: string | null;
+  fromPhone: string;
+  toPhone: string;
+  language: string;
+  // Gives up on Twilio's callback: fails a warm transfer, forgets a cold one
+  timer?: NodeJS.Timeout;
+  // Cold only
+  carried?: CarriedCall;
+  // Warm only
+  conference?: string;
+  personCallSid?: string;
+  answered?: boolean;
+  onEvent?: (event: WarmTransferEvent) => void;
+}
+
+// Transfers waiting on a Twilio callback, by id
+const pendingTransfers = new Map<string, PendingTransfer>();
+// Calls back from a cold transfer nobody answered, waiting for their new media stream, by CallSid
+const carriedCalls = new Map<string, CarriedCall>();
+
+/**
+ * Where transfers go for this property, or null if nobody is set up to take
+ * them. After hours the office can't pick up - the on-call contact does, if
+ * the after-hours policy forwards to them.
+ */
+export function resolveTransferTarget(
+  propertyContext: PropertyContext | null,
+  businessHours?: BusinessHoursStatus | null
+): TransferTarget | null {
+  const config = propertyContext?.voice_config?.transfer;
+  let phone = config?.phone || process.env.TRANSFER_PHONE;
+  if (businessHours && !businessHours.open) {
+    phone = businessHours.policy === 'forward_on_call' ? resolveOnCallContact(propertyContext)?.phone : undefined;
+  }
+  if (!phone) return null;
+
+  const mode = config?.mode || process.env.TRANSFER_MODE;
+  return {
+    phone,
+    mode: mode === 'cold' ? 'cold' : 'warm',
+    ringTimeout: config?.ring_timeout || parseInt(process.env.TRANSFER_RING_TIMEOUT || '', 10) || TRANSFER_RING_TIMEOUT_S,
+  };
+}
+
+function statusCallbackUrl(transferId: string): string {
+  const serverUrl = process.env.VOICE_SERVER_URL || 'http://localhost:3001';
+  return `${serverUrl}/transfer-status?transfer=${transferId}`;
+}
+
+function register(ctx: TransferContext, mode: TransferMode): [string, PendingTransfer] {
+  const id = randomUUID();
+  const transfer: PendingTransfer = {
+    mode,
+    callSid: ctx.callSid,
+    sessionId: ctx.log.sessionId,
+    callRecordId: ctx.recorder.getCallRecordId(),
+    fromPhone: ctx.fromPhone,
+    toPhone: ctx.toPhone,
+    language: ctx.language,
+  };
+  pendingTransfers.set(id, transfer);
+  return [id, transfer];
+}
+
+/**
+ * Redirect the caller's call to the person. The media stream closes once
+ * Twilio picks up the new TwiML.
+ */
+export async function startColdTransfer(
+  ctx: TransferContext,
+  target: TransferTarget,
+  carried: CarriedCall
+): Promise<string> {
+  const [id, transfer] = register(ctx, 'cold');
+  transfer.carried = carried;
+  const twiml =
+    `<?xml version="1.0" encoding="UTF-8"?><Response>` +
+    `<Dial callerId="${escapeXml(ctx.fromPhone)}" timeout="${target.ringTimeout}" action="${escapeXml(statusCallbackUrl(id))}">` +
+    `${escapeXml(target.phone)}</Dial></Response>`;
+
+  try {
+    await updateCall(ctx.callSid, { twiml, sessionId: ctx.log.sessionId });
+  } catch (error) {
+    pendingTransfers.delete(id);
+    throw error;
+  }
+
+  // The <Dial> action never comes if the caller hangs up during the redirect
+  // or the webhook fails - don't hold on to the call's recording forever.
+  // Answered calls that end after this get an empty response, which hangs up.
+  transfer.timer = setTimeout(() => {
+    if (pendingTransfers.delete(id)) ctx.log.warn('Cold transfer never reported back', { transferId: id });
+  }, target.ringTimeout * 1000 + TRANSFER_CALLBACK_GRACE_MS);
+  transfer.timer.unref();
+
+  ctx.log.info('Cold transfer started', { transferId: id });
+  return id;
+}
+
+/**
+ * Call the person, read them the summary and put them in a conference.
+ * onEvent hears when they pick up or when the transfer fails.
+ */
+export async function startWarmTransfer(
+  ctx: TransferContext,
+  target: TransferTarget,
+  summary: string,
+  onEvent: (event: WarmTransferEvent) => void
+): Promise<string> {
+  const [id, transfer] = register(ctx, 'warm');
+  transfer.conference = `transfer-${id}`;
+  transfer.onEvent = onEvent;
+
+  const property = ctx.propertyContext?.name || 'the property';
+  const briefing = `Call transfer from ${property}. ${summary || 'The caller asked to speak with someone.'} Connecting you now.`;
+  const twiml =
+    `<?xml version="1.0" encoding="UTF-8"?><Response><Say>${escapeXml(briefing)}</Say>` +
+    `<Dial><Conference startConferenceOnEnter="true" endConferenceOnExit="true">${transfer.conference}</Conference></Dial>` +
+    `</Response>`;
+
+  try {
+    transfer.personCallSid = await placeCall({
+      to: target.phone,
+      from: ctx.toPhone,
+      twiml,
+      timeout: target.ringTimeout,
+      statusCallback: statusCallbackUrl(id),
+      statusCallbackEvents: ['answered', 'completed'],
+      machineDetection: true,
+      sessionId: ctx.log.sessionId,
+    });
+  } catch (error) {
+    pendingTransfers.delete(id);
+    throw error;
+  }
+
+  // Don't leave the caller waiting if Twilio never reports back
+  transfer.timer = setTimeout(() => {
+    if (!pendingTransfers.has(id) || transfer.answered) return;
+    ctx.log.warn('Warm transfer timed out', { transferId: id });
+    // Stop ringing them first - cancelTransfer needs the pending entry
+    cancelTransfer(id).catch(() => {});
+    transfer.onEvent?.({ type: 'failed', reason: 'timeout' });
+  }, target.ringTimeout * 1000 + TRANSFER_CALLBACK_GRACE_MS);
+
+  ctx.log.info('Warm transfer started', { transferId: id, personCallSid: transfer.personCallSid });
+  return id;
+}
+
+/**
+ * Move the caller into the conference with the person who answered
+ */
+export async function joinWarmTransfer(transferId: string): Promise<void> {
+  const transfer = pendingTransfers.get(transferId);
+  if (!transfer?.conference) throw new Error(`No warm transfer ${transferId}`);
+
+  const twiml =
+    `<?xml version="1.0" encoding="UTF-8"?><Response><Dial>` +
+    `<Conference startConferenceOnEnter="false" endConferenceOnExit="true">${transfer.conference}</Conference>` +
+    `</Dial></Response>`;
+  await updateCall(transfer.callSid, { twiml, sessionId: transfer.sessionId });
+  pendingTransfers.delete(transferId);
+}
+
+/**
+ * Give up on a warm transfer (caller hung up, or it timed out) and stop
+ * ringing the person
+ */
+export async function cancelTransfer(transferId: string): Promise<void> {
+  const transfer = pendingTransfers.get(transferId);
+  if (!transfer || transfer.mode !== 'warm') return;
+  pendingTransfers.delete(transferId);
+  if (transfer.timer) clearTimeout(transfer.timer);
+
+  if (transfer.personCallSid) {
+    await updateCall(transfer.personCallSid, {
+      status: transfer.answered ? 'completed' : 'canceled',
+      sessionId: transfer.sessionId,
+    });
+  }
+}
+
+function finishWarm(transferId: string, transfer: PendingTransfer, event: WarmTransferEvent) {
+  if (event.type === 'failed') {
+    pendingTransfers.delete(transferId);
+    if (transfer.timer) clearTimeout(transfer.timer);
+  }
+  transfer.onEvent?.(event);
+}
+
+/**
+ * What the session before a failed cold transfer handed on, if this call has one
+ */
+export function takeCarriedCall(callSid: string): CarriedCall | null {
+  const carried = carriedCalls.get(callSid) || null;
+  carriedCalls.delete(callSid);
+  return carried;
+}
+
+/**
+ * Handle a Twilio callback for a transfer: the <Dial> action of a cold
+ * transfer, or a status callback for the person's leg of a warm one
+ */
+export async function handleTransferStatus(
+  transferId: string,
+  params: Record<string, string>
+): Promise<TransferStatusResult> {
+  const transfer = pendingTransfers.get(transferId);
+  if (!transfer) return { action: 'none' };
+
+  const tag = `[Transfer:${transfer.sessionId.slice(0, 8)}]`;
+
+  if (transfer.mode === 'cold') {
+    pendingTransfers.delete(transferId);
+    if (transfer.timer) clearTimeout(transfer.timer);
+    const status = params.DialCallStatus;
+    console.log(`${tag} Cold transfer ended: ${status}`);
+    if (status === 'completed' || status === 'answered') return { action: 'hangup' };
+
+    if (transfer.callRecordId) {
+      await SessionRecorder.updateOutcome(transfer.callRecordId, 'transfer_failed').catch((error) => {
+        console.error(`${tag} Failed to update call outcome:`, error);
+      });
+    }
+    if (transfer.carried) {
+      carriedCalls.set(transfer.callSid, transfer.carried);
+      // Twilio connects the new stream within seconds - don't hold on if it never comes
+      setTimeout(() => carriedCalls.delete(transfer.callSid), TRANSFER_CALLBACK_GRACE_MS).unref();
+    }
+    return { action: 'take_message', from: transfer.fromPhone, to: transfer.toPhone, language: transfer.language };
+  }
+
+  const status = params.CallStatus;
+  console.log(`${tag} Warm transfer leg: ${status}${params.AnsweredBy ? ` (${params.AnsweredBy})` : ''}`);
+
+  if (status === 'in-progress' && !transfer.answered) {
+    // Voicemail picked up - that's not a person
+    if (/^(machine|fax)/.test(params.AnsweredBy || '')) {
+      finishWarm(transferId, transfer, { type: 'failed', reason: 'voicemail' });
+      if (transfer.personCallSid) {
+        await updateCall(transfer.personCallSid, { status: 'completed', sessionId: transfer.sessionId }).catch(() => {});
+      }
+      return { action: 'none' };
+    }
+    transfer.answered = true;
+    if (transfer.timer) clearTimeout(transfer.timer);
+    finishWarm(transferId, transfer, { type: 'answered' });
+    return { action: 'none' };
+  }
+
+  // busy, no-answer, failed, canceled - or hung up before the caller was joined
+  if (['completed', 'busy', 'no-answer', 'failed', 'canceled'].includes(status)) {
+    finishWarm(transferId, transfer, { type: 'failed', reason: status });
+  }
+  return { action: 'none' };
+}
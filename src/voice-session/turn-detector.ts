@@ -0,0 +1,207 @@
+/**
+ * Voice Session - End-of-Turn Detection
+ *
+ * Decides when the caller has finished speaking. Combines Deepgram's VAD
+ * events (SpeechStarted / UtteranceEnd), whether the transcript looks like a
+ * complete sentence, and what the assistant is waiting for (a yes/no answer
+ * needs less patience than a spelled-out surname).
+ */
+
+import { SessionLogger } from '../utils/index.js';
+import { TurnDetectionConfig, VerificationState } from './types.js';
+
+export type TurnDialogState = 'open' | 'identifying' | 'spelling' | 'confirming';
+
+export const DEFAULT_TURN_DETECTION_CONFIG: TurnDetectionConfig = {
+  completeSilenceMs: 700, // Sentence looks finished
+  incompleteSilenceMs: 1500, // Trailing "and...", no punctuation
+  identifyingSilenceMs: 1800, // Reading out a name or unit number
+  spellingSilenceMs: 2500, // Spelling letter by letter
+  confirmingSilenceMs: 450, // Short yes/no answer
+  utteranceEndGraceMs: 200, // After Deepgram reports the utterance ended
+  maxWaitMs: 4000, // Never wait longer than this after the last word
+};
+
+// How often to retry handing over a turn while the session is busy
+const BUSY_RETRY_MS = 250;
+
+// Words that suggest the caller paused mid-sentence
+const TRAILING_WORDS = new Set([
+  'and', 'but', 'so', 'or', 'because', 'um', 'uh', 'the', 'a', 'an', 'my', 'is', 'to',
+  'of', 'in', 'on', 'at', 'with', 'unit', 'apartment', 'number', 'like', 'then', 'when',
+]);
+
+const YES_NO_ANSWER = /^(yes|yeah|yep|yup|no|nope|nah|correct|right|sure|okay|ok|that's right|that's it)\b/i;
+const YES_NO_QUESTION = /^(is|are|do|does|did|can|could|should|would|will|was|has|have)\b/i;
+
+export interface TurnDetectorOptions {
+  log: SessionLogger;
+  config?: Partial<TurnDetectionConfig> | null;
+  getDialogState: () => TurnDialogState;
+  // Return false if the session can't take the turn yet - the utterance is kept
+  onTurnEnd: (utterance: string) => boolean;
+}
+
+/**
+ * Check whether a transcript reads like a finished thought
+ */
+export function looksComplete(text: string): boolean {
+  const trimmed = text.trim();
+  if (!/[.?!]$/.test(trimmed)) return false;
+  const words = trimmed.toLowerCase().replace(/[.?!,]+$/, '').split(/\s+/);
+  return !TRAILING_WORDS.has(words[words.length - 1]);
+}
+
+/**
+ * Infer what the assistant is waiting for from the last thing it said
+ */
+export function inferDialogState(
+  verificationState: VerificationState,
+  lastAssistantMessage: string | null
+): TurnDialogState {
+  const message = (lastAssistantMessage || '').trim();
+
+  if (/\bspell\b/i.test(message)) return 'spelling';
+  if (/\b(unit|apartment|name|address)\b/i.test(message) && message.endsWith('?')) return 'identifying';
+  if (verificationState === 'VERIFYING') return 'identifying';
+
+  // Last sentence is a yes/no question ("Is that right?", "Anything else?")
+  const lastSentence = message.split(/(?<=[.!?])\s+/).pop() || '';
+  if (lastSentence.endsWith('?') && (YES_NO_QUESTION.test(lastSentence) || /^anything else/i.test(lastSentence))) {
+    return 'confirming';
+  }
+
+  return 'open';
+}
+
+/**
+ * Collects final transcripts and fires onTurnEnd once the caller is done
+ */
+export class TurnDetector {
+  private options: TurnDetectorOptions;
+  private config: TurnDetectionConfig;
+  private buffer = '';
+  private timer: NodeJS.Timeout | null = null;
+  private lastWordAt = 0;
+
+  constructor(options: TurnDetectorOptions) {
+    this.options = options;
+    this.config = { ...DEFAULT_TURN_DETECTION_CONFIG, ...options.config };
+  }
+
+  get pendingUtterance(): string {
+    return this.buffer;
+  }
+
+  handleTranscript(transcript: string, isFinal: boolean, speechFinal = false): void {
+    if (!transcript.trim()) return;
+    this.lastWordAt = Date.now();
+
+    if (!isFinal) {
+      // Caller is still mid-phrase - hold off
+      this.cancelTimer();
+      return;
+    }
+
+    if (!this.buffer.endsWith(transcript)) {
+      this.buffer = this.buffer ? `${this.buffer} ${transcript}` : transcript;
+    }
+    this.options.log.debug('Final transcript chunk', { chunk: transcript, accumulated: this.buffer });
+    this.schedule(speechFinal ? 'speech_final' : 'final_transcript');
+  }
+
+  handleSpeechStarted(): void {
+    // Caller started talking again - whatever we were waiting on is moot
+    if (this.timer) {
+      this.options.log.debug('Turn end deferred - speech resumed');
+      this.cancelTimer();
+    }
+  }
+
+  handleUtteranceEnd(): void {
+    if (!this.buffer) return;
+    const dialogState = this.options.getDialogState();
+
+    // Spelling has long gaps between letters - keep waiting on the timer
+    if (dialogState === 'spelling' && !looksComplete(this.buffer)) {
+      this.logDecision('utterance_end_ignored', dialogState, null);
+      return;
+    }
+    this.cancelTimer();
+    this.logDecision('utterance_end', dialogState, this.config.utteranceEndGraceMs);
+    this.timer = setTimeout(() => this.fire(), this.config.utteranceEndGraceMs);
+  }
+
+  /**
+   * Drop any buffered speech and pending timer
+   */
+  reset(): void {
+    this.cancelTimer();
+    this.buffer = '';
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+
+  private schedule(trigger: string): void {
+    this.cancelTimer();
+    const dialogState = this.options.getDialogState();
+    const waitMs = Math.min(this.computeWait(dialogState), this.config.maxWaitMs);
+    this.logDecision(trigger, dialogState, waitMs);
+    this.timer = setTimeout(() => this.fire(), waitMs);
+  }
+
+  private computeWait(dialogState: TurnDialogState): number {
+    const complete = looksComplete(this.buffer);
+    switch (dialogState) {
+      case 'spelling':
+        return this.config.spellingSilenceMs;
+      case 'identifying':
+        return complete
+          ? Math.max(this.config.completeSilenceMs, this.config.identifyingSilenceMs / 2)
+          : this.config.identifyingSilenceMs;
+      case 'confirming':
+        if (YES_NO_ANSWER.test(this.buffer.trim()) && this.buffer.split(/\s+/).length <= 4) {
+          return this.config.confirmingSilenceMs;
+        }
+        return complete ? this.config.completeSilenceMs : this.config.incompleteSilenceMs;
+      default:
+        return complete ? this.config.completeSilenceMs : this.config.incompleteSilenceMs;
+    }
+  }
+
+  private fire(): void {
+    this.timer = null;
+    const utterance = this.buffer.trim();
+    if (!utterance) return;
+
+    if (this.options.onTurnEnd(utterance)) {
+      this.options.log.info('User finished speaking', {
+        transcript: utterance,
+        silenceMs: Date.now() - this.lastWordAt,
+      });
+      this.buffer = '';
+    } else {
+      // Session is still busy with the previous turn - try again shortly
+      this.timer = setTimeout(() => this.fire(), BUSY_RETRY_MS);
+    }
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private logDecision(trigger: string, dialogState: TurnDialogState, waitMs: number | null): void {
+    this.options.log.info('Turn decision', {
+      trigger,
+      dialogState,
+      sentenceComplete: looksComplete(this.buffer),
+      words: this.buffer.split(/\s+/).filter(Boolean).length,
+      waitMs,
+    });
+  }
+}
@@ -5,17 +5,53 @@
  */
 
 import { WebSocket } from 'ws';
+import type { SttConfig } from '../speech-to-text/types.js';
+import type { TtsConfig } from '../text-to-speech/types.js';
+import type { LLMConfig, LLMToolCall } from '../llm/types.js';
+import type { LanguageConfig } from '../locales/types.js';
+import type { BusinessHoursConfig } from '../business-hours/types.js';
+import type { SchedulingConfig } from '../scheduling/types.js';
+import type { SelfFixConfig } from '../self-fix/types.js';
 
 // Verification states
 export type VerificationState = 'PENDING' | 'VERIFIED' | 'VERIFYING' | 'UNVERIFIED';
 
-// Memory limits to prevent unbounded growth during long calls
+// Memory limits to prevent unbounded growth during long calls.
+// The model sees a summary plus recent turns (see context-manager.ts).
 export const MAX_CONVERSATION_MESSAGES = 100;
 
+// Context compression: once unsummarized history fills CONTEXT_COMPACT_AT of
+// the token budget, older turns are summarized down to CONTEXT_COMPACT_TO.
+// The newest messages are never summarized.
+export const CONTEXT_COMPACT_AT = 0.75;
+export const CONTEXT_COMPACT_TO = 0.5;
+export const CONTEXT_KEEP_RECENT_MESSAGES = 6;
+
+// Most model round trips in one turn (reply -> tool results -> reply ...)
+export const MAX_TOOL_ROUNDS = 3;
+
+// Minimum words in an interim transcript before it interrupts the assistant
+// (final transcripts always do)
+export const BARGE_IN_MIN_WORDS = 2;
+
+// Caller language detection: the first clear utterance sets the language,
+// later switches need a longer utterance that is clearly another language
+export const LANGUAGE_DETECT_MIN_CONFIDENCE = 0.25;
+export const LANGUAGE_SWITCH_MIN_WORDS = 3;
+export const LANGUAGE_SWITCH_MIN_CONFIDENCE = 0.5;
+
+// Longest we wait for queued audio to finish playing before hanging up anyway
+export const PLAYBACK_DRAIN_TIMEOUT_MS = 20000;
+
 // Call duration limits (in milliseconds)
 export const SOFT_LIMIT_MS = 20 * 60 * 1000; // 20 minutes - suggest SMS
 export const HARD_LIMIT_MS = 30 * 60 * 1000; // 30 minutes - end call
 
+// How long a transfer rings before we take a message instead (seconds)
+export const TRANSFER_RING_TIMEOUT_S = 20;
+// Extra wait for Twilio's status callback before giving up on a warm transfer
+export const TRANSFER_CALLBACK_GRACE_MS = 15000;
+
 export interface VoiceSessionConfig {
   socket: WebSocket;
   streamSid: string;
@@ -24,12 +60,59 @@ export interface VoiceSessionConfig {
   toPhone: string;
   propertyContext: PropertyContext | null;
   tenantContext: TenantContext | null;
+  // Reconnected after a cold transfer nobody answered - take a message
+  transferFailed?: boolean;
+  // Language the caller was speaking before the transfer
+  language?: string;
 }
 
 export interface PropertyContext {
   id: string;
   name: string;
   user_id: string;
+  voice_config?: PropertyVoiceConfig | null;
+}
+
+// Per-property voice settings (properties.voice_config JSON column)
+export interface PropertyVoiceConfig {
+  turn_detection?: Partial<TurnDetectionConfig>;
+  stt?: SttConfig;
+  tts?: TtsConfig;
+  llm?: LLMConfig;
+  languages?: LanguageConfig;
+  // Dialog flow id (see src/dialog-flows), or "none" for the free-form prompt
+  dialog_flow?: string;
+  emergency?: EmergencyConfig;
+  transfer?: TransferConfig;
+  business_hours?: BusinessHoursConfig;
+  scheduling?: SchedulingConfig;
+  self_fix?: SelfFixConfig;
+}
+
+// Where "talk to a person" goes. Warm: the AI briefs the person in a
+// conference first. Cold: the call is redirected straight to them.
+export interface TransferConfig {
+  phone?: string;
+  mode?: 'warm' | 'cold';
+  // Seconds to ring before taking a message instead
+  ring_timeout?: number;
+}
+
+// Who gets paged when a caller reports an emergency
+export interface EmergencyConfig {
+  on_call_phone?: string;
+  on_call_name?: string;
+}
+
+// End-of-turn silence thresholds (see turn-detector.ts for defaults)
+export interface TurnDetectionConfig {
+  completeSilenceMs: number;
+  incompleteSilenceMs: number;
+  identifyingSilenceMs: number;
+  spellingSilenceMs: number;
+  confirmingSilenceMs: number;
+  utteranceEndGraceMs: number;
+  maxWaitMs: number;
 }
 
 export interface TenantContext {
@@ -47,19 +130,35 @@ export interface TenantContext {
 }
 
 export interface ConversationMessage {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
   content: string;
+  // Assistant turns that called tools
+  tool_calls?: LLMToolCall[];
+  // Tool results - the call this answers
+  tool_call_id?: string;
 }
 
-// Issue categories for determining if media would help
+// Issue categories for determining if media would help (English and Spanish keywords)
 export const ISSUE_CATEGORIES: Record<string, RegExp> = {
-  plumbing_leak: /leak|water|drip|flood|burst|pipe|faucet|toilet overflow/i,
-  plumbing_other: /toilet|drain|clog|sink|shower|tub|disposal/i,
-  hvac: /heat|ac|air condition|thermostat|furnace|cold|hot air|vent|filter/i,
-  electrical: /outlet|light|power|switch|breaker|spark|electrical|socket/i,
-  appliance: /refrigerator|fridge|dishwasher|washer|dryer|stove|oven|microwave/i,
-  structural: /door|window|lock|wall|ceiling|floor|roof|crack|hole/i,
-  pest: /bug|roach|ant|mouse|rat|pest|rodent|insect|spider/i,
+  plumbing_leak: /leak|water|drip|flood|burst|pipe|faucet|toilet overflow|\b(fuga|gotea|goteo|inund|tuber[ií]a)/i,
+  plumbing_other: /toilet|drain|clog|sink|shower|tub|disposal|\b(inodoro|excusado|desag[üu]e|tapad|lavabo|fregadero|regadera|ducha)|\btinas?\b/i,
+  hvac: /heat|ac|air condition|thermostat|furnace|cold|hot air|vent|filter|\b(calefacci[óo]n|calentador|aire acondicionado|termostato)/i,
+  electrical: /outlet|light|power|switch|breaker|spark|electrical|socket|\b(enchufe|corriente|apagador|interruptor|chispa|el[ée]ctric)|\b(luz|luces)\b/i,
+  appliance: /refrigerator|fridge|dishwasher|washer|dryer|stove|oven|microwave|\b(refrigerador|nevera|lavaplatos|lavadora|secadora|estufa|horno|microondas)/i,
+  structural: /door|window|lock|wall|ceiling|floor|roof|crack|hole|\b(puerta|ventana|cerradura|pared|grieta|agujero)|\b(techo|hoyo)s?\b/i,
+  pest: /bug|roach|ant|mouse|rat|pest|rodent|insect|spider|\b(cucaracha|hormiga|rat[óo]n|plaga|insecto|ara[ñn]a|chinche)|\bratas?\b/i,
+};
+
+export type EmergencyType = 'gas_leak' | 'fire' | 'flooding' | 'carbon_monoxide';
+
+// Emergencies that trigger immediate escalation (English and Spanish keywords).
+// Things named after the emergency (fire department, flood light, CO detector)
+// don't count - a detector only does when it is going off.
+export const EMERGENCY_PATTERNS: Record<EmergencyType, RegExp> = {
+  gas_leak: /\b(smell(s|ing)? (of |like )?gas|gas (smell|leak)|leaking gas|olor a gas|huele a gas|fuga de gas)\b/i,
+  fire: /\b(fire(?! (alarm|extinguisher|escape|door|pit|place|department|dept|hydrant|sprinklers?|station|truck|drill|exit|code|hazard|inspection|marshal|safety|insurance))|flames?|on fire|smoke (is )?(coming|everywhere)|incendio|fuego)\b/i,
+  flooding: /\b(flood(ing|ed)?(?! (lights?|insurance|zone|plain|warning|watch))|water (is )?(everywhere|pouring|gushing)|burst pipe|pipe (burst|broke)|inundaci[oó]n|inundad[oa]|inundando)\b/i,
+  carbon_monoxide: /\b(carbon monoxide(?! (alarm|detector))|(carbon monoxide|co) (alarm|detector)s? (is |are )?(going off|sounding|ringing)|(?<!(alarma|detector) de )mon[oó]xido( de carbono)?|(alarma|detector) de mon[oó]xido( de carbono)? (est[aá] )?sonando)\b/i,
 };
 
 // Categories where photos/videos are especially helpful
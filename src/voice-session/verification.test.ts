@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CallerVerification } from '../caller-verification/index.js';
+import { SessionRecorder } from '../session-recorder/index.js';
+import { SessionLogger } from '../utils/index.js';
+import { createUnverifiedRequest, handleVerificationAttempt, keepFiledRequest, VerificationData } from './verification.js';
+import { PropertyContext } from './types.js';
+
+const verifying = (): VerificationData => ({
+  state: 'VERIFYING',
+  tenantContext: null,
+  claimedName: 'Maria Lopez',
+  claimedUnit: null,
+  claimedUnitViaKeypad: false,
+  promptCount: 1,
+  maxPrompts: 3,
+  createdUnverifiedRequest: false,
+});
+
+function fakeContext() {
+  let finishMatch = () => {};
+  const matched = new Promise<void>((resolve) => (finishMatch = resolve));
+  const verifier = {
+    parseClaimedIdentity: () => ({ name: null, unit: '4B' }),
+    attemptMatch: vi.fn(async () => {
+      await matched;
+      return { verified: false, tenant: null, attempts: 1 };
+    }),
+    createUnverifiedRequest: vi.fn(async () => 'request-2'),
+  };
+  const recorder = {
+    generateSummary: async () => 'Caller reported a gas leak',
+    getFullTranscript: () => '',
+    getCallRecordId: () => 'call-1',
+  };
+  const ctx = {
+    log: new SessionLogger({ sessionId: 'test-session' }),
+    verifier: verifier as unknown as CallerVerification,
+    recorder: recorder as unknown as SessionRecorder,
+    propertyContext: { id: 'property-1', user_id: 'manager-1' } as PropertyContext,
+    fromPhone: '+15551234567',
+  };
+  return { ctx, verifier, finishMatch };
+}
+
+describe('keepFiledRequest', () => {
+  it('keeps a request an emergency filed during a verification attempt', async () => {
+    const { ctx, verifier, finishMatch } = fakeContext();
+    const session = { verificationData: verifying() };
+
+    const attempt = handleVerificationAttempt(ctx, "I'm in 4B", session.verificationData);
+    // The emergency escalation files its request while the match is running
+    session.verificationData.createdUnverifiedRequest = true;
+    finishMatch();
+    session.verificationData = keepFiledRequest(session.verificationData, await attempt);
+
+    expect(session.verificationData).toMatchObject({ state: 'UNVERIFIED', claimedUnit: '4B', createdUnverifiedRequest: true });
+    expect(await createUnverifiedRequest(ctx, session.verificationData, [])).toBeNull();
+    expect(verifier.createUnverifiedRequest).not.toHaveBeenCalled();
+  });
+
+  it('takes the attempt as it is when nothing was filed', () => {
+    const updated = { ...verifying(), state: 'UNVERIFIED' as const };
+    expect(keepFiledRequest(verifying(), updated)).toBe(updated);
+  });
+});
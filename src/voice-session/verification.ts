@@ -8,7 +8,7 @@
  */
 
 import { SessionLogger } from '../utils/index.js';
-import { CallerVerification } from '../caller-verification/index.js';
+import { CallerVerification, normalizeSpokenForm } from '../caller-verification/index.js';
 import { SessionRecorder } from '../session-recorder/index.js';
 import { VerificationState, TenantContext, PropertyContext } from './types.js';
 
@@ -25,6 +25,7 @@ export interface VerificationData {
   tenantContext: TenantContext | null;
   claimedName: string | null;
   claimedUnit: string | null;
+  claimedUnitViaKeypad: boolean;
   promptCount: number;
   maxPrompts: number;
   createdUnverifiedRequest: boolean;
@@ -86,7 +87,10 @@ export async function handleVerificationAttempt(
   const newData = { ...data };
 
   if (claimed.name) newData.claimedName = claimed.name;
-  if (claimed.unit) newData.claimedUnit = claimed.unit;
+  if (claimed.unit) {
+    newData.claimedUnit = claimed.unit;
+    newData.claimedUnitViaKeypad = false;
+  }
 
   // Only count as verification attempt if we got NEW info
   const gotNewInfo = (!hadName && claimed.name) || (!hadUnit && claimed.unit);
@@ -100,9 +104,90 @@ export async function handleVerificationAttempt(
     });
   }
 
+  return matchClaimedIdentity(ctx, newData);
+}
+
+/**
+ * Handle a unit number typed on the keypad
+ */
+export async function handleKeypadUnitEntry(
+  ctx: VerificationContext,
+  digits: string,
+  data: VerificationData
+): Promise<VerificationData> {
+  if (!ctx.verifier) return data;
+
+  const newData = { ...data };
+  if (newData.claimedUnit !== digits) {
+    newData.promptCount++;
+  }
+  newData.claimedUnit = digits;
+  newData.claimedUnitViaKeypad = true;
+
+  ctx.log.info('Verification attempt (keypad)', {
+    promptCount: newData.promptCount,
+    maxPrompts: newData.maxPrompts,
+    claimedName: newData.claimedName,
+    claimedUnit: newData.claimedUnit,
+  });
+
+  return matchClaimedIdentity(ctx, newData);
+}
+
+/**
+ * Handle a name/unit the model picked out of the conversation (identify_caller tool)
+ */
+export async function handleIdentifiedCaller(
+  ctx: VerificationContext,
+  identity: { name: string | null; unit: string | null },
+  data: VerificationData
+): Promise<VerificationData> {
+  if (!ctx.verifier) return data;
+
+  // The model may pass on what it heard as it was said ("four bee")
+  identity = {
+    name: identity.name && normalizeSpokenForm(identity.name),
+    unit: identity.unit && normalizeSpokenForm(identity.unit),
+  };
+
+  const newData = { ...data };
+  const gotNewInfo =
+    (identity.name && identity.name !== data.claimedName) || (identity.unit && identity.unit !== data.claimedUnit);
+
+  if (identity.name) newData.claimedName = identity.name;
+  if (identity.unit && identity.unit !== data.claimedUnit) {
+    newData.claimedUnit = identity.unit;
+    newData.claimedUnitViaKeypad = false;
+  }
+
+  if (gotNewInfo) {
+    newData.promptCount++;
+    ctx.log.info('Verification attempt (identify_caller)', {
+      promptCount: newData.promptCount,
+      maxPrompts: newData.maxPrompts,
+      claimedName: newData.claimedName,
+      claimedUnit: newData.claimedUnit,
+    });
+  }
+
+  return matchClaimedIdentity(ctx, newData);
+}
+
+/**
+ * Match the claimed identity once we have both name and unit,
+ * or give up after too many prompts
+ */
+async function matchClaimedIdentity(
+  ctx: VerificationContext,
+  newData: VerificationData
+): Promise<VerificationData> {
+  if (!ctx.verifier) return newData;
+
   // If we have both name and unit, try to match
   if (newData.claimedName && newData.claimedUnit) {
-    const result = await ctx.verifier.attemptMatch(newData.claimedName, newData.claimedUnit);
+    const result = await ctx.verifier.attemptMatch(newData.claimedName, newData.claimedUnit, {
+      keypad: newData.claimedUnitViaKeypad,
+    });
 
     if (result.verified && result.tenant) {
       newData.tenantContext = result.tenant as TenantContext;
@@ -110,6 +195,7 @@ export async function handleVerificationAttempt(
       ctx.log.info('Caller verified via name/unit match', {
         tenantId: result.tenant.id,
         attempts: result.attempts,
+        matchScore: result.match?.score,
       });
 
       // Link recording to tenant
@@ -126,6 +212,8 @@ export async function handleVerificationAttempt(
       ctx.log.info('Name/unit provided but no match found, marking as unverified', {
         claimedName: newData.claimedName,
         claimedUnit: newData.claimedUnit,
+        matchScore: result.match?.score,
+        matchOutcome: result.match?.outcome,
       });
       return newData;
     }
@@ -144,13 +232,27 @@ export async function handleVerificationAttempt(
   return newData;
 }
 
+/**
+ * The result of a verification attempt, keeping an unverified request filed
+ * while it ran - an emergency escalation files one on the session's data,
+ * not on the copy the attempt was working on
+ */
+export function keepFiledRequest(current: VerificationData, updated: VerificationData): VerificationData {
+  if (!current.createdUnverifiedRequest || updated.createdUnverifiedRequest) return updated;
+  return { ...updated, createdUnverifiedRequest: true };
+}
+
 /**
  * Create an unverified request for PM review
  */
 export async function createUnverifiedRequest(
   ctx: VerificationContext,
   data: VerificationData,
-  conversationHistory: Array<{ role: string; content: string }>
+  conversationHistory: Array<{ role: string; content: string }>,
+  // Self-fix steps the caller already tried
+  troubleshooting?: string | null,
+  // The request as read back to the caller and confirmed
+  confirmed?: { title: string; location: string; category: string; priority: string } | null
 ): Promise<string | null> {
   if (!ctx.verifier || !ctx.propertyContext) {
     ctx.log.warn('Cannot create unverified request - missing context');
@@ -168,6 +270,10 @@ export async function createUnverifiedRequest(
     .filter((m) => m.role === 'user')
     .map((m) => m.content)
     .join(' ');
+  const described = confirmed
+    ? `${confirmed.title} (${confirmed.location}) - ${confirmed.category}, ${confirmed.priority} priority, ` +
+      `confirmed with the caller\n\n${userMessages}`
+    : userMessages;
 
   // Generate AI summary
   const summary = await ctx.recorder.generateSummary();
@@ -177,7 +283,7 @@ export async function createUnverifiedRequest(
     phoneNumber: ctx.fromPhone,
     claimedName: data.claimedName,
     claimedUnit: data.claimedUnit,
-    issueDescription: userMessages,
+    issueDescription: troubleshooting ? `${described}\n\n${troubleshooting}` : described,
     transcript: ctx.recorder.getFullTranscript(),
     aiSummary: summary,
     callRecordId: ctx.recorder.getCallRecordId(),
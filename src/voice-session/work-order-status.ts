@@ -0,0 +1,143 @@
+/**
+ * Voice Session - Work Order Status
+ *
+ * Lets a verified tenant ask what's happening with their repairs: looks up
+ * their open and recent work orders, describes each in a form the agent can
+ * read out, and adds notes or cancels on request. Every change is logged to
+ * the tenant's interaction history.
+ *
+ * The agent refers to work orders by their position in the last lookup
+ * ("ticket 2"), never by database id.
+ */
+
+import { SessionLogger } from '../utils/index.js';
+import { logWorkOrderEvent } from '../session-recorder/index.js';
+import { resolveBusinessHours } from '../business-hours/index.js';
+import { intlLocale, SupportedLanguage } from '../locales/index.js';
+import {
+  getTenantWorkOrders,
+  addWorkOrderNote,
+  cancelWorkOrder,
+  isWorkOrderCancellable,
+  TenantWorkOrder,
+} from '../supabase.js';
+import { PropertyContext, TenantContext } from './types.js';
+
+export interface WorkOrderStatusContext {
+  log: SessionLogger;
+  propertyContext: PropertyContext;
+  tenantContext: TenantContext;
+}
+
+// Tools that read or change the caller's work orders - verified callers only
+export const WORK_ORDER_TOOLS = ['lookup_work_orders', 'add_work_order_note', 'cancel_work_order'];
+
+// How each status reads to the caller
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  pending: "received - it hasn't been scheduled yet",
+  assigned: 'assigned to a vendor, who will set up a time',
+  scheduled: 'scheduled',
+  in_progress: 'being worked on',
+  on_hold: 'on hold',
+  completed: 'completed',
+  closed: 'completed',
+  cancelled: 'cancelled',
+};
+
+/**
+ * The tenant's open and recent work orders, newest first
+ */
+export async function lookupWorkOrders(ctx: WorkOrderStatusContext): Promise<TenantWorkOrder[]> {
+  ctx.log.startTimer('work_order_lookup');
+  const orders = await getTenantWorkOrders(ctx.tenantContext.id);
+  ctx.log.infoWithLatency('work_order_lookup', 'Work orders looked up', { count: orders.length });
+  return orders;
+}
+
+function formatDate(value: string, timezone: string, language: SupportedLanguage, withTime = true): string {
+  // A date-only value ("2024-05-02") is a calendar day, not an instant - don't
+  // let the timezone shift it, and don't read out a midnight time
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Intl.DateTimeFormat(intlLocale(language), {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    ...(withTime && !dateOnly && { hour: 'numeric', minute: '2-digit' }),
+    timeZone: dateOnly ? 'UTC' : timezone,
+  }).format(new Date(value));
+}
+
+/**
+ * What the agent gets to read out for one work order. Dates are in the
+ * property's timezone and the caller's language.
+ */
+export function describeWorkOrder(
+  order: TenantWorkOrder,
+  ticket: number,
+  propertyContext: PropertyContext,
+  language: SupportedLanguage
+): Record<string, unknown> {
+  const timezone = resolveBusinessHours(propertyContext.voice_config?.business_hours).timezone;
+
+  return {
+    ticket,
+    title: order.title,
+    status: STATUS_DESCRIPTIONS[order.status] || order.status.replace(/_/g, ' '),
+    priority: order.priority,
+    reported: formatDate(order.created_at, timezone, language, false),
+    scheduled: order.scheduled_date ? formatDate(order.scheduled_date, timezone, language) : null,
+    vendor: order.vendor?.name || null,
+    can_cancel: isWorkOrderCancellable(order.status),
+  };
+}
+
+/**
+ * Pass a note from the caller on to the work order
+ */
+export async function addNote(ctx: WorkOrderStatusContext, order: TenantWorkOrder, note: string): Promise<boolean> {
+  const added = await addWorkOrderNote({
+    workOrderId: order.id,
+    propertyContext: ctx.propertyContext,
+    tenantContext: ctx.tenantContext,
+    note,
+  });
+  ctx.log.info('Work order note', { workOrderId: order.id, added });
+  if (added) {
+    await logWorkOrderEvent(
+      ctx.tenantContext.id,
+      ctx.propertyContext.user_id,
+      order.id,
+      'updated',
+      `Tenant added a note by phone: ${note}`
+    ).catch((error) => ctx.log.error('Failed to log work order note', { error: (error as Error).message }));
+  }
+  return added;
+}
+
+/**
+ * Cancel a work order the caller no longer needs
+ */
+export async function cancel(
+  ctx: WorkOrderStatusContext,
+  order: TenantWorkOrder,
+  reason: string | null
+): Promise<boolean> {
+  const cancelled = await cancelWorkOrder({
+    workOrderId: order.id,
+    propertyContext: ctx.propertyContext,
+    tenantContext: ctx.tenantContext,
+    reason,
+  });
+  ctx.log.info('Work order cancel', { workOrderId: order.id, cancelled });
+  if (cancelled) {
+    order.status = 'cancelled';
+    await logWorkOrderEvent(
+      ctx.tenantContext.id,
+      ctx.propertyContext.user_id,
+      order.id,
+      'closed',
+      `Cancelled by tenant by phone${reason ? `: ${reason}` : ''}`
+    ).catch((error) => ctx.log.error('Failed to log work order cancel', { error: (error as Error).message }));
+  }
+  return cancelled;
+}
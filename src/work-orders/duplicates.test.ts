@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DuplicateCandidate, findLikelyDuplicate, scoreDuplicate } from './duplicates.js';
+
+const workOrder = (title: string, category = 'plumbing', unitId: string | null = 'unit-4b'): DuplicateCandidate => ({
+  id: title,
+  title,
+  category,
+  status: 'pending',
+  unit_id: unitId,
+  created_at: '2026-10-01T12:00:00Z',
+});
+
+describe('scoreDuplicate', () => {
+  it.each([
+    // title, category, unit, report text, report category, report unit, score
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'the pipes are leaking under the kitchen sink', 'plumbing', 'unit-4b', 1],
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'piping leaked under the sink', 'plumbing', 'unit-4b', 1],
+    ['Dripping faucet', 'plumbing', 'unit-4b', 'the faucet drips', 'plumbing', 'unit-4b', 1],
+    ['Clogged drain', 'plumbing', 'unit-4b', 'the drain clogs every week', 'plumbing', 'unit-4b', 1],
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'sink is leaking', 'plumbing', 'unit-4b', 0.75],
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'the sink is leaking', 'plumbing', 'unit-7a', 0.55],
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'no heat in the bedroom', 'hvac', 'unit-4b', 0.2],
+    ['Leaking pipe under sink', 'plumbing', 'unit-4b', 'no heat in the bedroom', 'hvac', 'unit-7a', 0],
+    // "other" says nothing about the kind of problem
+    ['Broken mailbox lock', 'other', null, 'mailbox lock is broken', 'other', 'unit-4b', 0.5],
+    ['Hallway lights out', 'electrical', null, 'the lights in the hallway are out', 'electrical', 'unit-4b', 0.8],
+    ['Fuga en la tubería', 'plumbing', 'unit-4b', 'hay una fuga en las tuberías', 'plumbing', 'unit-4b', 1],
+  ])('%s / %s', (title, category, unitId, text, reportCategory, reportUnit, score) => {
+    const candidate = workOrder(title, category, unitId);
+    expect(scoreDuplicate(candidate, { text, category: reportCategory, unitId: reportUnit })).toBeCloseTo(score);
+  });
+});
+
+describe('findLikelyDuplicate', () => {
+  const candidates = [
+    workOrder('No heat in bedroom', 'hvac'),
+    workOrder('Leaking pipe under sink'),
+    workOrder('Leaking pipe in laundry room', 'plumbing', 'unit-7a'),
+  ];
+
+  it('picks the best match above the threshold', () => {
+    const match = findLikelyDuplicate(candidates, { text: 'pipe under the sink leaks', category: 'plumbing', unitId: 'unit-4b' }, 0.55);
+    expect(match?.workOrder.title).toBe('Leaking pipe under sink');
+    expect(match?.sameUnit).toBe(true);
+  });
+
+  it('needs closer wording for another unit', () => {
+    const report = { text: 'a leak in the basement', category: 'plumbing', unitId: 'unit-2c' };
+    expect(findLikelyDuplicate(candidates, report, 0.55)).toBeNull();
+    const match = findLikelyDuplicate(candidates, { ...report, text: 'leaking pipe in the laundry room' }, 0.55);
+    expect(match?.workOrder.title).toBe('Leaking pipe in laundry room');
+    expect(match?.sameUnit).toBe(false);
+  });
+
+  it('returns null with nothing open', () => {
+    expect(findLikelyDuplicate([], { text: 'sink is leaking', category: 'plumbing', unitId: 'unit-4b' }, 0.55)).toBeNull();
+  });
+});
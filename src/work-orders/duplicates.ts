@@ -0,0 +1,108 @@
+/**
+ * Work Orders - Duplicate Detection
+ *
+ * Scores open work orders against a new report, so two calls about the same
+ * leak end up on one ticket. A candidate scores on:
+ * - wording: how much of its title the caller also said
+ * - category: same kind of problem
+ * - unit: same unit (a report from another unit needs much closer wording -
+ *   usually a common-area problem several tenants call about)
+ *
+ * Environment:
+ * - DUPLICATE_MATCH_THRESHOLD: score at or above which a work order is a likely duplicate (default 0.55)
+ */
+
+import { stem } from '../utils/stemming.js';
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.55;
+
+const WORDING_WEIGHT = 0.5;
+const CATEGORY_WEIGHT = 0.3;
+const SAME_UNIT_WEIGHT = 0.2;
+
+// Words that say nothing about the problem itself
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'there', 'have', 'has', 'not', 'but', 'our', 'your',
+  'unit', 'apartment', 'issue', 'problem', 'broken', 'repair', 'request', 'need', 'needs', 'please',
+  'los', 'las', 'del', 'con', 'por', 'para', 'que', 'una', 'uno', 'est', 'problema',
+]);
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  category: string;
+  status: string;
+  unit_id: string | null;
+  created_at: string;
+}
+
+export interface DuplicateReport {
+  // Work order category (plumbing, hvac, ...)
+  category: string;
+  unitId: string | null;
+  // The problem as the caller described it, and where
+  text: string;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> {
+  workOrder: T;
+  score: number;
+  sameUnit: boolean;
+}
+
+/**
+ * Content words, stemmed
+ */
+function contentWords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    .map(stem)
+    .filter((word) => word.length > 2);
+  return new Set(words);
+}
+
+function getThreshold(): number {
+  const value = Number(process.env.DUPLICATE_MATCH_THRESHOLD);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_DUPLICATE_THRESHOLD;
+}
+
+/**
+ * 0-1: how likely a work order is the problem being reported
+ */
+export function scoreDuplicate(candidate: DuplicateCandidate, report: DuplicateReport): number {
+  const titleWords = contentWords(candidate.title);
+  const reportWords = contentWords(report.text);
+  let shared = 0;
+  for (const word of titleWords) {
+    if (reportWords.has(word)) shared++;
+  }
+  const wording = titleWords.size > 0 ? shared / titleWords.size : 0;
+
+  const sameCategory = candidate.category === report.category && report.category !== 'other';
+  const sameUnit = !!report.unitId && candidate.unit_id === report.unitId;
+
+  return WORDING_WEIGHT * wording + (sameCategory ? CATEGORY_WEIGHT : 0) + (sameUnit ? SAME_UNIT_WEIGHT : 0);
+}
+
+/**
+ * The open work order most likely to be the same problem, if any scores
+ * above the threshold
+ */
+export function findLikelyDuplicate<T extends DuplicateCandidate>(
+  candidates: T[],
+  report: DuplicateReport,
+  threshold = getThreshold()
+): DuplicateMatch<T> | null {
+  let best: DuplicateMatch<T> | null = null;
+  for (const workOrder of candidates) {
+    const score = scoreDuplicate(workOrder, report);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { workOrder, score, sameUnit: !!report.unitId && workOrder.unit_id === report.unitId };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,109 @@
+/**
+ * Work Orders
+ *
+ * Extracts ticket details from a call with a declared schema, validates
+ * and repairs the result, and reports per-field confidence so uncertain
+ * fields can be flagged for the property manager. Also spots reports that
+ * are probably already open as a work order.
+ *
+ * Environment:
+ * - WORK_ORDER_REVIEW_THRESHOLD: confidence below which a field is flagged (default 0.6)
+ * - DUPLICATE_MATCH_THRESHOLD: score at which an open work order is a likely duplicate (default 0.55)
+ */
+
+import { completeChat, LLMConfig } from '../llm/index.js';
+import { WORK_ORDER_EXTRACTION_SCHEMA, WORK_ORDER_EXTRACTION_PROMPT } from './schema.js';
+import { validateExtraction, DEFAULT_REVIEW_THRESHOLD } from './validate.js';
+import { ExtractionResult, WorkOrderFields } from './types.js';
+
+export type {
+  WorkOrderCategory,
+  WorkOrderPriority,
+  WorkOrderFields,
+  WorkOrderField,
+  FieldConfidence,
+  ReviewFlag,
+  ExtractionResult,
+} from './types.js';
+export { WORK_ORDER_CATEGORIES, WORK_ORDER_PRIORITIES } from './types.js';
+export { validateExtraction } from './validate.js';
+export { scoreDuplicate, findLikelyDuplicate } from './duplicates.js';
+export type { DuplicateCandidate, DuplicateReport, DuplicateMatch } from './duplicates.js';
+
+// Confidence given to details the voice agent confirmed with the caller
+const AGENT_DETAIL_CONFIDENCE = 0.85;
+
+interface ExtractParams {
+  sessionId?: string;
+  llmConfig?: LLMConfig | null;
+  issueDescription: string;
+  // Details the voice agent already collected - override the extracted ones
+  details?: Partial<Pick<WorkOrderFields, 'category' | 'priority' | 'location'>>;
+  // Language to write the title and description in, e.g. "English"
+  language?: string;
+}
+
+function getReviewThreshold(): number {
+  const value = Number(process.env.WORK_ORDER_REVIEW_THRESHOLD);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_REVIEW_THRESHOLD;
+}
+
+/**
+ * Extract validated work order fields from what the tenant said
+ */
+export async function extractWorkOrderDetails(params: ExtractParams): Promise<ExtractionResult> {
+  const { sessionId, llmConfig, issueDescription, details, language } = params;
+
+  let raw: Record<string, unknown> = {};
+  let structured = false;
+  try {
+    const response = await completeChat({
+      sessionId,
+      purpose: 'extraction',
+      config: llmConfig,
+      systemPrompt: language
+        ? `${WORK_ORDER_EXTRACTION_PROMPT}\n- Write title, description and location in ${language}, even if the tenant spoke another language`
+        : WORK_ORDER_EXTRACTION_PROMPT,
+      messages: [{ role: 'user', content: issueDescription }],
+      jsonSchema: WORK_ORDER_EXTRACTION_SCHEMA,
+    });
+    structured = !!response.structured;
+    raw = parseJson(response.content);
+  } catch (error) {
+    console.error('Failed to extract ticket details:', error);
+  }
+
+  // Agent-collected details win over the extraction
+  if (details) {
+    const confidence = { ...((raw.confidence as Record<string, unknown>) || {}) };
+    for (const [field, value] of Object.entries(details)) {
+      if (!value) continue;
+      raw[field] = value;
+      confidence[field] = Math.max(Number(confidence[field]) || 0, AGENT_DETAIL_CONFIDENCE);
+    }
+    raw.confidence = confidence;
+  }
+
+  const result = validateExtraction(raw, issueDescription, getReviewThreshold());
+  if (result.reviewFlags.length > 0) {
+    console.log('Work order fields flagged for review:', result.reviewFlags.map((f) => `${f.field}:${f.reason}`).join(', '));
+  }
+
+  return { ...result, structured };
+}
+
+/**
+ * Parse model output as a JSON object. Without enforced structured output
+ * the model may still wrap it in a code fence or add a sentence around it.
+ */
+function parseJson(content: string): Record<string, unknown> {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return {};
+  try {
+    const parsed = JSON.parse(content.slice(start, end + 1));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
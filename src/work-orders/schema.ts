@@ -0,0 +1,43 @@
+/**
+ * Work Orders - Extraction Schema
+ *
+ * JSON Schema for ticket extraction. Written to satisfy strict structured
+ * output: every property required, no additional properties.
+ */
+
+import { WORK_ORDER_CATEGORIES, WORK_ORDER_PRIORITIES } from './types.js';
+
+const confidence = { type: 'number', description: '0 to 1 - how sure you are this value is right' };
+
+export const WORK_ORDER_EXTRACTION_SCHEMA = {
+  name: 'work_order_extraction',
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Brief issue title (5 words max)' },
+      description: { type: 'string', description: 'Detailed description of the issue' },
+      category: { type: 'string', enum: [...WORK_ORDER_CATEGORIES] },
+      priority: { type: 'string', enum: [...WORK_ORDER_PRIORITIES] },
+      location: { type: 'string', description: 'Where in the unit the issue is, or "" if not said' },
+      confidence: {
+        type: 'object',
+        properties: {
+          title: confidence,
+          description: confidence,
+          category: confidence,
+          priority: confidence,
+          location: confidence,
+        },
+        required: ['title', 'description', 'category', 'priority', 'location'],
+        additionalProperties: false,
+      },
+    },
+    required: ['title', 'description', 'category', 'priority', 'location', 'confidence'],
+    additionalProperties: false,
+  } as Record<string, unknown>,
+};
+
+export const WORK_ORDER_EXTRACTION_PROMPT = `Extract maintenance ticket details from what the tenant said.
+- Only use what the tenant actually said - don't guess
+- priority: emergency = flooding, fire, gas, no heat in freezing weather; high = getting worse or unusable; low = cosmetic
+- For each field, give your confidence from 0 to 1. Use a low score if the tenant was vague or you had to infer it.`;
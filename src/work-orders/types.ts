@@ -0,0 +1,49 @@
+/**
+ * Work Order Types
+ *
+ * Shared types for work order extraction.
+ */
+
+export const WORK_ORDER_CATEGORIES = [
+  'plumbing',
+  'electrical',
+  'hvac',
+  'appliance',
+  'structural',
+  'pest',
+  'other',
+] as const;
+export type WorkOrderCategory = (typeof WORK_ORDER_CATEGORIES)[number];
+
+export const WORK_ORDER_PRIORITIES = ['low', 'medium', 'high', 'emergency'] as const;
+export type WorkOrderPriority = (typeof WORK_ORDER_PRIORITIES)[number];
+
+export interface WorkOrderFields {
+  title: string;
+  description: string;
+  category: WorkOrderCategory;
+  priority: WorkOrderPriority;
+  location: string;
+}
+
+export type WorkOrderField = keyof WorkOrderFields;
+
+// 0-1 per field: how sure the extraction is that the value is right
+export type FieldConfidence = Record<WorkOrderField, number>;
+
+export interface ReviewFlag {
+  field: WorkOrderField;
+  reason: 'low_confidence' | 'repaired' | 'missing';
+  confidence: number;
+  // What the model returned before repair, if it was changed
+  original?: unknown;
+}
+
+export interface ExtractionResult {
+  fields: WorkOrderFields;
+  confidence: FieldConfidence;
+  // Fields the property manager should double-check
+  reviewFlags: ReviewFlag[];
+  // Whether the provider enforced the schema
+  structured: boolean;
+}
@@ -0,0 +1,157 @@
+/**
+ * Work Orders - Validation and Repair
+ *
+ * Checks extracted fields against the schema and repairs what it can
+ * (synonyms, overlong titles, missing text). Anything repaired, missing
+ * or below the confidence threshold is flagged for review.
+ */
+
+import {
+  WORK_ORDER_CATEGORIES,
+  WORK_ORDER_PRIORITIES,
+  WorkOrderCategory,
+  WorkOrderPriority,
+  WorkOrderFields,
+  WorkOrderField,
+  FieldConfidence,
+  ReviewFlag,
+} from './types.js';
+
+// Fields below this confidence are flagged for the property manager
+export const DEFAULT_REVIEW_THRESHOLD = 0.6;
+
+// Confidence cap for a value we had to repair or fill in
+const REPAIRED_CONFIDENCE = 0.4;
+
+const TITLE_MAX_WORDS = 5;
+
+const CATEGORY_SYNONYMS: Record<string, WorkOrderCategory> = {
+  plumbing_leak: 'plumbing',
+  plumbing_other: 'plumbing',
+  leak: 'plumbing',
+  water: 'plumbing',
+  electric: 'electrical',
+  power: 'electrical',
+  heating: 'hvac',
+  cooling: 'hvac',
+  ac: 'hvac',
+  air_conditioning: 'hvac',
+  appliances: 'appliance',
+  pests: 'pest',
+  bugs: 'pest',
+  rodents: 'pest',
+  door: 'structural',
+  window: 'structural',
+};
+
+const PRIORITY_SYNONYMS: Record<string, WorkOrderPriority> = {
+  urgent: 'high',
+  critical: 'emergency',
+  normal: 'medium',
+  routine: 'low',
+  standard: 'medium',
+};
+
+const FIELDS: WorkOrderField[] = ['title', 'description', 'category', 'priority', 'location'];
+
+export interface ValidatedExtraction {
+  fields: WorkOrderFields;
+  confidence: FieldConfidence;
+  reviewFlags: ReviewFlag[];
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function clampConfidence(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : 0;
+}
+
+function toKey(value: string): string {
+  return value.toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Validate raw extraction output (already JSON-parsed) and repair invalid fields
+ */
+export function validateExtraction(
+  raw: unknown,
+  issueDescription: string,
+  reviewThreshold = DEFAULT_REVIEW_THRESHOLD
+): ValidatedExtraction {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const rawConfidence = (input.confidence && typeof input.confidence === 'object' ? input.confidence : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const confidence = {} as FieldConfidence;
+  for (const field of FIELDS) {
+    confidence[field] = clampConfidence(rawConfidence[field]);
+  }
+
+  const flags = new Map<WorkOrderField, ReviewFlag>();
+  const repair = (field: WorkOrderField, reason: 'repaired' | 'missing', original?: unknown) => {
+    confidence[field] = Math.min(confidence[field], REPAIRED_CONFIDENCE);
+    flags.set(field, { field, reason, confidence: confidence[field], original });
+  };
+
+  // Category
+  const rawCategory = asText(input.category);
+  let category: WorkOrderCategory = 'other';
+  if ((WORK_ORDER_CATEGORIES as readonly string[]).includes(rawCategory)) {
+    category = rawCategory as WorkOrderCategory;
+  } else if (CATEGORY_SYNONYMS[toKey(rawCategory)]) {
+    category = CATEGORY_SYNONYMS[toKey(rawCategory)];
+    repair('category', 'repaired', input.category);
+  } else {
+    repair('category', rawCategory ? 'repaired' : 'missing', input.category);
+  }
+
+  // Priority
+  const rawPriority = asText(input.priority).toLowerCase();
+  let priority: WorkOrderPriority = 'medium';
+  if ((WORK_ORDER_PRIORITIES as readonly string[]).includes(rawPriority)) {
+    priority = rawPriority as WorkOrderPriority;
+  } else if (PRIORITY_SYNONYMS[rawPriority]) {
+    priority = PRIORITY_SYNONYMS[rawPriority];
+    repair('priority', 'repaired', input.priority);
+  } else {
+    repair('priority', rawPriority ? 'repaired' : 'missing', input.priority);
+  }
+
+  // Description - fall back to what the tenant said
+  let description = asText(input.description);
+  if (!description) {
+    description = issueDescription;
+    repair('description', 'missing');
+  }
+
+  // Title - short enough for a list view
+  let title = asText(input.title);
+  if (!title) {
+    title = 'Maintenance Request via Phone';
+    repair('title', 'missing');
+  } else if (title.split(/\s+/).length > TITLE_MAX_WORDS) {
+    title = title.split(/\s+/).slice(0, TITLE_MAX_WORDS).join(' ');
+    repair('title', 'repaired', input.title);
+  }
+
+  // Location - optional, but an empty one is worth a look
+  const location = asText(input.location);
+  if (!location) repair('location', 'missing');
+
+  // Anything else the model wasn't sure about
+  for (const field of FIELDS) {
+    if (!flags.has(field) && confidence[field] < reviewThreshold) {
+      flags.set(field, { field, reason: 'low_confidence', confidence: confidence[field] });
+    }
+  }
+
+  return {
+    fields: { title, description, category, priority, location },
+    confidence,
+    reviewFlags: FIELDS.filter((field) => flags.has(field)).map((field) => flags.get(field)!),
+  };
+}
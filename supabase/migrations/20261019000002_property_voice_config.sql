@@ -0,0 +1,7 @@
+-- Per-property voice agent settings (PropertyVoiceConfig in
+-- src/voice-session/types.ts). Each key is optional and falls back to the
+-- environment defaults; the README describes them under the feature that
+-- reads them (turn_detection, stt, tts, llm, languages, business_hours, ...).
+
+alter table public.properties
+  add column if not exists voice_config jsonb not null default '{}'::jsonb;
@@ -0,0 +1,13 @@
+-- What the property manager should double-check on a phone ticket
+-- (src/work-orders/validate.ts). review_flags lists the repaired, missing
+-- or low-confidence fields; extraction_confidence holds the 0-1 confidence
+-- of each field.
+
+alter table public.work_orders
+  add column if not exists needs_review boolean not null default false,
+  add column if not exists review_flags jsonb not null default '[]'::jsonb,
+  add column if not exists extraction_confidence jsonb;
+
+create index if not exists work_orders_needs_review_idx
+  on public.work_orders (user_id)
+  where needs_review;
@@ -0,0 +1,5 @@
+-- The language the call was held in (src/session-recorder), as a language
+-- code such as 'en' or 'es'.
+
+alter table public.call_records
+  add column if not exists caller_language text;
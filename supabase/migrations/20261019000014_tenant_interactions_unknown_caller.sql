@@ -0,0 +1,8 @@
+-- Emergency escalations are logged step by step
+-- (src/session-recorder/interaction-logger.ts), as interaction_type
+-- emergency_detected, emergency_work_order, emergency_unverified_request,
+-- emergency_on_call_sms and emergency_on_call_call. A caller can report an
+-- emergency before they are identified, so those rows have no tenant.
+
+alter table public.tenant_interactions
+  alter column tenant_id drop not null;
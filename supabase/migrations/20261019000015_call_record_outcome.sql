@@ -0,0 +1,8 @@
+-- How the call ended for the caller (CallOutcome in src/session-recorder):
+-- handled by the assistant, handed to a person, or a transfer nobody
+-- answered. A failed cold transfer is only known once Twilio reports back,
+-- so the outcome can change after the call record is closed.
+
+alter table public.call_records
+  add column if not exists outcome text
+    check (outcome in ('completed', 'transferred', 'transfer_failed'));
@@ -0,0 +1,30 @@
+-- Notes callers add to their work orders over the phone
+-- (src/voice-session/work-order-status.ts). The property manager reads them
+-- with the work order.
+
+create table if not exists public.work_order_notes (
+  id uuid primary key default gen_random_uuid(),
+  work_order_id uuid not null references public.work_orders (id) on delete cascade,
+  user_id uuid not null,
+  tenant_id uuid references public.tenants (id) on delete set null,
+  content text not null,
+  source text not null default 'phone',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists work_order_notes_work_order_id_idx on public.work_order_notes (work_order_id);
+
+alter table public.work_order_notes enable row level security;
+
+create policy "Managers manage their work order notes"
+  on public.work_order_notes
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- What a caller is told about a work order: when it last changed, when it's
+-- scheduled and which vendor has it
+alter table public.work_orders
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists scheduled_date timestamptz,
+  add column if not exists vendor_id uuid references public.vendors (id) on delete set null;
@@ -0,0 +1,10 @@
+-- Phone tickets that may repeat an open work order (src/work-orders/duplicates.ts).
+-- A repeat report the caller agreed was the same problem is added to the open
+-- work order as a note instead (see 20261019000017_work_order_notes.sql).
+
+alter table public.work_orders
+  add column if not exists possible_duplicate_of uuid references public.work_orders (id) on delete set null;
+
+create index if not exists work_orders_possible_duplicate_of_idx
+  on public.work_orders (possible_duplicate_of)
+  where possible_duplicate_of is not null;
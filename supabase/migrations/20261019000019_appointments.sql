@@ -0,0 +1,58 @@
+-- Maintenance appointments booked during the call (src/scheduling).
+
+create extension if not exists btree_gist;
+
+-- When a vendor or the in-house team can take visits, weekly, in the
+-- property's local time. No property_id = all of the manager's properties;
+-- no categories = any job.
+create table if not exists public.availability_windows (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  property_id uuid references public.properties (id) on delete cascade,
+  vendor_id uuid references public.vendors (id) on delete cascade,
+  team text,
+  categories text[],
+  -- 0 = Sunday
+  weekday smallint not null check (weekday between 0 and 6),
+  start_time time not null,
+  end_time time not null,
+  created_at timestamptz not null default now(),
+  check (end_time > start_time),
+  check (vendor_id is not null or team is not null)
+);
+
+create index if not exists availability_windows_user_id_idx on public.availability_windows (user_id);
+
+alter table public.availability_windows enable row level security;
+
+create policy "Managers manage their availability windows"
+  on public.availability_windows
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- The booked slot, who it's with, and how to get in
+alter table public.work_orders
+  add column if not exists scheduled_end timestamptz,
+  add column if not exists availability_window_id uuid references public.availability_windows (id) on delete set null,
+  add column if not exists permission_to_enter boolean,
+  add column if not exists access_notes text;
+
+create index if not exists work_orders_user_id_scheduled_date_idx
+  on public.work_orders (user_id, scheduled_date)
+  where scheduled_date is not null;
+
+-- Two callers can both pass the server's re-check of a slot at once; these
+-- turn the second booking away. A vendor takes one visit at a time, whichever
+-- of their windows it came from, and so does each team window.
+alter table public.work_orders
+  add constraint work_orders_vendor_booking_excl exclude using gist (
+    vendor_id with =,
+    tstzrange(scheduled_date, scheduled_end) with &&
+  ) where (vendor_id is not null and scheduled_end is not null and status not in ('completed', 'cancelled', 'closed'));
+
+alter table public.work_orders
+  add constraint work_orders_window_booking_excl exclude using gist (
+    availability_window_id with =,
+    tstzrange(scheduled_date, scheduled_end) with &&
+  ) where (availability_window_id is not null and scheduled_end is not null and status not in ('completed', 'cancelled', 'closed'));
@@ -0,0 +1,27 @@
+-- Per-property answers to questions that aren't repairs (src/knowledge-base).
+-- A Q&A pair (title = the question) or a longer document; the server splits
+-- documents into passages itself. No property_id = every property the
+-- manager has.
+
+create table if not exists public.knowledge_base_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  property_id uuid references public.properties (id) on delete cascade,
+  title text not null,
+  content text not null,
+  -- Link the agent can give out, e.g. the rent portal
+  source_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_base_entries_user_id_property_id_idx
+  on public.knowledge_base_entries (user_id, property_id);
+
+alter table public.knowledge_base_entries enable row level security;
+
+create policy "Managers manage their knowledge base"
+  on public.knowledge_base_entries
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
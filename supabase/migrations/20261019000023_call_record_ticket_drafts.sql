@@ -0,0 +1,10 @@
+-- Tickets read back to the caller before they're filed
+-- (src/voice-session/ticket-handler.ts). One entry per draft:
+-- { number, title, location, category, priority,
+--   corrections: [{ field, from, to }],
+--   confirmation: pending | confirmed | not_confirmed | skipped,
+--   confirmed_by: speech | keypad | null,
+--   work_order_id, unverified_request_id }
+
+alter table public.call_records
+  add column if not exists ticket_drafts jsonb not null default '[]'::jsonb;
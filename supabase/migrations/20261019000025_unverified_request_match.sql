@@ -0,0 +1,12 @@
+-- How close an unverified caller came to a tenant on file
+-- (src/caller-verification/name-match.ts). possible_tenant_id is only set
+-- when the score reached the review threshold, for the property manager to
+-- check.
+
+alter table public.unverified_requests
+  add column if not exists match_score real check (match_score between 0 and 1),
+  add column if not exists possible_tenant_id uuid references public.tenants (id) on delete set null;
+
+create index if not exists unverified_requests_possible_tenant_id_idx
+  on public.unverified_requests (possible_tenant_id)
+  where possible_tenant_id is not null;